@@ -0,0 +1,249 @@
+/**
+ * Anthropic Messages API transport
+ * Minimal HTTP client with timeouts and retry-after aware retries
+ */
+
+export interface MessagesRequest {
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+  system?: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+export interface MessagesResponse {
+  id: string;
+  model: string;
+  text: string;
+  stopReason: string | null;
+  usage: TokenUsage;
+}
+
+/**
+ * Anything that can answer a Messages API request.
+ * Swap in a fake for tests, or point the HTTP client at a local server via `baseUrl`.
+ */
+export interface ClaudeTransport {
+  send(request: MessagesRequest): Promise<MessagesResponse>;
+}
+
+export interface AnthropicClientOptions {
+  apiKey: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Wire format of a Messages API response (only the fields read here)
+ */
+interface ApiTextBlock {
+  type: 'text';
+  text: string;
+}
+
+interface ApiMessage {
+  id: string;
+  model: string;
+  content: Array<ApiTextBlock | { type: string }>;
+  stop_reason: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number | null;
+    cache_read_input_tokens?: number | null;
+  };
+}
+
+interface ApiErrorBody {
+  type: 'error';
+  error: { type: string; message: string };
+}
+
+export class ClaudeApiError extends Error {
+  readonly status: number;
+  readonly errorType: string;
+
+  constructor(message: string, status: number, errorType = 'api_error') {
+    super(message);
+    this.name = 'ClaudeApiError';
+    this.status = status;
+    this.errorType = errorType;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_STATUSES.has(this.status);
+  }
+}
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const RETRYABLE_STATUSES = new Set([429, 529]);
+const MAX_RETRY_DELAY_MS = 60_000;
+
+export class AnthropicMessagesClient implements ClaudeTransport {
+  private apiKey: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: AnthropicClientOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 60_000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  /**
+   * Send a request, retrying overload/rate-limit responses
+   */
+  async send(request: MessagesRequest): Promise<MessagesResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendOnce(request);
+      } catch (error) {
+        if (!(error instanceof RetryableResponse) || attempt >= this.maxRetries) {
+          throw error instanceof RetryableResponse ? error.error : error;
+        }
+
+        await sleep(error.retryAfterMs ?? backoffDelay(attempt));
+      }
+    }
+  }
+
+  private async sendOnce(request: MessagesRequest): Promise<MessagesResponse> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    // The timer stays armed until the body has been read, so a stalled body also times out
+    let response: Response;
+    let body: ApiMessage | ApiErrorBody | null;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          messages: request.messages,
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.system !== undefined && { system: request.system }),
+        }),
+        signal: controller.signal,
+      });
+      body = parseBody(await response.text());
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ClaudeApiError(`Request timed out after ${this.timeoutMs}ms`, 408, 'timeout_error');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      const details = body && 'error' in body ? body.error : undefined;
+      const error = new ClaudeApiError(
+        details?.message ?? `Messages API returned HTTP ${response.status}`,
+        response.status,
+        details?.type
+      );
+      if (error.retryable) {
+        throw new RetryableResponse(error, parseRetryAfter(response.headers));
+      }
+      throw error;
+    }
+
+    const message = body && !('error' in body) ? body : null;
+    const content = message?.content;
+    const usage = message?.usage;
+
+    return {
+      id: message?.id ?? '',
+      model: message?.model ?? request.model,
+      text: Array.isArray(content)
+        ? content
+          .filter((block): block is ApiTextBlock => block.type === 'text')
+          .map(block => block.text)
+          .join('')
+        : '',
+      stopReason: message?.stop_reason ?? null,
+      usage: {
+        inputTokens: usage?.input_tokens ?? 0,
+        outputTokens: usage?.output_tokens ?? 0,
+        ...(typeof usage?.cache_creation_input_tokens === 'number' && {
+          cacheCreationInputTokens: usage.cache_creation_input_tokens,
+        }),
+        ...(typeof usage?.cache_read_input_tokens === 'number' && {
+          cacheReadInputTokens: usage.cache_read_input_tokens,
+        }),
+      },
+    };
+  }
+}
+
+/**
+ * Internal marker carrying the server-requested delay for a retryable failure
+ */
+class RetryableResponse extends Error {
+  constructor(readonly error: ClaudeApiError, readonly retryAfterMs: number | null) {
+    super(error.message);
+  }
+}
+
+/**
+ * Decode a response body; anything that is not a JSON object (e.g. a proxy's HTML error page) reads as null
+ */
+function parseBody(text: string): ApiMessage | ApiErrorBody | null {
+  try {
+    const value: unknown = JSON.parse(text);
+    return typeof value === 'object' && value !== null ? value as ApiMessage | ApiErrorBody : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read `retry-after-ms` or `retry-after` (seconds or HTTP date)
+ */
+function parseRetryAfter(headers: Headers): number | null {
+  const ms = Number(headers.get('retry-after-ms'));
+  if (headers.has('retry-after-ms') && Number.isFinite(ms) && ms >= 0) {
+    return Math.min(ms, MAX_RETRY_DELAY_MS);
+  }
+
+  const value = headers.get('retry-after');
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.min(Math.max(seconds, 0) * 1000, MAX_RETRY_DELAY_MS);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.min(Math.max(date - Date.now(), 0), MAX_RETRY_DELAY_MS);
+}
+
+function backoffDelay(attempt: number): number {
+  return Math.min(500 * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
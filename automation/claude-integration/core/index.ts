@@ -3,15 +3,75 @@
  * Universal Claude AI integration for development automation
  */
 
+import {
+  AnthropicMessagesClient,
+  type ClaudeTransport,
+  type MessagesRequest,
+  type MessagesResponse,
+  type TokenUsage,
+} from './anthropic-client';
+import { extractJson, validateJsonSchema, type JsonSchema } from './json-schema';
+import { parseFixResponse } from '../parsers/response-parser';
+import { createDefaultTemplateRegistry, type PromptTemplateRegistry } from './template-registry';
+
+export {
+  AnthropicMessagesClient,
+  ClaudeApiError,
+  type AnthropicClientOptions,
+  type ClaudeTransport,
+  type MessagesRequest,
+  type MessagesResponse,
+  type TokenUsage,
+} from './anthropic-client';
+
+export { extractJson, validateJsonSchema, type JsonSchema, type JsonSchemaType } from './json-schema';
+export {
+  parseFixResponse,
+  splitSections,
+  extractFencedBlocks,
+  classifyBlock,
+  parseConfidence,
+  diffFilePath,
+  type ResponseSection,
+  type FencedBlock,
+} from '../parsers/response-parser';
+export {
+  PatchApplier,
+  parseUnifiedDiff,
+  type PatchApplierOptions,
+  type PatchApplyReport,
+  type FilePatchResult,
+  type HunkResult,
+  type FilePatch,
+  type DiffHunk,
+  type DiffLine,
+} from '../strategies/patch-applier';
+export {
+  PromptTemplateRegistry,
+  createDefaultTemplateRegistry,
+  buildTemplateView,
+  GENERIC_TEMPLATE,
+  TEMPLATE_EXTENSION,
+} from './template-registry';
+export { renderMustache, escapeHtml, type MustacheView, type PartialResolver } from './mustache';
+
 export interface ClaudeConfig {
   model: string;
   apiKey?: string;
   maxTokens?: number;
   temperature?: number;
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  transport?: ClaudeTransport; // overrides the HTTP client (e.g. a fake in tests)
+  templates?: PromptTemplateRegistry; // default: built-in templates
+  templateDir?: string; // *.mustache overrides loaded on first use
 }
 
+export type KnownLanguage = 'swift' | 'typescript' | 'python' | 'javascript' | 'dart';
+
 export interface ErrorContext {
-  language: 'swift' | 'typescript' | 'python' | 'javascript' | 'dart';
+  language: KnownLanguage | (string & {}); // unknown languages use the generic template
   framework?: string;
   errorType: string;
   errorMessage: string;
@@ -40,17 +100,52 @@ export interface ClaudeResponse {
   success: boolean;
   suggestions: FixSuggestion[];
   analysis: string;
+  explanation?: string;
+  flutterContext?: string;
   error?: string;
+  rawResponse?: string;
+  usage?: TokenUsage;
+}
+
+export interface ClassifyRequest<T> {
+  prompt: string;
+  schema: JsonSchema;
+  system?: string;
+  validate?: (value: unknown) => T; // extra validation after the schema check; throw to reject
+  retries?: number; // re-asks with the validation error, default 1
 }
 
+export interface ClassifyResponse<T> {
+  success: boolean;
+  data?: T;
+  raw: string;
+  attempts: number; // requests sent; 0 when no transport is configured
+  error?: string;
+  usage?: TokenUsage;
+}
+
+const MISSING_API_KEY_MESSAGE = 'Claude API key not configured (set apiKey or ANTHROPIC_API_KEY)';
+
 /**
  * Core Claude Integration Class
  */
 export class ClaudeIntegration {
   private config: ClaudeConfig;
+  private transport: ClaudeTransport | null;
+  private templates: PromptTemplateRegistry;
+  private templatesLoaded: Promise<number> | null = null;
 
   constructor(config: ClaudeConfig) {
     this.config = config;
+    this.transport = config.transport ?? this.createHttpTransport();
+    this.templates = config.templates ?? createDefaultTemplateRegistry();
+  }
+
+  /**
+   * Template registry used to build prompts (register overrides here)
+   */
+  getTemplateRegistry(): PromptTemplateRegistry {
+    return this.templates;
   }
 
   /**
@@ -58,9 +153,9 @@ export class ClaudeIntegration {
    */
   async generateFix(context: ErrorContext): Promise<ClaudeResponse> {
     try {
-      const prompt = this.buildPrompt(context);
-      const response = await this.callClaude(prompt);
-      return this.parseResponse(response);
+      const prompt = await this.buildPrompt(context);
+      const response = await this.callClaude([{ role: 'user', content: prompt }]);
+      return { ...this.parseResponse(response.text), usage: response.usage };
     } catch (error) {
       return {
         success: false,
@@ -72,235 +167,144 @@ export class ClaudeIntegration {
   }
 
   /**
-   * Build context-aware prompt for Claude
+   * Ask for a JSON answer matching a schema and return the validated object.
+   * Invalid answers are sent back with the validation errors and retried.
    */
-  private buildPrompt(context: ErrorContext): string {
-    const templates = {
-      swift: this.getSwiftTemplate(),
-      typescript: this.getTypeScriptTemplate(),
-      python: this.getPythonTemplate(),
-      javascript: this.getJavaScriptTemplate(),
-      dart: this.getDartTemplate()
-    };
+  async classify<T = unknown>(request: ClassifyRequest<T>): Promise<ClassifyResponse<T>> {
+    if (!this.transport) {
+      return { success: false, raw: '', attempts: 0, error: MISSING_API_KEY_MESSAGE };
+    }
 
-    const template = templates[context.language];
-    return this.interpolateTemplate(template, context);
+    const system = [
+      request.system,
+      'Respond with a single JSON value that conforms to this JSON Schema. Do not add any other text.',
+      JSON.stringify(request.schema, null, 2),
+    ].filter(Boolean).join('\n\n');
+
+    const messages: MessagesRequest['messages'] = [{ role: 'user', content: request.prompt }];
+    const maxAttempts = 1 + Math.max(0, request.retries ?? 1);
+    let usage: TokenUsage | undefined;
+    let raw = '';
+    let lastError = 'Unknown error';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        const response = await this.callClaude(messages, system);
+        usage = addUsage(usage, response.usage);
+        raw = response.text;
+      } catch (error) {
+        return {
+          success: false,
+          raw,
+          attempts: attempt,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          ...(usage && { usage }),
+        };
+      }
+
+      try {
+        const value = extractJson(raw);
+        const schemaErrors = validateJsonSchema(value, request.schema);
+        if (schemaErrors.length > 0) {
+          throw new Error(schemaErrors.join('; '));
+        }
+
+        const data = request.validate ? request.validate(value) : value as T;
+        return { success: true, data, raw, attempts: attempt, ...(usage && { usage }) };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Invalid response';
+        messages.push(
+          { role: 'assistant', content: raw },
+          { role: 'user', content: `That response was rejected: ${lastError}\nReply again with corrected JSON only.` }
+        );
+      }
+    }
+
+    return {
+      success: false,
+      raw,
+      attempts: maxAttempts,
+      error: `Invalid structured output: ${lastError}`,
+      ...(usage && { usage }),
+    };
   }
 
   /**
-   * Call Claude API
+   * Build context-aware prompt for Claude
    */
-  private async callClaude(prompt: string): Promise<string> {
-    // Implementation would use @anthropic-ai/sdk or claude-cli
-    // For now, return mock response
-    return `
-## Analysis
-The error appears to be a ${this.config.model} analysis...
-
-## Fix Suggestion
-\`\`\`diff
-- // old code
-+ // new code
-\`\`\`
-
-## Explanation
-This fix addresses the root cause by...
-    `;
+  private async buildPrompt(context: ErrorContext): Promise<string> {
+    if (this.config.templateDir) {
+      this.templatesLoaded ??= this.templates.loadDirectory(this.config.templateDir);
+      await this.templatesLoaded;
+    }
+
+    return this.templates.render(context);
   }
 
   /**
-   * Parse Claude's response into structured format
+   * Call the Claude Messages API
    */
-  private parseResponse(response: string): ClaudeResponse {
-    // Parse the response and extract fixes
-    const suggestions: FixSuggestion[] = [{
-      type: 'patch',
-      content: '// Generated fix content',
-      explanation: 'Fix explanation',
-      confidence: 0.85
-    }];
+  private async callClaude(
+    messages: MessagesRequest['messages'],
+    system?: string
+  ): Promise<MessagesResponse> {
+    if (!this.transport) {
+      throw new Error(MISSING_API_KEY_MESSAGE);
+    }
 
-    return {
-      success: true,
-      suggestions,
-      analysis: 'Analysis from Claude',
-    };
+    return this.transport.send({
+      model: this.config.model,
+      maxTokens: this.config.maxTokens ?? 4096,
+      ...(this.config.temperature !== undefined && { temperature: this.config.temperature }),
+      ...(system !== undefined && { system }),
+      messages,
+    });
   }
 
   /**
-   * Language-specific prompt templates
+   * Build the default HTTP transport, or null when no API key is available
    */
-  private getSwiftTemplate(): string {
-    return `
-You are Claude 4 Sonnet, an expert iOS developer.
-
-Context: {{projectContext}}
-Error Type: {{errorType}}
-Error Message: {{errorMessage}}
-File: {{filePath}}{{#lineNumber}} (Line {{lineNumber}}){{/lineNumber}}
-
-Generate a precise fix that:
-- Follows Swift best practices
-- Maintains SwiftUI patterns
-- Ensures iOS compatibility
-- Provides minimal changes
-
-Response format:
-## Analysis
-[Root cause analysis]
-
-## Fix
-\`\`\`diff
-[Unified diff patch]
-\`\`\`
-
-## Explanation
-[Why this fix works]
-    `;
-  }
-
-  private getTypeScriptTemplate(): string {
-    return `
-You are Claude 4 Sonnet, an expert TypeScript developer.
-
-Context: {{projectContext}}
-Error Type: {{errorType}}
-Error Message: {{errorMessage}}
-File: {{filePath}}{{#lineNumber}} (Line {{lineNumber}}){{/lineNumber}}
-
-Generate a precise TypeScript fix that:
-- Maintains type safety
-- Follows modern ES standards
-- Ensures framework compatibility
-- Provides minimal changes
-
-Response format:
-## Analysis
-[Root cause analysis]
-
-## Fix
-\`\`\`diff
-[Unified diff patch]
-\`\`\`
-
-## Explanation
-[Why this fix works]
-    `;
-  }
+  private createHttpTransport(): ClaudeTransport | null {
+    const apiKey = this.config.apiKey || process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      return null;
+    }
 
-  private getPythonTemplate(): string {
-    return `
-You are Claude 4 Sonnet, an expert Python developer.
-
-Context: {{projectContext}}
-Error Type: {{errorType}}
-Error Message: {{errorMessage}}
-File: {{filePath}}{{#lineNumber}} (Line {{lineNumber}}){{/lineNumber}}
-
-Generate a precise Python fix that:
-- Follows PEP standards
-- Maintains compatibility
-- Ensures proper imports
-- Provides minimal changes
-
-Response format:
-## Analysis
-[Root cause analysis]
-
-## Fix
-\`\`\`diff
-[Unified diff patch]
-\`\`\`
-
-## Explanation
-[Why this fix works]
-    `;
+    return new AnthropicMessagesClient({
+      apiKey,
+      ...(this.config.baseUrl !== undefined && { baseUrl: this.config.baseUrl }),
+      ...(this.config.timeoutMs !== undefined && { timeoutMs: this.config.timeoutMs }),
+      ...(this.config.maxRetries !== undefined && { maxRetries: this.config.maxRetries }),
+    });
   }
 
-  private getJavaScriptTemplate(): string {
-    return `
-You are Claude 4 Sonnet, an expert JavaScript developer.
-
-Context: {{projectContext}}
-Error Type: {{errorType}}
-Error Message: {{errorMessage}}
-File: {{filePath}}{{#lineNumber}} (Line {{lineNumber}}){{/lineNumber}}
-
-Generate a precise JavaScript fix that:
-- Follows modern JS standards
-- Maintains framework patterns
-- Ensures browser compatibility
-- Provides minimal changes
-
-Response format:
-## Analysis
-[Root cause analysis]
-
-## Fix
-\`\`\`diff
-[Unified diff patch]
-\`\`\`
-
-## Explanation
-[Why this fix works]
-    `;
+  /**
+   * Parse Claude's response into structured format
+   */
+  private parseResponse(response: string): ClaudeResponse {
+    return parseFixResponse(response);
   }
+}
 
-  private getDartTemplate(): string {
-    return `
-You are Claude 4 Sonnet, an expert Flutter/Dart developer.
-
-Context: {{projectContext}}
-Error Type: {{errorType}}
-Error Message: {{errorMessage}}
-File: {{filePath}}{{#lineNumber}} (Line {{lineNumber}}){{/lineNumber}}
-
-Generate a precise Dart/Flutter fix that:
-- Follows Dart style guidelines and conventions
-- Maintains Flutter best practices and patterns
-- Ensures null safety compliance
-- Optimizes performance (const constructors, etc.)
-- Removes deprecated API usage
-- Provides minimal, surgical changes
-- Maintains existing functionality
-
-Common Flutter/Dart error patterns to fix:
-- avoid_print: Replace print() with developer.log()
-- prefer_const_constructors: Add const where beneficial
-- avoid_redundant_argument_values: Remove default value arguments
-- deprecated_member_use: Update to current API
-- unused_local_variable: Remove or utilize variables
-- prefer_single_quotes: Use single quotes for strings
-
-Response format:
-## Analysis
-[Root cause analysis and fix strategy]
-
-## Fix
-\`\`\`diff
-[Unified diff patch showing exact changes]
-\`\`\`
-
-## Explanation
-[Why this fix works and maintains code quality]
-
-## Flutter Context
-[Any Flutter-specific considerations or side effects]
-    `;
+/**
+ * Sum token usage across several calls
+ */
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  if (!total) {
+    return { ...usage };
   }
 
-  /**
-   * Simple template interpolation
-   */
-  private interpolateTemplate(template: string, context: ErrorContext): string {
-    return template
-      .replace(/\{\{projectContext\}\}/g, JSON.stringify(context.projectContext))
-      .replace(/\{\{errorType\}\}/g, context.errorType)
-      .replace(/\{\{errorMessage\}\}/g, context.errorMessage)
-      .replace(/\{\{filePath\}\}/g, context.filePath || '')
-      .replace(/\{\{#lineNumber\}\}(.*?)\{\{\/lineNumber\}\}/g, 
-        context.lineNumber ? `$1`.replace(/\{\{lineNumber\}\}/g, context.lineNumber.toString()) : '');
-  }
+  const sum = (a?: number, b?: number): number | undefined =>
+    a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+  const cacheCreationInputTokens = sum(total.cacheCreationInputTokens, usage.cacheCreationInputTokens);
+  const cacheReadInputTokens = sum(total.cacheReadInputTokens, usage.cacheReadInputTokens);
+
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    ...(cacheCreationInputTokens !== undefined && { cacheCreationInputTokens }),
+    ...(cacheReadInputTokens !== undefined && { cacheReadInputTokens }),
+  };
 }
 
 /**
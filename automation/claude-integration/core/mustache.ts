@@ -0,0 +1,200 @@
+/**
+ * Mustache renderer
+ * Variables, sections, inverted sections, comments, partials and standalone-line handling.
+ * Set-delimiter tags and lambdas are not supported.
+ */
+
+export type MustacheView = Record<string, unknown>;
+export type PartialResolver = (name: string) => string | undefined;
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'name' | 'raw'; name: string }
+  | { type: 'section' | 'inverted'; name: string; children: Token[] }
+  | { type: 'partial'; name: string; indent: string };
+
+const TAG = /\{\{\{\s*([\s\S]*?)\s*\}\}\}|\{\{\s*([#^/!>&]?)\s*([\s\S]*?)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+  '/': '&#x2F;',
+  '`': '&#x60;',
+  '=': '&#x3D;',
+};
+
+/**
+ * Escape a value the way Mustache does for `{{name}}`
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"'`=/]/g, char => HTML_ESCAPES[char] ?? char);
+}
+
+/**
+ * Render a template against a view
+ */
+export function renderMustache(template: string, view: MustacheView, partials?: PartialResolver): string {
+  return renderTokens(parseTemplate(template), [view], partials ?? (() => undefined), 0);
+}
+
+/**
+ * Parse a template into a token tree, throwing on unbalanced sections
+ */
+function parseTemplate(template: string): Token[] {
+  const root: Token[] = [];
+  const stack: Array<{ name: string; children: Token[] }> = []; // enclosing sections
+  let current = { name: '', children: root };
+  let cursor = 0;
+
+  for (const match of template.matchAll(TAG)) {
+    const [tag, tripleName, tagSigil, tagName] = match;
+    const triple = tripleName !== undefined;
+    const sigil = triple ? '' : tagSigil ?? '';
+    const name = (triple ? tripleName : tagName) ?? '';
+    let start = match.index ?? 0;
+    let end = start + tag.length;
+
+    // Standalone tags (alone on their line) swallow the whole line
+    const standalone = sigil !== '' && sigil !== '&' ? standaloneBounds(template, start, end) : null;
+    let indent = '';
+    if (standalone) {
+      indent = template.slice(standalone.lineStart, start);
+      start = standalone.lineStart;
+      end = standalone.lineEnd;
+    }
+
+    if (start > cursor) {
+      current.children.push({ type: 'text', value: template.slice(cursor, start) });
+    }
+    cursor = end;
+
+    switch (sigil) {
+      case '!':
+        break;
+      case '#':
+      case '^': {
+        const children: Token[] = [];
+        current.children.push({ type: sigil === '#' ? 'section' : 'inverted', name, children });
+        stack.push(current);
+        current = { name, children };
+        break;
+      }
+      case '/': {
+        const parent = stack.pop();
+        if (!parent || current.name !== name) {
+          throw new Error(`Unexpected closing tag "${name}"${parent ? ` (expected "${current.name}")` : ''}`);
+        }
+        current = parent;
+        break;
+      }
+      case '>':
+        current.children.push({ type: 'partial', name, indent });
+        break;
+      case '&':
+        current.children.push({ type: 'raw', name });
+        break;
+      default:
+        current.children.push({ type: triple ? 'raw' : 'name', name });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed section "${current.name}"`);
+  }
+  if (cursor < template.length) {
+    root.push({ type: 'text', value: template.slice(cursor) });
+  }
+
+  return root;
+}
+
+function renderTokens(tokens: Token[], contexts: unknown[], partials: PartialResolver, depth: number): string {
+  let output = '';
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'text':
+        output += token.value;
+        break;
+      case 'name':
+      case 'raw': {
+        const value = lookup(contexts, token.name);
+        const text = value === undefined || value === null ? '' : String(value);
+        output += token.type === 'name' ? escapeHtml(text) : text;
+        break;
+      }
+      case 'section': {
+        const value = lookup(contexts, token.name);
+        if (Array.isArray(value)) {
+          for (const item of value) {
+            output += renderTokens(token.children, [...contexts, item], partials, depth);
+          }
+        } else if (isTruthy(value)) {
+          const scope = typeof value === 'object' ? [...contexts, value] : contexts;
+          output += renderTokens(token.children, scope, partials, depth);
+        }
+        break;
+      }
+      case 'inverted': {
+        const value = lookup(contexts, token.name);
+        if (!isTruthy(value) || (Array.isArray(value) && value.length === 0)) {
+          output += renderTokens(token.children, contexts, partials, depth);
+        }
+        break;
+      }
+      case 'partial': {
+        if (depth > 20) {
+          throw new Error(`Partial recursion too deep at "${token.name}"`);
+        }
+        const partial = partials(token.name);
+        if (partial !== undefined) {
+          const indented = token.indent ? partial.replace(/^(?=.)/gm, token.indent) : partial;
+          output += renderTokens(parseTemplate(indented), contexts, partials, depth + 1);
+        }
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Resolve a (possibly dotted) name against the context stack, innermost first
+ */
+function lookup(contexts: unknown[], name: string): unknown {
+  if (name === '.') {
+    return contexts[contexts.length - 1];
+  }
+
+  const [head, ...rest] = name.split('.');
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    const context = contexts[i];
+    if (context !== null && typeof context === 'object' && head !== undefined && head in context) {
+      return rest.reduce<unknown>(
+        (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        (context as Record<string, unknown>)[head]
+      );
+    }
+  }
+
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function standaloneBounds(template: string, start: number, end: number): { lineStart: number; lineEnd: number } | null {
+  const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+  if (template.slice(lineStart, start).trim() !== '') return null;
+
+  const newline = template.indexOf('\n', end);
+  const lineEnd = newline === -1 ? template.length : newline + 1;
+  if (template.slice(end, newline === -1 ? template.length : newline).replace(/\r$/, '').trim() !== '') return null;
+
+  return { lineStart, lineEnd };
+}
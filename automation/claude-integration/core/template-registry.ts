@@ -0,0 +1,138 @@
+/**
+ * Prompt Template Registry
+ * Templates keyed by language and optional framework, with file-based overrides
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { ErrorContext } from './index';
+import { renderMustache, type MustacheView } from './mustache';
+import { BUILTIN_TEMPLATES } from '../templates/builtin';
+
+export const GENERIC_TEMPLATE = 'generic';
+export const TEMPLATE_EXTENSION = '.mustache';
+
+export class PromptTemplateRegistry {
+  private templates = new Map<string, string>();
+  private partials = new Map<string, string>();
+
+  /**
+   * Register (or replace) the template for a language, optionally narrowed to a framework
+   */
+  register(language: string, template: string, framework?: string): this {
+    this.templates.set(templateKey(language, framework), template);
+    return this;
+  }
+
+  /**
+   * Register a partial usable as {{> name}} from any template
+   */
+  registerPartial(name: string, template: string): this {
+    this.partials.set(name, template);
+    return this;
+  }
+
+  /**
+   * Whether a template is registered for exactly this language/framework
+   */
+  has(language: string, framework?: string): boolean {
+    return this.templates.has(templateKey(language, framework));
+  }
+
+  /**
+   * Find the best template: language+framework, then language, then generic
+   */
+  resolve(language: string, framework?: string): string {
+    const candidates = [
+      ...(framework ? [templateKey(language, framework)] : []),
+      templateKey(language),
+      GENERIC_TEMPLATE,
+    ];
+
+    for (const key of candidates) {
+      const template = this.templates.get(key);
+      if (template !== undefined) {
+        return template;
+      }
+    }
+
+    throw new Error(`No prompt template for "${language}" and no generic fallback registered`);
+  }
+
+  /**
+   * Render the prompt for an error context
+   */
+  render(context: ErrorContext): string {
+    const template = this.resolve(context.language, context.framework);
+    return renderMustache(template, buildTemplateView(context), name => this.partials.get(name));
+  }
+
+  /**
+   * Load overrides from a directory:
+   *   <language>.mustache, <language>.<framework>.mustache, generic.mustache, _<partial>.mustache
+   */
+  async loadDirectory(dir: string): Promise<number> {
+    const dirExists = await fs.access(dir).then(() => true).catch(() => false);
+    if (!dirExists) {
+      return 0;
+    }
+
+    const files = (await fs.readdir(dir)).filter(file => file.endsWith(TEMPLATE_EXTENSION)).sort();
+    for (const file of files) {
+      const content = await fs.readFile(path.join(dir, file), 'utf8');
+      const name = file.slice(0, -TEMPLATE_EXTENSION.length);
+
+      if (name.startsWith('_')) {
+        this.registerPartial(name.slice(1), content);
+        continue;
+      }
+
+      const [language, ...framework] = name.split('.');
+      this.register(language ?? name, content, framework.length > 0 ? framework.join('.') : undefined);
+    }
+
+    return files.length;
+  }
+
+  /**
+   * Registered template keys, e.g. `swift`, `swift.uikit`, `generic`
+   */
+  keys(): string[] {
+    return Array.from(this.templates.keys()).sort();
+  }
+}
+
+/**
+ * Registry pre-loaded with the built-in language templates
+ */
+export function createDefaultTemplateRegistry(): PromptTemplateRegistry {
+  const registry = new PromptTemplateRegistry();
+  for (const [language, template] of Object.entries(BUILTIN_TEMPLATES)) {
+    registry.register(language, template);
+  }
+  return registry;
+}
+
+/**
+ * Values available to templates
+ */
+export function buildTemplateView(context: ErrorContext): MustacheView {
+  return {
+    language: context.language,
+    framework: context.framework,
+    errorType: context.errorType,
+    errorMessage: context.errorMessage,
+    filePath: context.filePath ?? '',
+    lineNumber: context.lineNumber,
+    projectContext: context.projectContext ? JSON.stringify(context.projectContext) : '',
+    project: context.projectContext,
+  };
+}
+
+/**
+ * Normalize "Next.js" / "SwiftUI" to "nextjs" / "swiftui" so lookups are forgiving
+ */
+function templateKey(language: string, framework?: string): string {
+  const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9+#]/g, '');
+  return framework ? `${normalize(language)}.${normalize(framework)}` : normalize(language);
+}
@@ -0,0 +1,262 @@
+/**
+ * Fix Response Parser
+ * Turns Claude's markdown answer (## Analysis / ## Fix / ## Explanation ...) into FixSuggestions
+ */
+
+import type { ClaudeResponse, FixSuggestion } from '../core/index';
+
+export interface ResponseSection {
+  heading: string;
+  body: string;
+}
+
+export interface FencedBlock {
+  language: string;
+  info: string;
+  content: string;
+  section: string; // heading of the enclosing section ('' before the first heading)
+}
+
+const DEFAULT_CONFIDENCE = 0.5;
+
+const COMMAND_LANGUAGES = new Set(['bash', 'sh', 'shell', 'zsh', 'console', 'terminal', 'powershell', 'ps1', 'cmd', 'fish']);
+const CONFIG_LANGUAGES = new Set(['json', 'jsonc', 'yaml', 'yml', 'toml', 'ini', 'xml', 'plist', 'properties', 'env', 'dotenv', 'gradle', 'editorconfig']);
+const PATCH_LANGUAGES = new Set(['diff', 'patch', 'udiff']);
+
+const WORD_CONFIDENCE: Record<string, number> = {
+  'very high': 0.95,
+  high: 0.85,
+  medium: 0.65,
+  moderate: 0.65,
+  low: 0.35,
+  'very low': 0.15,
+};
+
+/**
+ * Parse a fix response into a ClaudeResponse
+ */
+export function parseFixResponse(text: string): ClaudeResponse {
+  const sections = splitSections(text);
+  const blocks = extractFencedBlocks(text);
+  const known = sections.filter(section => section.heading !== '');
+
+  if (known.length === 0 && blocks.length === 0) {
+    return {
+      success: false,
+      suggestions: [],
+      analysis: '',
+      error: 'Could not parse response: no sections or code blocks found',
+      rawResponse: text,
+    };
+  }
+
+  const analysis = findSection(sections, /^analysis\b/i);
+  const explanation = withoutConfidenceLine(findSection(sections, /^explanation\b/i));
+  const flutterContext = findSection(sections, /^flutter context\b/i);
+  const globalConfidence = parseConfidence(text) ?? DEFAULT_CONFIDENCE;
+
+  const suggestions: FixSuggestion[] = blocks.flatMap(block => {
+    const section = sections.find(s => s.heading === block.section);
+    const confidence = (section && parseConfidence(stripFences(section.body))) ?? globalConfidence;
+    const blockExplanation = explanation ?? (section ? stripFences(section.body).trim() : '');
+    const type = classifyBlock(block);
+
+    const pieces = type === 'patch' ? splitDiffByFile(block.content) : [block.content];
+    return pieces.map(content => {
+      const filePath = type === 'patch' ? diffFilePath(content) : fencePath(block.info);
+      return {
+        type,
+        content,
+        explanation: blockExplanation,
+        confidence,
+        ...(filePath !== undefined && { filePath }),
+      };
+    });
+  });
+
+  return {
+    success: true,
+    suggestions,
+    analysis: analysis ?? (known.length === 0 ? stripFences(text).trim() : ''),
+    ...(explanation !== undefined && { explanation }),
+    ...(flutterContext !== undefined && { flutterContext }),
+    rawResponse: text,
+  };
+}
+
+/**
+ * Split markdown into `##` sections (text before the first heading gets heading '')
+ */
+export function splitSections(text: string): ResponseSection[] {
+  let current: ResponseSection = { heading: '', body: '' };
+  const sections: ResponseSection[] = [current];
+  let inFence = false;
+
+  for (const line of text.split('\n')) {
+    if (/^\s*```/.test(line)) inFence = !inFence;
+
+    const heading = !inFence ? line.match(/^##\s+(.+?)\s*#*\s*$/) : null;
+    if (heading?.[1]) {
+      current = { heading: heading[1].trim(), body: '' };
+      sections.push(current);
+      continue;
+    }
+
+    current.body += `${line}\n`;
+  }
+
+  return sections.filter(section => section.heading !== '' || section.body.trim() !== '');
+}
+
+/**
+ * Extract every fenced code block along with its fence info and section
+ */
+export function extractFencedBlocks(text: string): FencedBlock[] {
+  const blocks: FencedBlock[] = [];
+  let section = '';
+  let open: { info: string; lines: string[] } | null = null;
+
+  for (const line of text.split('\n')) {
+    const fence = line.match(/^\s*```(.*)$/);
+
+    if (open) {
+      if (fence && fence[1]?.trim() === '') {
+        const info = open.info;
+        blocks.push({
+          language: (info.split(/[\s:]/)[0] ?? '').toLowerCase(),
+          info,
+          content: open.lines.join('\n'),
+          section,
+        });
+        open = null;
+      } else {
+        open.lines.push(line);
+      }
+      continue;
+    }
+
+    if (fence) {
+      open = { info: fence[1]?.trim() ?? '', lines: [] };
+      continue;
+    }
+
+    const heading = line.match(/^##\s+(.+?)\s*#*\s*$/);
+    if (heading?.[1]) section = heading[1].trim();
+  }
+
+  return blocks;
+}
+
+/**
+ * Decide what kind of suggestion a block is from its fence language and content
+ */
+export function classifyBlock(block: Pick<FencedBlock, 'language' | 'content'>): FixSuggestion['type'] {
+  const { language, content } = block;
+
+  if (PATCH_LANGUAGES.has(language) || looksLikeDiff(content)) return 'patch';
+  if (COMMAND_LANGUAGES.has(language)) return 'command';
+  if (CONFIG_LANGUAGES.has(language)) return 'config';
+
+  if (!language) {
+    const lines = content.split('\n').filter(line => line.trim());
+    if (lines.length > 0 && lines.every(line => /^\s*(\$ |> |#|npm |npx |yarn |pnpm |pod |flutter |dart |swift |xcodebuild |pip |python |git )/.test(line))) {
+      return 'command';
+    }
+    if (isJson(content)) return 'config';
+  }
+
+  return 'code';
+}
+
+/**
+ * Read a model-stated confidence ("Confidence: 85%", "confidence 0.8", "Confidence: high")
+ */
+export function parseConfidence(text: string): number | undefined {
+  const numeric = text.match(/confidence[^\n\d%]{0,20}?(\d+(?:\.\d+)?)\s*(%|\/\s*10\b|\/\s*100\b)?/i);
+  if (numeric?.[1]) {
+    const value = Number(numeric[1]);
+    const unit = numeric[2]?.replace(/\s/g, '');
+    const normalized = unit === '%' || unit === '/100' ? value / 100
+      : unit === '/10' ? value / 10
+      : value > 1 ? value / 100
+      : value;
+    if (normalized >= 0 && normalized <= 1) return normalized;
+  }
+
+  const word = text.match(/confidence[^\n]{0,20}?\b(very high|very low|high|medium|moderate|low)\b/i);
+  return word?.[1] ? WORD_CONFIDENCE[word[1].toLowerCase()] : undefined;
+}
+
+/**
+ * Target file of a single-file diff, taken from its +++ (or --- for deletions) header
+ */
+export function diffFilePath(diff: string): string | undefined {
+  const target = diff.match(/^\+\+\+ (\S+)/m)?.[1];
+  const source = diff.match(/^--- (\S+)/m)?.[1];
+  const gitHeader = diff.match(/^diff --git a\/(\S+) b\/(\S+)/m);
+
+  for (const candidate of [target, source]) {
+    if (candidate && candidate !== '/dev/null') return candidate.replace(/^[ab]\//, '');
+  }
+
+  return gitHeader?.[2];
+}
+
+/**
+ * Split a multi-file diff into one diff per file
+ */
+function splitDiffByFile(diff: string): string[] {
+  const lines = diff.split('\n');
+  const starts: number[] = [];
+
+  lines.forEach((line, i) => {
+    if (line.startsWith('diff --git ')) {
+      starts.push(i);
+    } else if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ') && !lines[i - 1]?.match(/^(diff --git |index |new file|deleted file|similarity|rename |old mode|new mode)/)) {
+      starts.push(i);
+    }
+  });
+
+  if (starts.length <= 1) return [diff];
+
+  const pieces = starts.map((start, i) => lines.slice(start, starts[i + 1] ?? lines.length).join('\n').trimEnd());
+  const preamble = lines.slice(0, starts[0]).join('\n').trim();
+  if (preamble && pieces[0] !== undefined) pieces[0] = `${preamble}\n${pieces[0]}`;
+  return pieces;
+}
+
+function looksLikeDiff(content: string): boolean {
+  return /^diff --git /m.test(content)
+    || (/^--- \S+/m.test(content) && /^\+\+\+ \S+/m.test(content))
+    || /^@@ -\d+(,\d+)? \+\d+(,\d+)? @@/m.test(content);
+}
+
+function fencePath(info: string): string | undefined {
+  // ```swift:Sources/App.swift or ```swift title="App.swift"
+  const match = info.match(/^[\w+-]*:(\S+)/) ?? info.match(/(?:title|file)=["']?([^"'\s]+)/);
+  return match?.[1];
+}
+
+function isJson(content: string): boolean {
+  const trimmed = content.trim();
+  if (!/^[{[]/.test(trimmed)) return false;
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function findSection(sections: ResponseSection[], heading: RegExp): string | undefined {
+  const section = sections.find(s => heading.test(s.heading));
+  return section ? section.body.trim() : undefined;
+}
+
+function withoutConfidenceLine(text: string | undefined): string | undefined {
+  return text?.replace(/^\s*\**confidence\**\s*:.*$/gim, '').trim();
+}
+
+function stripFences(text: string): string {
+  return text.replace(/^\s*```[^\n]*\n[\s\S]*?^\s*```\s*$/gm, '');
+}
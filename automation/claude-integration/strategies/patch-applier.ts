@@ -0,0 +1,451 @@
+/**
+ * Patch Applier
+ * Dry-runs and applies unified-diff FixSuggestions against a working tree
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { ClaudeResponse, FixSuggestion } from '../core/index';
+import { diffFilePath } from '../parsers/response-parser';
+
+export interface PatchApplierOptions {
+  rootDir: string;
+  fuzz?: number; // context lines that may be ignored at each end of a hunk, default 2
+  maxOffset?: number; // how far (in lines) a hunk may drift from its stated position, default unlimited
+  minConfidence?: number; // skip suggestions below this confidence, default 0
+}
+
+export interface HunkResult {
+  index: number;
+  header: string;
+  applied: boolean;
+  offset: number; // lines between the stated and actual position
+  fuzz: number; // context lines ignored to make the hunk fit
+  error?: string;
+}
+
+export interface FilePatchResult {
+  filePath: string;
+  suggestionIndex: number;
+  action: 'modify' | 'create' | 'delete';
+  success: boolean;
+  hunks: HunkResult[];
+  error?: string;
+}
+
+export interface PatchApplyReport {
+  success: boolean;
+  dryRun: boolean;
+  applied: boolean;
+  rolledBack: boolean;
+  files: FilePatchResult[];
+  skipped: number; // non-patch or low-confidence suggestions
+  error?: string;
+}
+
+export interface DiffLine {
+  kind: ' ' | '-' | '+';
+  text: string;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number | null; // null when the model omitted line numbers
+  lines: DiffLine[];
+  noEolOld: boolean;
+  noEolNew: boolean;
+}
+
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: DiffHunk[];
+}
+
+interface FileState {
+  exists: boolean;
+  lines: string[];
+  eol: '\n' | '\r\n';
+  trailingNewline: boolean;
+}
+
+export class PatchApplier {
+  private rootDir: string;
+  private fuzz: number;
+  private maxOffset: number;
+  private minConfidence: number;
+
+  constructor(options: PatchApplierOptions) {
+    this.rootDir = path.resolve(options.rootDir);
+    this.fuzz = options.fuzz ?? 2;
+    this.maxOffset = options.maxOffset ?? Number.POSITIVE_INFINITY;
+    this.minConfidence = options.minConfidence ?? 0;
+  }
+
+  /**
+   * Check every patch against the files on disk without writing anything
+   */
+  async dryRun(response: ClaudeResponse): Promise<PatchApplyReport> {
+    const { report } = await this.plan(response);
+    return report;
+  }
+
+  /**
+   * Apply every patch, or none: any failing hunk aborts, any failing write is rolled back
+   */
+  async apply(response: ClaudeResponse): Promise<PatchApplyReport> {
+    const { report, results } = await this.plan(response);
+    report.dryRun = false;
+
+    if (!report.success) {
+      return report;
+    }
+
+    const originals = new Map<string, FileState>();
+    try {
+      for (const [filePath, state] of results) {
+        originals.set(filePath, await this.readState(filePath));
+        await this.writeState(filePath, state);
+      }
+      report.applied = true;
+    } catch (error) {
+      report.success = false;
+      report.error = error instanceof Error ? error.message : 'Unknown error';
+      await this.rollback(originals);
+      report.rolledBack = true;
+    }
+
+    return report;
+  }
+
+  /**
+   * Compute the patched content of every touched file in memory
+   */
+  private async plan(response: ClaudeResponse): Promise<{ report: PatchApplyReport; results: Map<string, FileState> }> {
+    const report: PatchApplyReport = {
+      success: true,
+      dryRun: true,
+      applied: false,
+      rolledBack: false,
+      files: [],
+      skipped: 0,
+    };
+    const states = new Map<string, FileState>();
+
+    for (const [suggestionIndex, suggestion] of response.suggestions.entries()) {
+      if (suggestion.type !== 'patch' || suggestion.confidence < this.minConfidence) {
+        report.skipped++;
+        continue;
+      }
+
+      let patches: FilePatch[];
+      try {
+        patches = parseUnifiedDiff(suggestion.content);
+      } catch (error) {
+        report.files.push(this.failedFile(suggestion, suggestionIndex, error));
+        report.success = false;
+        continue;
+      }
+
+      for (const patch of patches) {
+        const result = await this.applyFilePatch(patch, suggestion, suggestionIndex, states);
+        report.files.push(result);
+        if (!result.success) report.success = false;
+      }
+    }
+
+    if (!report.success) {
+      report.error = 'One or more hunks failed to apply';
+    }
+
+    return { report, results: states };
+  }
+
+  private async applyFilePatch(
+    patch: FilePatch,
+    suggestion: FixSuggestion,
+    suggestionIndex: number,
+    states: Map<string, FileState>
+  ): Promise<FilePatchResult> {
+    const filePath = patch.newPath ?? patch.oldPath ?? suggestion.filePath ?? '';
+    const action: FilePatchResult['action'] = patch.oldPath === null ? 'create' : patch.newPath === null ? 'delete' : 'modify';
+    const result: FilePatchResult = { filePath, suggestionIndex, action, success: false, hunks: [] };
+
+    try {
+      const sourcePath = patch.oldPath ?? filePath;
+      const state = states.get(sourcePath) ?? await this.readState(sourcePath);
+
+      if (action === 'create' && state.exists && state.lines.length > 0) {
+        throw new Error('File already exists');
+      }
+      if (action !== 'create' && !state.exists) {
+        throw new Error('File not found');
+      }
+
+      const lines = [...state.lines];
+      let trailingNewline = state.trailingNewline || !state.exists;
+      let drift = 0;
+
+      patch.hunks.forEach((hunk, index) => {
+        const outcome = this.applyHunk(lines, hunk, drift);
+        result.hunks.push({ index, header: hunk.header, ...outcome.result });
+        if (outcome.result.applied) {
+          drift += outcome.delta + outcome.result.offset;
+          if (outcome.touchesEnd) {
+            trailingNewline = hunk.noEolNew ? false : hunk.noEolOld ? true : trailingNewline;
+          }
+        }
+      });
+
+      const failed = result.hunks.filter(hunk => !hunk.applied).length;
+      if (failed > 0) {
+        throw new Error(`${failed} of ${patch.hunks.length} hunk(s) failed`);
+      }
+
+      if (sourcePath !== filePath) {
+        states.set(sourcePath, { ...state, exists: false, lines: [] });
+      }
+      states.set(filePath, {
+        exists: action !== 'delete',
+        lines: action === 'delete' ? [] : lines,
+        eol: state.eol,
+        trailingNewline,
+      });
+      result.success = true;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return result;
+  }
+
+  /**
+   * Locate a hunk (exact, then with offset, then with fuzz) and splice it in
+   */
+  private applyHunk(
+    lines: string[],
+    hunk: DiffHunk,
+    drift: number
+  ): { result: Omit<HunkResult, 'index' | 'header'>; delta: number; touchesEnd: boolean } {
+    const expected = hunk.oldStart === null ? 0 : Math.max(0, hunk.oldStart - 1 + drift);
+    const leadingContext = countContext(hunk.lines);
+    const trailingContext = countContext([...hunk.lines].reverse());
+
+    for (let fuzz = 0; fuzz <= this.fuzz; fuzz++) {
+      const dropStart = Math.min(fuzz, leadingContext);
+      const dropEnd = Math.min(fuzz, trailingContext);
+      if (fuzz > 0 && dropStart === 0 && dropEnd === 0) break;
+
+      const body = hunk.lines.slice(dropStart, hunk.lines.length - dropEnd);
+      const oldLines = body.filter(line => line.kind !== '+').map(line => line.text);
+      const newLines = body.filter(line => line.kind !== '-').map(line => line.text);
+
+      const position = findLines(lines, oldLines, expected + dropStart, hunk.oldStart === null ? Infinity : this.maxOffset);
+      if (position === null) continue;
+
+      lines.splice(position, oldLines.length, ...newLines);
+      return {
+        result: { applied: true, offset: position - dropStart - expected, fuzz },
+        delta: newLines.length - oldLines.length,
+        touchesEnd: position + newLines.length >= lines.length,
+      };
+    }
+
+    return {
+      result: { applied: false, offset: 0, fuzz: 0, error: 'Context not found' },
+      delta: 0,
+      touchesEnd: false,
+    };
+  }
+
+  private async readState(filePath: string): Promise<FileState> {
+    const absolute = this.resolve(filePath);
+    const exists = await fs.access(absolute).then(() => true).catch(() => false);
+    if (!exists) {
+      return { exists: false, lines: [], eol: '\n', trailingNewline: true };
+    }
+
+    const content = await fs.readFile(absolute, 'utf8');
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const trailingNewline = content.length === 0 || content.endsWith('\n');
+    const lines = content.split(/\r?\n/);
+    if (trailingNewline) lines.pop();
+
+    return { exists: true, lines, eol, trailingNewline };
+  }
+
+  /**
+   * Write through a temp file and rename so a file is never left half-written
+   */
+  private async writeState(filePath: string, state: FileState): Promise<void> {
+    const absolute = this.resolve(filePath);
+
+    if (!state.exists) {
+      await fs.rm(absolute, { force: true });
+      return;
+    }
+
+    const content = state.lines.join(state.eol) + (state.trailingNewline && state.lines.length > 0 ? state.eol : '');
+    const temp = `${absolute}.${process.pid}.patch-tmp`;
+    await fs.mkdir(path.dirname(absolute), { recursive: true });
+    try {
+      await fs.writeFile(temp, content);
+      await fs.rename(temp, absolute);
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  private async rollback(originals: Map<string, FileState>): Promise<void> {
+    for (const [filePath, state] of originals) {
+      try {
+        await this.writeState(filePath, state);
+      } catch (error) {
+        console.error(`❌ Failed to restore ${filePath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Resolve a repo-relative path, refusing anything outside rootDir
+   */
+  private resolve(filePath: string): string {
+    const absolute = path.resolve(this.rootDir, filePath);
+    if (absolute !== this.rootDir && !absolute.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Path escapes working tree: ${filePath}`);
+    }
+    return absolute;
+  }
+
+  private failedFile(suggestion: FixSuggestion, suggestionIndex: number, error: unknown): FilePatchResult {
+    return {
+      filePath: suggestion.filePath ?? '',
+      suggestionIndex,
+      action: 'modify',
+      success: false,
+      hunks: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Parse a (possibly multi-file) unified diff
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const patches: FilePatch[] = [];
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  let current: FilePatch | null = null;
+  let hunk: DiffHunk | null = null;
+  let lastKind: DiffLine['kind'] | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = {
+        oldPath: headerPath(line.slice(4)),
+        newPath: headerPath((lines[i + 1] ?? '').slice(4)),
+        hunks: [],
+      };
+      patches.push(current);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const header = line.match(/^@@(?:\s*-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?)?[^@]*@@/);
+    if (header) {
+      if (!current) {
+        const filePath = diffFilePath(diff);
+        current = { oldPath: filePath ?? null, newPath: filePath ?? null, hunks: [] };
+        patches.push(current);
+      }
+      hunk = {
+        header: line,
+        oldStart: header[1] !== undefined ? Number(header[1]) : null,
+        lines: [],
+        noEolOld: false,
+        noEolNew: false,
+      };
+      current.hunks.push(hunk);
+      lastKind = null;
+      continue;
+    }
+
+    if (!hunk) continue;
+
+    if (line.startsWith('\\')) {
+      if (lastKind === '-' || lastKind === ' ') hunk.noEolOld = true;
+      if (lastKind === '+' || lastKind === ' ') hunk.noEolNew = true;
+      continue;
+    }
+
+    const kind = line[0];
+    if (kind === ' ' || kind === '-' || kind === '+') {
+      hunk.lines.push({ kind, text: line.slice(1) });
+      lastKind = kind;
+    } else if (line === '') {
+      // Models often drop the leading space on blank context lines
+      hunk.lines.push({ kind: ' ', text: '' });
+      lastKind = ' ';
+    } else {
+      hunk = null;
+    }
+  }
+
+  // Trailing blank "context" produced by the final newline of the diff text
+  for (const patch of patches) {
+    for (const h of patch.hunks) {
+      while (h.lines.length > 0 && h.lines[h.lines.length - 1]?.kind === ' ' && h.lines[h.lines.length - 1]?.text === '') {
+        h.lines.pop();
+      }
+    }
+  }
+
+  if (patches.length === 0 || patches.every(patch => patch.hunks.length === 0)) {
+    throw new Error('No hunks found in diff');
+  }
+
+  return patches.filter(patch => patch.hunks.length > 0);
+}
+
+function headerPath(value: string): string | null {
+  const filePath = value.split('\t')[0]?.trim() ?? '';
+  if (filePath === '/dev/null') return null;
+  return filePath.replace(/^[ab]\//, '');
+}
+
+function countContext(lines: DiffLine[]): number {
+  let count = 0;
+  while (lines[count]?.kind === ' ') count++;
+  return count;
+}
+
+/**
+ * Find `needle` in `haystack`, searching outward from `start` (exact, then ignoring trailing whitespace)
+ */
+function findLines(haystack: string[], needle: string[], start: number, maxOffset: number): number | null {
+  const last = haystack.length - needle.length;
+  if (last < 0) return null;
+
+  const from = Math.min(Math.max(start, 0), last);
+  const compares = [
+    (a: string, b: string) => a === b,
+    (a: string, b: string) => a.trimEnd() === b.trimEnd(),
+  ];
+
+  for (const equal of compares) {
+    for (let distance = 0; distance <= Math.min(maxOffset, Math.max(from, last - from)); distance++) {
+      for (const position of distance === 0 ? [from] : [from - distance, from + distance]) {
+        if (position < 0 || position > last) continue;
+        if (needle.every((line, i) => equal(haystack[position + i] ?? '', line))) {
+          return position;
+        }
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,322 @@
+/**
+ * Tests for the Messages API transport and the structured classify() API
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  AnthropicMessagesClient,
+  ClaudeApiError,
+  createClaudeIntegration,
+  type ClaudeTransport,
+  type MessagesRequest,
+  type MessagesResponse,
+} from '../core/index';
+
+const request: MessagesRequest = {
+  model: 'claude-test',
+  maxTokens: 256,
+  temperature: 0,
+  system: 'Be brief',
+  messages: [{ role: 'user', content: 'Hello' }],
+};
+
+const message = {
+  id: 'msg_1',
+  type: 'message',
+  model: 'claude-test-20250101',
+  content: [
+    { type: 'text', text: 'Hello ' },
+    { type: 'tool_use', id: 'tool_1', name: 'lookup', input: {} },
+    { type: 'text', text: 'there' },
+  ],
+  stop_reason: 'end_turn',
+  usage: { input_tokens: 12, output_tokens: 3, cache_read_input_tokens: 8, cache_creation_input_tokens: null },
+};
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+function errorResponse(status: number, type: string, headers: Record<string, string> = {}): Response {
+  return jsonResponse(status, { type: 'error', error: { type, message: `${type} (${status})` } }, headers);
+}
+
+/**
+ * A fetch that replays the given responses in order and records every call
+ */
+function fakeFetch(...responses: Response[]): jest.Mock<Promise<Response>, Parameters<typeof fetch>> {
+  return jest.fn<Promise<Response>, Parameters<typeof fetch>>(() => {
+    const next = responses.shift();
+    return next ? Promise.resolve(next) : Promise.reject(new Error('Unexpected request'));
+  });
+}
+
+describe('AnthropicMessagesClient', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should send the wire format and map text and token usage', async () => {
+    const fetch = fakeFetch(jsonResponse(200, message));
+    const client = new AnthropicMessagesClient({ apiKey: 'sk-test', baseUrl: 'http://localhost:9/', fetch });
+
+    const response = await client.send(request);
+
+    const [url, init] = fetch.mock.calls[0] ?? [];
+    expect(url).toBe('http://localhost:9/v1/messages');
+    expect(init?.method).toBe('POST');
+    expect(init?.headers).toMatchObject({ 'x-api-key': 'sk-test', 'anthropic-version': '2023-06-01' });
+    expect(JSON.parse(String(init?.body))).toEqual({
+      model: 'claude-test',
+      max_tokens: 256,
+      temperature: 0,
+      system: 'Be brief',
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+
+    expect(response).toEqual<MessagesResponse>({
+      id: 'msg_1',
+      model: 'claude-test-20250101',
+      text: 'Hello there',
+      stopReason: 'end_turn',
+      usage: { inputTokens: 12, outputTokens: 3, cacheReadInputTokens: 8 },
+    });
+  });
+
+  test('should retry 429 after the retry-after-ms delay', async () => {
+    jest.useFakeTimers();
+    const fetch = fakeFetch(errorResponse(429, 'rate_limit_error', { 'retry-after-ms': '1500' }), jsonResponse(200, message));
+    const client = new AnthropicMessagesClient({ apiKey: 'sk-test', fetch });
+
+    const pending = client.send(request);
+    await jest.advanceTimersByTimeAsync(1499);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await expect(pending).resolves.toMatchObject({ text: 'Hello there' });
+  });
+
+  test('should honor retry-after in seconds on 529 overloads', async () => {
+    jest.useFakeTimers();
+    const fetch = fakeFetch(errorResponse(529, 'overloaded_error', { 'retry-after': '2' }), jsonResponse(200, message));
+    const client = new AnthropicMessagesClient({ apiKey: 'sk-test', fetch });
+
+    const pending = client.send(request);
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toMatchObject({ id: 'msg_1' });
+  });
+
+  test('should back off exponentially and give up after maxRetries', async () => {
+    jest.useFakeTimers();
+    const fetch = fakeFetch(
+      errorResponse(529, 'overloaded_error'),
+      errorResponse(529, 'overloaded_error'),
+      errorResponse(529, 'overloaded_error')
+    );
+    const client = new AnthropicMessagesClient({ apiKey: 'sk-test', maxRetries: 2, fetch });
+
+    const pending = client.send(request);
+    const outcome = pending.catch((error: unknown) => error);
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1); // 500ms after the first failure
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1); // then 1000ms
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    const error = await outcome;
+    expect(error).toBeInstanceOf(ClaudeApiError);
+    expect(error).toMatchObject({ status: 529, errorType: 'overloaded_error', retryable: true });
+  });
+
+  test('should not retry other errors', async () => {
+    const fetch = fakeFetch(errorResponse(400, 'invalid_request_error'));
+    const client = new AnthropicMessagesClient({ apiKey: 'sk-test', fetch });
+
+    await expect(client.send(request)).rejects.toMatchObject({
+      name: 'ClaudeApiError',
+      status: 400,
+      errorType: 'invalid_request_error',
+      message: 'invalid_request_error (400)',
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should report the HTTP status when the error body is not JSON', async () => {
+    const fetch = fakeFetch(new Response('<html>Bad gateway</html>', { status: 502 }));
+    const client = new AnthropicMessagesClient({ apiKey: 'sk-test', fetch });
+
+    await expect(client.send(request)).rejects.toMatchObject({
+      status: 502,
+      errorType: 'api_error',
+      message: 'Messages API returned HTTP 502',
+    });
+  });
+
+  describe('timeouts', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let stallBody = false;
+
+    beforeAll(async () => {
+      // Answers nothing, or only headers and half a body when stallBody is set
+      server = http.createServer((_req, res) => {
+        if (stallBody) {
+          res.writeHead(200, { 'content-type': 'application/json' });
+          res.write('{"id": "msg_');
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    test('should time out when no response arrives', async () => {
+      stallBody = false;
+      const client = new AnthropicMessagesClient({ apiKey: 'sk-test', baseUrl, timeoutMs: 100 });
+
+      await expect(client.send(request)).rejects.toMatchObject({
+        status: 408,
+        errorType: 'timeout_error',
+        message: 'Request timed out after 100ms',
+      });
+    });
+
+    test('should time out when the body stalls after the headers', async () => {
+      stallBody = true;
+      const client = new AnthropicMessagesClient({ apiKey: 'sk-test', baseUrl, timeoutMs: 100 });
+
+      await expect(client.send(request)).rejects.toMatchObject({ status: 408, errorType: 'timeout_error' });
+    });
+  });
+});
+
+describe('ClaudeIntegration.classify', () => {
+  const schema = {
+    type: 'object' as const,
+    required: ['area', 'urgent'],
+    properties: {
+      area: { type: 'string' as const, enum: ['ios', 'backend'] },
+      urgent: { type: 'boolean' as const },
+    },
+  };
+
+  /**
+   * A transport answering with the given texts in order, recording every request
+   */
+  function fakeTransport(...texts: string[]): ClaudeTransport & { requests: MessagesRequest[] } {
+    const requests: MessagesRequest[] = [];
+    return {
+      requests,
+      send: (sent: MessagesRequest): Promise<MessagesResponse> => {
+        requests.push(structuredClone(sent));
+        const text = texts.shift();
+        return text === undefined
+          ? Promise.reject(new ClaudeApiError('overloaded', 529, 'overloaded_error'))
+          : Promise.resolve({ id: 'msg', model: sent.model, text, stopReason: 'end_turn', usage: { inputTokens: 10, outputTokens: 4 } });
+      },
+    };
+  }
+
+  test('should return the validated object and put the schema in the system prompt', async () => {
+    const transport = fakeTransport('```json\n{"area": "ios", "urgent": true}\n```');
+    const claude = createClaudeIntegration({ model: 'claude-test', transport });
+
+    const result = await claude.classify<{ area: string; urgent: boolean }>({ prompt: 'Route this', schema, system: 'You triage issues.' });
+
+    expect(result).toEqual({
+      success: true,
+      data: { area: 'ios', urgent: true },
+      raw: '```json\n{"area": "ios", "urgent": true}\n```',
+      attempts: 1,
+      usage: { inputTokens: 10, outputTokens: 4 },
+    });
+    expect(transport.requests[0]?.system).toMatch(/^You triage issues\.\n\nRespond with a single JSON value/);
+    expect(transport.requests[0]?.system).toContain('"enum": [');
+  });
+
+  test('should send schema mismatches back and retry', async () => {
+    const transport = fakeTransport('{"area": "web"}', '{"area": "backend", "urgent": false}');
+    const claude = createClaudeIntegration({ model: 'claude-test', transport });
+
+    const result = await claude.classify({ prompt: 'Route this', schema });
+
+    expect(result).toMatchObject({ success: true, data: { area: 'backend', urgent: false }, attempts: 2 });
+    expect(result.usage).toEqual({ inputTokens: 20, outputTokens: 8 });
+
+    const retry = transport.requests[1]?.messages ?? [];
+    expect(retry).toHaveLength(3);
+    expect(retry[1]).toEqual({ role: 'assistant', content: '{"area": "web"}' });
+    expect(retry[2]?.content).toContain('That response was rejected');
+    expect(retry[2]?.content).toContain('urgent');
+  });
+
+  test('should give up after the configured retries', async () => {
+    const transport = fakeTransport('not json', 'still not json', 'never sent');
+    const claude = createClaudeIntegration({ model: 'claude-test', transport });
+
+    const result = await claude.classify({ prompt: 'Route this', schema, retries: 1 });
+
+    expect(result.success).toBe(false);
+    expect(result.attempts).toBe(2);
+    expect(result.raw).toBe('still not json');
+    expect(result.error).toMatch(/^Invalid structured output: /);
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  test('should reject answers the validate callback throws on', async () => {
+    const transport = fakeTransport('{"area": "ios", "urgent": true}', '{"area": "backend", "urgent": true}');
+    const claude = createClaudeIntegration({ model: 'claude-test', transport });
+
+    const result = await claude.classify({
+      prompt: 'Route this',
+      schema,
+      validate: value => {
+        if ((value as { area: string }).area === 'ios') throw new Error('iOS is paused');
+        return value;
+      },
+    });
+
+    expect(result).toMatchObject({ success: true, data: { area: 'backend' }, attempts: 2 });
+    expect(transport.requests[1]?.messages[2]?.content).toContain('iOS is paused');
+  });
+
+  test('should report transport errors with the attempt they happened on', async () => {
+    const transport = fakeTransport('{"area": "web"}');
+    const claude = createClaudeIntegration({ model: 'claude-test', transport });
+
+    const result = await claude.classify({ prompt: 'Route this', schema });
+
+    expect(result).toMatchObject({ success: false, attempts: 2, raw: '{"area": "web"}', error: 'overloaded' });
+    expect(result.usage).toEqual({ inputTokens: 10, outputTokens: 4 });
+  });
+
+  test('should fail without an API key or transport', async () => {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    try {
+      const claude = createClaudeIntegration({ model: 'claude-test' });
+      const result = await claude.classify({ prompt: 'Route this', schema });
+
+      expect(result).toMatchObject({ success: false, attempts: 0 });
+      expect(result.error).toMatch(/API key not configured/);
+    } finally {
+      if (apiKey !== undefined) process.env.ANTHROPIC_API_KEY = apiKey;
+    }
+  });
+});
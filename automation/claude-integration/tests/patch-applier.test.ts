@@ -0,0 +1,263 @@
+/**
+ * Tests for the unified-diff patch applier
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import fsPromises from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PatchApplier, parseUnifiedDiff, type ClaudeResponse, type FixSuggestion } from '../core/index';
+
+const SOURCE = ['import a', 'import b', '', 'function main() {', '  run();', '}', ''].join('\n');
+
+const MAIN_PATCH = [
+  '--- a/src/main.ts',
+  '+++ b/src/main.ts',
+  '@@ -4,3 +4,4 @@',
+  ' function main() {',
+  '-  run();',
+  '+  setup();',
+  '+  run(true);',
+  ' }',
+].join('\n');
+
+describe('PatchApplier', () => {
+  let rootDir: string;
+
+  /**
+   * Write the given files (path -> content) under rootDir
+   */
+  const fixture = (files: Record<string, string>): void => {
+    for (const [filePath, content] of Object.entries(files)) {
+      mkdirSync(path.dirname(path.join(rootDir, filePath)), { recursive: true });
+      writeFileSync(path.join(rootDir, filePath), content);
+    }
+  };
+
+  const read = (filePath: string): string => readFileSync(path.join(rootDir, filePath), 'utf8');
+
+  const response = (...patches: Array<string | Partial<FixSuggestion>>): ClaudeResponse => ({
+    success: true,
+    analysis: '',
+    suggestions: patches.map(patch => ({
+      type: 'patch',
+      explanation: '',
+      confidence: 0.9,
+      ...(typeof patch === 'string' ? { content: patch } : { content: '', ...patch }),
+    })),
+  });
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(path.join(tmpdir(), 'patch-applier-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  test('should apply a hunk at its stated position', async () => {
+    fixture({ 'src/main.ts': SOURCE });
+
+    const report = await new PatchApplier({ rootDir }).apply(response(MAIN_PATCH));
+
+    expect(report).toMatchObject({ success: true, dryRun: false, applied: true, rolledBack: false, skipped: 0 });
+    expect(report.files).toEqual([{
+      filePath: 'src/main.ts',
+      suggestionIndex: 0,
+      action: 'modify',
+      success: true,
+      hunks: [{ index: 0, header: '@@ -4,3 +4,4 @@', applied: true, offset: 0, fuzz: 0 }],
+    }]);
+    expect(read('src/main.ts')).toBe(['import a', 'import b', '', 'function main() {', '  setup();', '  run(true);', '}', ''].join('\n'));
+  });
+
+  test('should find a hunk that drifted and report the offset', async () => {
+    fixture({ 'src/main.ts': `// header\n// license\n// notice\n${SOURCE}` });
+
+    const report = await new PatchApplier({ rootDir }).apply(response(MAIN_PATCH));
+
+    expect(report.files[0]?.hunks[0]).toMatchObject({ applied: true, offset: 3, fuzz: 0 });
+    expect(read('src/main.ts')).toContain('// notice\nimport a\nimport b\n\nfunction main() {\n  setup();\n  run(true);\n}\n');
+  });
+
+  test('should not search further than maxOffset', async () => {
+    fixture({ 'src/main.ts': `// header\n// license\n// notice\n${SOURCE}` });
+
+    const report = await new PatchApplier({ rootDir, maxOffset: 2 }).dryRun(response(MAIN_PATCH));
+
+    expect(report.success).toBe(false);
+    expect(report.files[0]?.hunks[0]).toMatchObject({ applied: false, error: 'Context not found' });
+  });
+
+  test('should ignore stale context lines up to the fuzz factor', async () => {
+    fixture({ 'src/main.ts': SOURCE.replace('function main() {', 'export function main() {') });
+
+    const strict = await new PatchApplier({ rootDir, fuzz: 0 }).dryRun(response(MAIN_PATCH));
+    expect(strict.files[0]?.hunks[0]?.applied).toBe(false);
+
+    const fuzzy = await new PatchApplier({ rootDir, fuzz: 1 }).apply(response(MAIN_PATCH));
+    expect(fuzzy.files[0]?.hunks[0]).toMatchObject({ applied: true, offset: 0, fuzz: 1 });
+    expect(read('src/main.ts')).toContain('export function main() {\n  setup();\n  run(true);\n}');
+  });
+
+  test('should tolerate trailing whitespace and missing line numbers', async () => {
+    fixture({ 'src/main.ts': SOURCE.replace('  run();', '  run();   ') });
+    const patch = MAIN_PATCH.replace('@@ -4,3 +4,4 @@', '@@ ... @@');
+
+    const report = await new PatchApplier({ rootDir }).apply(response(patch));
+
+    expect(report.success).toBe(true);
+    expect(read('src/main.ts')).toContain('  setup();\n  run(true);\n');
+  });
+
+  test('should apply consecutive hunks to the shifted file', async () => {
+    fixture({ 'list.txt': ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n') + '\n' });
+    const patch = [
+      '--- a/list.txt',
+      '+++ b/list.txt',
+      '@@ -1,2 +1,4 @@',
+      ' a',
+      '+a1',
+      '+a2',
+      ' b',
+      '@@ -7,2 +9,1 @@',
+      ' g',
+      '-h',
+    ].join('\n');
+
+    const report = await new PatchApplier({ rootDir }).apply(response(patch));
+
+    expect(report.files[0]?.hunks.map(hunk => [hunk.applied, hunk.offset])).toEqual([[true, 0], [true, 0]]);
+    expect(read('list.txt')).toBe('a\na1\na2\nb\nc\nd\ne\nf\ng\n');
+  });
+
+  test('should create and delete files through /dev/null', async () => {
+    fixture({ 'old.txt': 'obsolete\n' });
+    const patch = [
+      '--- /dev/null',
+      '+++ b/docs/new.md',
+      '@@ -0,0 +1,2 @@',
+      '+# New',
+      '+Hello',
+      '--- a/old.txt',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-obsolete',
+    ].join('\n');
+
+    const report = await new PatchApplier({ rootDir }).apply(response(patch));
+
+    expect(report.files.map(file => [file.filePath, file.action, file.success])).toEqual([
+      ['docs/new.md', 'create', true],
+      ['old.txt', 'delete', true],
+    ]);
+    expect(read('docs/new.md')).toBe('# New\nHello\n');
+    expect(existsSync(path.join(rootDir, 'old.txt'))).toBe(false);
+  });
+
+  test('should refuse to create a file that already has content', async () => {
+    fixture({ 'docs/new.md': 'existing\n' });
+    const patch = '--- /dev/null\n+++ b/docs/new.md\n@@ -0,0 +1 @@\n+# New';
+
+    const report = await new PatchApplier({ rootDir }).apply(response(patch));
+
+    expect(report.files[0]).toMatchObject({ success: false, error: 'File already exists' });
+    expect(read('docs/new.md')).toBe('existing\n');
+  });
+
+  test('should keep CRLF line endings and honor "No newline at end of file"', async () => {
+    fixture({ 'win.txt': 'one\r\ntwo\r\nthree' });
+    const patch = [
+      '--- a/win.txt',
+      '+++ b/win.txt',
+      '@@ -2,2 +2,2 @@',
+      ' two',
+      '-three',
+      '\\ No newline at end of file',
+      '+3',
+    ].join('\n');
+
+    const report = await new PatchApplier({ rootDir }).apply(response(patch));
+
+    expect(report.success).toBe(true);
+    expect(read('win.txt')).toBe('one\r\ntwo\r\n3\r\n');
+  });
+
+  test('should skip non-patch and low-confidence suggestions', async () => {
+    fixture({ 'src/main.ts': SOURCE });
+
+    const report = await new PatchApplier({ rootDir, minConfidence: 0.7 }).dryRun(response(
+      { type: 'command', content: 'npm test' },
+      { content: MAIN_PATCH, confidence: 0.5 },
+      MAIN_PATCH
+    ));
+
+    expect(report).toMatchObject({ success: true, dryRun: true, applied: false, skipped: 2 });
+    expect(report.files.map(file => file.suggestionIndex)).toEqual([2]);
+  });
+
+  test('should write nothing on a dry run', async () => {
+    fixture({ 'src/main.ts': SOURCE });
+
+    const report = await new PatchApplier({ rootDir }).dryRun(response(MAIN_PATCH));
+
+    expect(report).toMatchObject({ success: true, dryRun: true, applied: false });
+    expect(read('src/main.ts')).toBe(SOURCE);
+  });
+
+  test('should write nothing when any hunk fails', async () => {
+    fixture({ 'src/main.ts': SOURCE, 'src/other.ts': 'const x = 1;\n' });
+    const failing = '--- a/src/other.ts\n+++ b/src/other.ts\n@@ -1 +1 @@\n-const y = 1;\n+const y = 2;';
+
+    const report = await new PatchApplier({ rootDir }).apply(response(MAIN_PATCH, failing));
+
+    expect(report).toMatchObject({ success: false, applied: false, rolledBack: false, error: 'One or more hunks failed to apply' });
+    expect(report.files.map(file => [file.filePath, file.success, file.error])).toEqual([
+      ['src/main.ts', true, undefined],
+      ['src/other.ts', false, '1 of 1 hunk(s) failed'],
+    ]);
+    expect(read('src/main.ts')).toBe(SOURCE);
+    expect(read('src/other.ts')).toBe('const x = 1;\n');
+  });
+
+  test('should restore every file written before a failing write', async () => {
+    fixture({ 'src/main.ts': SOURCE, 'src/other.ts': 'const x = 1;\n' });
+    const create = '--- /dev/null\n+++ b/src/created.ts\n@@ -0,0 +1 @@\n+export {};';
+    const modify = '--- a/src/other.ts\n+++ b/src/other.ts\n@@ -1 +1 @@\n-const x = 1;\n+const x = 2;';
+
+    // The write of the last file fails; restoring it afterwards works again
+    const rename = fsPromises.rename.bind(fsPromises);
+    let failed = false;
+    jest.spyOn(fsPromises, 'rename').mockImplementation(async (from, to) => {
+      if (!failed && String(to).endsWith('other.ts')) {
+        failed = true;
+        throw new Error('EIO: i/o error, rename');
+      }
+      return rename(from, to);
+    });
+
+    const report = await new PatchApplier({ rootDir }).apply(response(MAIN_PATCH, create, modify));
+
+    expect(report).toMatchObject({ success: false, applied: false, rolledBack: true, error: 'EIO: i/o error, rename' });
+    expect(read('src/main.ts')).toBe(SOURCE);
+    expect(read('src/other.ts')).toBe('const x = 1;\n');
+    expect(readdirSync(path.join(rootDir, 'src')).sort()).toEqual(['main.ts', 'other.ts']);
+  });
+
+  test('should reject paths outside the root directory', async () => {
+    const patch = '--- /dev/null\n+++ b/../escape.txt\n@@ -0,0 +1 @@\n+nope';
+
+    const report = await new PatchApplier({ rootDir }).apply(response(patch));
+
+    expect(report.files[0]).toMatchObject({ success: false, error: 'Path escapes working tree: ../escape.txt' });
+    expect(existsSync(path.join(rootDir, '..', 'escape.txt'))).toBe(false);
+  });
+
+  test('should report suggestions without any hunks', async () => {
+    const report = await new PatchApplier({ rootDir }).dryRun(response({ content: 'just prose', filePath: 'src/main.ts' }));
+
+    expect(report.files[0]).toMatchObject({ filePath: 'src/main.ts', success: false, error: 'No hunks found in diff' });
+    expect(() => parseUnifiedDiff('--- a/x\n+++ b/x\n')).toThrow('No hunks found in diff');
+  });
+});
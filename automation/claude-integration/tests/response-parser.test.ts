@@ -0,0 +1,241 @@
+/**
+ * Tests for fix-response parsing and structured (JSON) output extraction
+ */
+
+import {
+  classifyBlock,
+  extractFencedBlocks,
+  extractJson,
+  parseConfidence,
+  parseFixResponse,
+  splitSections,
+  validateJsonSchema,
+  type JsonSchema,
+} from '../core/index';
+
+const fence = '```';
+
+describe('parseFixResponse', () => {
+  test('should split a sectioned answer into analysis, explanation and suggestions', () => {
+    const text = [
+      '## Analysis',
+      '`ContentView` is not imported.',
+      '',
+      '## Fix',
+      `${fence}swift:Sources/App.swift`,
+      'import SwiftUI',
+      fence,
+      '',
+      '## Explanation',
+      'The view lives in the UI module.',
+      'Confidence: 85%',
+    ].join('\n');
+
+    const result = parseFixResponse(text);
+
+    expect(result).toEqual({
+      success: true,
+      analysis: '`ContentView` is not imported.',
+      explanation: 'The view lives in the UI module.',
+      suggestions: [{
+        type: 'code',
+        content: 'import SwiftUI',
+        explanation: 'The view lives in the UI module.',
+        confidence: 0.85,
+        filePath: 'Sources/App.swift',
+      }],
+      rawResponse: text,
+    });
+  });
+
+  test('should prefer the confidence stated in the block\'s own section', () => {
+    const text = [
+      '## Option 1',
+      'Confidence: high',
+      `${fence}bash`,
+      'pod install',
+      fence,
+      '## Option 2',
+      'confidence 0.3',
+      `${fence}bash`,
+      'rm -rf DerivedData',
+      fence,
+    ].join('\n');
+
+    const result = parseFixResponse(text);
+
+    expect(result.suggestions.map(s => [s.type, s.confidence, s.explanation])).toEqual([
+      ['command', 0.85, 'Confidence: high'],
+      ['command', 0.3, 'confidence 0.3'],
+    ]);
+  });
+
+  test('should split multi-file diffs into one patch per file', () => {
+    const text = [
+      '## Fix',
+      `${fence}diff`,
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1 +1 @@',
+      '-old',
+      '+new',
+      'diff --git a/src/b.ts b/src/b.ts',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/src/b.ts',
+      '@@ -0,0 +1 @@',
+      '+created',
+      fence,
+    ].join('\n');
+
+    const result = parseFixResponse(text);
+
+    expect(result.suggestions.map(s => [s.type, s.filePath])).toEqual([
+      ['patch', 'src/a.ts'],
+      ['patch', 'src/b.ts'],
+    ]);
+    expect(result.suggestions[1]?.content).toMatch(/^diff --git a\/src\/b\.ts b\/src\/b\.ts\nnew file mode/);
+  });
+
+  test('should fall back to the whole text as analysis when there are no headings', () => {
+    const text = `Run this:\n${fence}\nnpm install\n${fence}\nThen rebuild.`;
+
+    const result = parseFixResponse(text);
+
+    expect(result.success).toBe(true);
+    expect(result.analysis).toBe('Run this:\n\nThen rebuild.');
+    expect(result.suggestions).toEqual([
+      { type: 'command', content: 'npm install', explanation: 'Run this:\n\nThen rebuild.', confidence: 0.5 },
+    ]);
+  });
+
+  test('should drop a code block cut off before its closing fence', () => {
+    const text = `## Analysis\nMissing import.\n\n## Fix\n${fence}swift\nimport Swift`;
+
+    const result = parseFixResponse(text);
+
+    expect(result.success).toBe(true);
+    expect(result.analysis).toBe('Missing import.');
+    expect(result.suggestions).toEqual([]);
+  });
+
+  test('should fail and keep the raw text when nothing can be parsed', () => {
+    const result = parseFixResponse('I am not sure what is wrong here.');
+
+    expect(result).toEqual({
+      success: false,
+      suggestions: [],
+      analysis: '',
+      error: 'Could not parse response: no sections or code blocks found',
+      rawResponse: 'I am not sure what is wrong here.',
+    });
+  });
+});
+
+describe('response parsing helpers', () => {
+  test('should ignore headings inside code blocks', () => {
+    const text = `## Fix\n${fence}markdown\n## Not a heading\n${fence}\n## Explanation\nDone`;
+
+    expect(splitSections(text).map(section => section.heading)).toEqual(['Fix', 'Explanation']);
+    expect(extractFencedBlocks(text)).toEqual([
+      { language: 'markdown', info: 'markdown', content: '## Not a heading', section: 'Fix' },
+    ]);
+  });
+
+  test.each([
+    ['diff', 'anything', 'patch'],
+    ['', '--- a/x\n+++ b/x\n@@ -1 +1 @@', 'patch'],
+    ['zsh', 'ls', 'command'],
+    ['', '$ swift build\n# then run the tests\nswift test', 'command'],
+    ['yaml', 'key: value', 'config'],
+    ['', '{"compilerOptions": {}}', 'config'],
+    ['', '{ not json', 'code'],
+    ['kotlin', 'fun main() {}', 'code'],
+  ])('should classify a %s block "%s" as %s', (language, content, type) => {
+    expect(classifyBlock({ language, content })).toBe(type);
+  });
+
+  test.each([
+    ['Confidence: 85%', 0.85],
+    ['confidence 0.7', 0.7],
+    ['Confidence: 8/10', 0.8],
+    ['Confidence level: 70', 0.7],
+    ['**Confidence**: very low', 0.15],
+    ['Confidence: 250%', undefined],
+    ['No idea how sure I am', undefined],
+  ])('should read "%s" as confidence %s', (text, confidence) => {
+    expect(parseConfidence(text)).toBe(confidence);
+  });
+});
+
+describe('extractJson', () => {
+  test.each([
+    ['a ```json fence', `Here it is:\n${fence}json\n{"area": "ios"}\n${fence}\nThanks`, { area: 'ios' }],
+    ['a plain fence', `${fence}\n["ios", "web"]\n${fence}`, ['ios', 'web']],
+    ['bare JSON', ' {"area": "ios"} ', { area: 'ios' }],
+    ['an object inside prose', 'Sure! {"area": "backend", "urgent": false} Let me know.', { area: 'backend', urgent: false }],
+    ['an array inside prose', 'Labels: [1, 2, 3].', [1, 2, 3]],
+  ])('should read %s', (_name, text, expected) => {
+    expect(extractJson(text)).toEqual(expected);
+  });
+
+  test('should prefer the fenced value over JSON in the surrounding prose', () => {
+    expect(extractJson(`Options were ["ios", "web"].\n${fence}json\n{"area": "ios"}\n${fence}`)).toEqual({ area: 'ios' });
+  });
+
+  test.each([
+    ['truncated JSON', '{"area": "ios", "urg'],
+    ['a truncated fence', `${fence}json\n{"area": "io`],
+    ['plain text', 'The issue belongs to the iOS team.'],
+  ])('should reject %s', (_name, text) => {
+    expect(() => extractJson(text)).toThrow('No valid JSON found in response');
+  });
+});
+
+describe('validateJsonSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['area', 'urgent', 'labels'],
+    additionalProperties: false,
+    properties: {
+      area: { type: 'string', enum: ['ios', 'backend'] },
+      urgent: { type: 'boolean' },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      retries: { type: 'integer' },
+      labels: { type: 'array', maxItems: 2, items: { type: 'string', minLength: 1 } },
+      owner: { type: ['string', 'null'] },
+    },
+  };
+
+  test('should accept a conforming value', () => {
+    expect(validateJsonSchema({ area: 'ios', urgent: true, labels: ['bug'], owner: null, retries: 2 }, schema)).toEqual([]);
+  });
+
+  test('should report every mismatch with its path', () => {
+    const errors = validateJsonSchema({
+      area: 'web',
+      urgent: 'yes',
+      confidence: 1.5,
+      retries: 1.5,
+      labels: ['bug', '', 'ui'],
+      extra: 1,
+    }, schema);
+
+    expect(errors).toEqual([
+      '$.area: must be one of "ios", "backend"',
+      '$.urgent: expected boolean, got string',
+      '$.confidence: must be <= 1',
+      '$.retries: expected integer, got number',
+      '$.labels: must contain at most 2 items',
+      '$.labels[1]: must be at least 1 characters',
+      '$.extra: is not allowed',
+    ]);
+  });
+
+  test('should report missing required properties and wrong root types', () => {
+    expect(validateJsonSchema({ area: 'ios' }, schema)).toEqual(['$.urgent: is required', '$.labels: is required']);
+    expect(validateJsonSchema([], schema)).toEqual(['$: expected object, got array']);
+    expect(validateJsonSchema(null, schema)).toEqual(['$: expected object, got null']);
+  });
+});
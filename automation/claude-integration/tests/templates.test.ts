@@ -0,0 +1,191 @@
+/**
+ * Tests for the Mustache renderer and the prompt template registry
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  PromptTemplateRegistry,
+  createClaudeIntegration,
+  createDefaultTemplateRegistry,
+  renderMustache,
+  type ClaudeTransport,
+  type ErrorContext,
+  type MessagesRequest,
+} from '../core/index';
+
+describe('renderMustache', () => {
+  test('should escape {{name}} and leave {{{name}}} and {{&name}} raw', () => {
+    const view = { html: `<a href="/x">Tom & 'Jerry'</a>` };
+
+    expect(renderMustache('{{html}}', view)).toBe('&lt;a href&#x3D;&quot;&#x2F;x&quot;&gt;Tom &amp; &#39;Jerry&#39;&lt;&#x2F;a&gt;');
+    expect(renderMustache('{{{html}}}|{{& html}}', view)).toBe(`${view.html}|${view.html}`);
+  });
+
+  test('should render missing and null variables as empty strings', () => {
+    expect(renderMustache('[{{missing}}][{{{missing}}}][{{nothing}}][{{a.b.c}}]', { nothing: null, a: { b: 1 } })).toBe('[][][][]');
+    expect(renderMustache('{{zero}} {{no}}', { zero: 0, no: false })).toBe('0 false');
+  });
+
+  test('should resolve dotted names', () => {
+    expect(renderMustache('{{project.name}} ({{project.owner.login}})', {
+      project: { name: 'App', owner: { login: 'delax' } },
+    })).toBe('App (delax)');
+  });
+
+  test('should iterate arrays and push objects onto the context', () => {
+    const template = '{{#items}}{{name}}@{{repo}} {{/items}}|{{#owner}}{{login}}{{/owner}}|{{#tags}}<{{.}}>{{/tags}}';
+
+    expect(renderMustache(template, {
+      repo: 'app',
+      items: [{ name: 'a' }, { name: 'b', repo: 'web' }],
+      owner: { login: 'delax' },
+      tags: ['x', 'y'],
+    })).toBe('a@app b@web |delax|<x><y>');
+  });
+
+  test('should skip sections for falsy values and empty lists', () => {
+    const template = '{{#flag}}on{{/flag}}{{#list}}item{{/list}}{{#count}}{{count}}{{/count}}';
+
+    expect(renderMustache(template, { flag: true, list: [1], count: 3 })).toBe('onitem3');
+    expect(renderMustache(template, { flag: false, list: [], count: 0 })).toBe('');
+    expect(renderMustache(template, {})).toBe('');
+  });
+
+  test('should render inverted sections only for missing, falsy or empty values', () => {
+    const template = '{{^list}}none{{/list}}';
+
+    expect(renderMustache(template, {})).toBe('none');
+    expect(renderMustache(template, { list: [] })).toBe('none');
+    expect(renderMustache(template, { list: false })).toBe('none');
+    expect(renderMustache(template, { list: ['a'] })).toBe('');
+  });
+
+  test('should drop comments and lines holding only a standalone tag', () => {
+    const template = 'Begin\n{{! explain }}\n{{#items}}\n- {{.}}\n{{/items}}\n  {{^items}}\nnone\n  {{/items}}\nEnd';
+
+    expect(renderMustache(template, { items: ['a', 'b'] })).toBe('Begin\n- a\n- b\nEnd');
+    expect(renderMustache(template, { items: [] })).toBe('Begin\nnone\nEnd');
+  });
+
+  test('should render partials with the current context and indentation', () => {
+    const partials: Record<string, string> = { item: '* {{name}}\n  see {{url}}\n' };
+    const template = 'List:\n{{#items}}\n  {{> item}}\n{{/items}}\n[{{> missing}}]';
+
+    expect(renderMustache(template, { items: [{ name: 'a', url: 'x' }] }, name => partials[name]))
+      .toBe('List:\n  * a\n    see x\n[]');
+  });
+
+  test('should stop partials that include themselves', () => {
+    expect(() => renderMustache('{{> loop}}', {}, () => '{{> loop}}')).toThrow('Partial recursion too deep at "loop"');
+  });
+
+  test('should reject unbalanced sections', () => {
+    expect(() => renderMustache('{{#a}}{{#b}}{{/a}}', {})).toThrow('Unexpected closing tag "a" (expected "b")');
+    expect(() => renderMustache('{{/a}}', {})).toThrow('Unexpected closing tag "a"');
+    expect(() => renderMustache('{{#a}}open', {})).toThrow('Unclosed section "a"');
+  });
+});
+
+describe('PromptTemplateRegistry', () => {
+  const context: ErrorContext = {
+    language: 'swift',
+    framework: 'SwiftUI',
+    errorType: 'SWIFT_ERROR',
+    errorMessage: "Cannot find 'ContentView' in scope",
+    filePath: 'App.swift',
+    lineNumber: 15,
+  };
+
+  test('should prefer language+framework, then language, then generic', () => {
+    const registry = new PromptTemplateRegistry()
+      .register('generic', 'generic')
+      .register('swift', 'swift')
+      .register('Swift', 'swiftui', 'Swift UI');
+
+    expect(registry.resolve('swift', 'SwiftUI')).toBe('swiftui');
+    expect(registry.resolve('SWIFT', 'UIKit')).toBe('swift');
+    expect(registry.resolve('swift')).toBe('swift');
+    expect(registry.resolve('kotlin', 'Compose')).toBe('generic');
+    expect(registry.has('swift', 'swiftui')).toBe(true);
+    expect(registry.keys()).toEqual(['generic', 'swift', 'swift.swiftui']);
+  });
+
+  test('should fail without a generic fallback', () => {
+    expect(() => new PromptTemplateRegistry().resolve('kotlin')).toThrow('No prompt template for "kotlin" and no generic fallback registered');
+  });
+
+  test('should render the built-in templates without escaping the error text', () => {
+    const registry = createDefaultTemplateRegistry();
+
+    expect(registry.keys()).toEqual(['dart', 'generic', 'javascript', 'python', 'swift', 'typescript']);
+
+    const prompt = registry.render(context);
+    expect(prompt).toContain("Error Message: Cannot find 'ContentView' in scope");
+    expect(prompt).toContain('File: App.swift (Line 15)');
+
+    const withoutLine: ErrorContext = { ...context };
+    delete withoutLine.lineNumber;
+    expect(registry.render(withoutLine)).toContain('File: App.swift\n');
+    expect(registry.render({ ...context, language: 'kotlin' })).toContain("Cannot find 'ContentView' in scope");
+  });
+
+  test('should let registered templates and partials override the built-ins', () => {
+    const registry = createDefaultTemplateRegistry()
+      .register('swift', '{{> header}}{{errorType}} in {{project.name}}', 'SwiftUI')
+      .registerPartial('header', '[{{language}}] ');
+
+    expect(registry.render({ ...context, projectContext: { name: 'MyApp' } })).toBe('[swift] SWIFT_ERROR in MyApp');
+    expect(registry.render({ ...context, framework: 'UIKit' })).toContain('expert iOS developer');
+  });
+
+  describe('loadDirectory', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), 'prompt-templates-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should load templates, framework variants and partials by file name', async () => {
+      writeFileSync(path.join(dir, 'swift.mustache'), 'swift {{> footer}}');
+      writeFileSync(path.join(dir, 'swift.uikit.mustache'), 'uikit {{> footer}}');
+      writeFileSync(path.join(dir, '_footer.mustache'), '({{errorType}})');
+      writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+      mkdirSync(path.join(dir, 'nested'));
+
+      const registry = createDefaultTemplateRegistry();
+      expect(await registry.loadDirectory(dir)).toBe(3);
+
+      expect(registry.render(context)).toBe('swift (SWIFT_ERROR)');
+      expect(registry.render({ ...context, framework: 'UIKit' })).toBe('uikit (SWIFT_ERROR)');
+      expect(registry.render({ ...context, language: 'python' })).toContain('Python');
+    });
+
+    test('should ignore a missing directory', async () => {
+      expect(await new PromptTemplateRegistry().loadDirectory(path.join(dir, 'missing'))).toBe(0);
+    });
+
+    test('should build generateFix prompts from templateDir overrides', async () => {
+      writeFileSync(path.join(dir, 'swift.mustache'), 'Fix {{{errorMessage}}}');
+      const requests: MessagesRequest[] = [];
+      const transport: ClaudeTransport = {
+        send: request => {
+          requests.push(request);
+          return Promise.resolve({ id: 'msg', model: 'test', text: '## Analysis\nok', stopReason: 'end_turn', usage: { inputTokens: 1, outputTokens: 1 } });
+        },
+      };
+
+      const claude = createClaudeIntegration({ model: 'test', transport, templateDir: dir });
+      await claude.generateFix(context);
+      await claude.generateFix({ ...context, language: 'dart' });
+
+      expect(requests[0]?.messages[0]?.content).toBe("Fix Cannot find 'ContentView' in scope");
+      expect(requests[1]?.messages[0]?.content).toContain('Flutter');
+    });
+  });
+});
@@ -3,25 +3,44 @@
  * Prevents excessive Claude API usage and manages cost control
  */
 
-import fs from 'fs/promises';
 import path from 'path';
+import type { RoutingConfig } from './types';
+import {
+  FileStorage,
+  STORAGE_NAMESPACES,
+  createStorage,
+  migrateLegacyJson,
+  type StorageBackend,
+  type StorageConfig,
+} from './storage';
+
+export interface UsageLimits {
+  dailyCallLimit: number;
+  monthlyCallLimit: number;
+  dailyTokenLimit: number;
+  monthlyTokenLimit: number;
+  dailyCostLimit: number; // USD
+  monthlyCostLimit: number; // USD
+}
+
+export type UsageLimitOverrides = { [K in keyof UsageLimits]?: number | undefined };
+
+export interface ModelPricing {
+  inputTokenCost: number; // per 1K tokens
+  outputTokenCost: number; // per 1K tokens
+  cachedInputTokenCost?: number | undefined; // per 1K cache-read tokens, defaults to inputTokenCost
+  cacheWriteTokenCost?: number | undefined; // per 1K cache-write tokens, defaults to inputTokenCost
+}
 
 export interface ApiUsageConfig {
-  limits: {
-    dailyCallLimit: number;
-    monthlyCallLimit: number;
-    dailyTokenLimit: number;
-    monthlyTokenLimit: number;
-    dailyCostLimit: number; // USD
-    monthlyCostLimit: number; // USD
-  };
-  pricing: {
-    inputTokenCost: number; // per 1K tokens
-    outputTokenCost: number; // per 1K tokens
-    model: string;
+  limits: UsageLimits;
+  modelLimits?: Record<string, UsageLimitOverrides> | undefined; // extra caps per model, on top of the global limits
+  pricing: ModelPricing & {
+    model: string; // model charged when a call does not name one
+    models?: Record<string, ModelPricing> | undefined; // keyed by model id or id prefix; others use the flat costs
   };
   monitoring: {
-    usageFilePath: string;
+    usageFilePath: string; // legacy JSON, imported into storage on first use
     warningThresholds: {
       daily: number; // 0.8 = 80%
       monthly: number; // 0.8 = 80%
@@ -31,62 +50,112 @@ export interface ApiUsageConfig {
       monthly: number; // 0.9 = 90%
     };
   };
+  storage?: StorageConfig; // defaults to the file backend next to usageFilePath
+}
+
+export interface UsageCounters {
+  calls: number;
+  inputTokens: number; // all input, cached included
+  outputTokens: number;
+  estimatedCost: number;
+}
+
+export interface ModelUsage extends UsageCounters {
+  cachedInputTokens: number; // part of inputTokens read from the prompt cache
+  cacheWriteTokens: number; // part of inputTokens written to the prompt cache
 }
 
 export interface ApiUsageData {
   version: string;
   lastUpdated: string;
   currentPeriod: {
-    daily: {
+    daily: UsageCounters & UsageBreakdown & {
       date: string; // YYYY-MM-DD
-      calls: number;
-      inputTokens: number;
-      outputTokens: number;
-      estimatedCost: number;
     };
-    monthly: {
+    monthly: UsageCounters & UsageBreakdown & {
       month: string; // YYYY-MM
-      calls: number;
-      inputTokens: number;
-      outputTokens: number;
-      estimatedCost: number;
     };
   };
-  history: Array<{
+  // Archived periods; daily entries drop `issues` to keep the store small
+  history: Array<UsageCounters & UsageBreakdown & {
     date: string;
-    calls: number;
-    inputTokens: number;
-    outputTokens: number;
-    estimatedCost: number;
     type: 'daily' | 'monthly';
   }>;
 }
 
+export interface UsageBreakdown {
+  models?: Record<string, ModelUsage>;
+  repos?: Record<string, UsageCounters>; // target repo the call classified for
+  issues?: Record<string, UsageCounters>; // "owner/repo#number" of the issue being routed
+}
+
+export interface RecordUsageOptions {
+  model?: string | undefined; // defaults to pricing.model
+  calls?: number | undefined; // > 1 when the request was retried
+  cachedInputTokens?: number | undefined; // cache reads, in addition to inputTokens
+  cacheWriteTokens?: number | undefined; // cache writes, in addition to inputTokens
+  repo?: string | undefined; // attribute the spend to a repository
+  issue?: string | undefined; // attribute the spend to an issue ("owner/repo#number")
+}
+
+export interface UsageMetric {
+  current: number;
+  limit: number;
+  percentage: number; // including the call being checked
+}
+
+export interface PeriodUsage {
+  calls: UsageMetric;
+  tokens: UsageMetric;
+  cost: UsageMetric;
+}
+
 export interface UsageCheckResult {
   allowed: boolean;
   reason?: string;
+  model: string;
   currentUsage: {
-    daily: {
-      calls: { current: number; limit: number; percentage: number };
-      tokens: { current: number; limit: number; percentage: number };
-      cost: { current: number; limit: number; percentage: number };
-    };
-    monthly: {
-      calls: { current: number; limit: number; percentage: number };
-      tokens: { current: number; limit: number; percentage: number };
-      cost: { current: number; limit: number; percentage: number };
-    };
+    daily: PeriodUsage;
+    monthly: PeriodUsage;
+  };
+  // The checked model against its own limits; only metrics with a per-model limit appear
+  modelUsage: {
+    daily: Partial<PeriodUsage>;
+    monthly: Partial<PeriodUsage>;
+  };
+  costByModel: {
+    daily: Record<string, number>; // USD
+    monthly: Record<string, number>; // USD
   };
   warnings: string[];
   recommendations: string[];
 }
 
+type Period = 'daily' | 'monthly';
+type Metric = keyof PeriodUsage;
+
+const LIMIT_KEYS: Record<Period, Record<Metric, keyof UsageLimits>> = {
+  daily: { calls: 'dailyCallLimit', tokens: 'dailyTokenLimit', cost: 'dailyCostLimit' },
+  monthly: { calls: 'monthlyCallLimit', tokens: 'monthlyTokenLimit', cost: 'monthlyCostLimit' },
+};
+
+interface LimitCheck {
+  model?: string; // set for per-model limits
+  period: Period;
+  metric: Metric;
+  usage: UsageMetric;
+}
+
 export class ApiUsageMonitor {
   private config: ApiUsageConfig;
   private usageData: ApiUsageData | null = null;
+  private storage: StorageBackend;
 
   constructor(config: ApiUsageConfig) {
     this.config = config;
+    this.storage = config.storage
+      ? createStorage(config.storage)
+      : new FileStorage(path.dirname(config.monitoring.usageFilePath));
   }
 
   /**
@@ -98,89 +167,102 @@ export class ApiUsageMonitor {
       console.log('📊 API usage monitor initialized');
     } catch (error) {
       console.warn('⚠️ Failed to load usage data, starting fresh:', error);
-      await this.initializeUsageData();
+      this.usageData = this.createUsageData();
     }
   }
 
   /**
-   * Check if API call is allowed within limits
+   * Release the storage backend
    */
-  async checkUsageLimits(estimatedInputTokens: number, estimatedOutputTokens: number): Promise<UsageCheckResult> {
+  async close(): Promise<void> {
+    await this.storage.close();
+  }
+
+  /**
+   * Check if an API call to `model` is allowed within the global and per-model limits
+   */
+  async checkUsageLimits(
+    estimatedInputTokens: number,
+    estimatedOutputTokens: number,
+    model: string = this.config.pricing.model
+  ): Promise<UsageCheckResult> {
+    // Re-read the persisted counters; other runs may have recorded usage since
     if (!this.usageData) {
       await this.initialize();
+    } else {
+      await this.loadUsageData();
     }
+    const usageData = this.usageData ?? this.createUsageData();
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = new Date().toISOString().slice(0, 10);
     const currentMonth = today.substring(0, 7); // YYYY-MM
 
     // Ensure we have current period data
-    await this.ensureCurrentPeriod(today, currentMonth);
+    this.ensureCurrentPeriod(usageData, today, currentMonth);
 
-    const estimatedCost = this.calculateCost(estimatedInputTokens, estimatedOutputTokens);
-    const totalEstimatedTokens = estimatedInputTokens + estimatedOutputTokens;
+    const estimatedCost = this.calculateCost(model, { inputTokens: estimatedInputTokens, outputTokens: estimatedOutputTokens });
+    const estimate = { tokens: estimatedInputTokens + estimatedOutputTokens, cost: estimatedCost };
 
-    const daily = this.usageData!.currentPeriod.daily;
-    const monthly = this.usageData!.currentPeriod.monthly;
-
-    // Calculate usage percentages
-    const dailyCallsPercentage = (daily.calls + 1) / this.config.limits.dailyCallLimit;
-    const monthlyCallsPercentage = (monthly.calls + 1) / this.config.limits.monthlyCallLimit;
-    const dailyTokensPercentage = (daily.inputTokens + daily.outputTokens + totalEstimatedTokens) / this.config.limits.dailyTokenLimit;
-    const monthlyTokensPercentage = (monthly.inputTokens + monthly.outputTokens + totalEstimatedTokens) / this.config.limits.monthlyTokenLimit;
-    const dailyCostPercentage = (daily.estimatedCost + estimatedCost) / this.config.limits.dailyCostLimit;
-    const monthlyCostPercentage = (monthly.estimatedCost + estimatedCost) / this.config.limits.monthlyCostLimit;
+    const daily = usageData.currentPeriod.daily;
+    const monthly = usageData.currentPeriod.monthly;
+    const limits = this.config.limits;
+    const modelLimits = lookupByModel(this.config.modelLimits, model) ?? {};
 
     const result: UsageCheckResult = {
       allowed: true,
+      model,
       currentUsage: {
         daily: {
-          calls: { current: daily.calls, limit: this.config.limits.dailyCallLimit, percentage: dailyCallsPercentage },
-          tokens: { current: daily.inputTokens + daily.outputTokens, limit: this.config.limits.dailyTokenLimit, percentage: dailyTokensPercentage },
-          cost: { current: daily.estimatedCost, limit: this.config.limits.dailyCostLimit, percentage: dailyCostPercentage }
+          calls: measure(daily, 'calls', estimate, limits.dailyCallLimit),
+          tokens: measure(daily, 'tokens', estimate, limits.dailyTokenLimit),
+          cost: measure(daily, 'cost', estimate, limits.dailyCostLimit),
         },
         monthly: {
-          calls: { current: monthly.calls, limit: this.config.limits.monthlyCallLimit, percentage: monthlyCallsPercentage },
-          tokens: { current: monthly.inputTokens + monthly.outputTokens, limit: this.config.limits.monthlyTokenLimit, percentage: monthlyTokensPercentage },
-          cost: { current: monthly.estimatedCost, limit: this.config.limits.monthlyCostLimit, percentage: monthlyCostPercentage }
-        }
+          calls: measure(monthly, 'calls', estimate, limits.monthlyCallLimit),
+          tokens: measure(monthly, 'tokens', estimate, limits.monthlyTokenLimit),
+          cost: measure(monthly, 'cost', estimate, limits.monthlyCostLimit),
+        },
+      },
+      modelUsage: {
+        daily: measureLimited(daily.models?.[model] ?? emptyModelUsage(), 'daily', estimate, modelLimits),
+        monthly: measureLimited(monthly.models?.[model] ?? emptyModelUsage(), 'monthly', estimate, modelLimits),
+      },
+      costByModel: {
+        daily: costByModel(daily.models),
+        monthly: costByModel(monthly.models),
       },
       warnings: [],
       recommendations: []
     };
 
+    // Global limits first, then the model's own, in calls/tokens/cost order
+    const checks: LimitCheck[] = [];
+    for (const metric of ['calls', 'tokens', 'cost'] as const) {
+      for (const period of ['daily', 'monthly'] as const) {
+        checks.push({ period, metric, usage: result.currentUsage[period][metric] });
+      }
+    }
+    for (const metric of ['calls', 'tokens', 'cost'] as const) {
+      for (const period of ['daily', 'monthly'] as const) {
+        const usage = result.modelUsage[period][metric];
+        if (usage) {
+          checks.push({ model, period, metric, usage });
+        }
+      }
+    }
+
     // Check emergency thresholds (block processing)
-    if (dailyCallsPercentage >= this.config.monitoring.emergencyThresholds.daily) {
-      result.allowed = false;
-      result.reason = `Daily API call limit exceeded (${Math.round(dailyCallsPercentage * 100)}% of ${this.config.limits.dailyCallLimit})`;
-    } else if (monthlyCallsPercentage >= this.config.monitoring.emergencyThresholds.monthly) {
-      result.allowed = false;
-      result.reason = `Monthly API call limit exceeded (${Math.round(monthlyCallsPercentage * 100)}% of ${this.config.limits.monthlyCallLimit})`;
-    } else if (dailyTokensPercentage >= this.config.monitoring.emergencyThresholds.daily) {
-      result.allowed = false;
-      result.reason = `Daily token limit exceeded (${Math.round(dailyTokensPercentage * 100)}% of ${this.config.limits.dailyTokenLimit})`;
-    } else if (monthlyTokensPercentage >= this.config.monitoring.emergencyThresholds.monthly) {
-      result.allowed = false;
-      result.reason = `Monthly token limit exceeded (${Math.round(monthlyTokensPercentage * 100)}% of ${this.config.limits.monthlyTokenLimit})`;
-    } else if (dailyCostPercentage >= this.config.monitoring.emergencyThresholds.daily) {
-      result.allowed = false;
-      result.reason = `Daily cost limit exceeded ($${daily.estimatedCost.toFixed(2)} + $${estimatedCost.toFixed(2)} > $${this.config.limits.dailyCostLimit})`;
-    } else if (monthlyCostPercentage >= this.config.monitoring.emergencyThresholds.monthly) {
+    const exceeded = checks.find(check => check.usage.percentage >= this.config.monitoring.emergencyThresholds[check.period]);
+    if (exceeded) {
       result.allowed = false;
-      result.reason = `Monthly cost limit exceeded ($${monthly.estimatedCost.toFixed(2)} + $${estimatedCost.toFixed(2)} > $${this.config.limits.monthlyCostLimit})`;
+      result.reason = describeExceeded(exceeded, estimatedCost);
     }
 
     // Generate warnings for approaching limits
-    if (dailyCallsPercentage >= this.config.monitoring.warningThresholds.daily) {
-      result.warnings.push(`Daily API calls at ${Math.round(dailyCallsPercentage * 100)}% (${daily.calls}/${this.config.limits.dailyCallLimit})`);
-    }
-    if (monthlyCallsPercentage >= this.config.monitoring.warningThresholds.monthly) {
-      result.warnings.push(`Monthly API calls at ${Math.round(monthlyCallsPercentage * 100)}% (${monthly.calls}/${this.config.limits.monthlyCallLimit})`);
-    }
-    if (dailyTokensPercentage >= this.config.monitoring.warningThresholds.daily) {
-      result.warnings.push(`Daily tokens at ${Math.round(dailyTokensPercentage * 100)}% (${daily.inputTokens + daily.outputTokens}/${this.config.limits.dailyTokenLimit})`);
-    }
-    if (monthlyCostPercentage >= this.config.monitoring.warningThresholds.monthly) {
-      result.warnings.push(`Monthly cost at ${Math.round(monthlyCostPercentage * 100)}% ($${monthly.estimatedCost.toFixed(2)}/$${this.config.limits.monthlyCostLimit})`);
+    for (const check of checks) {
+      if (check.usage.percentage >= this.config.monitoring.warningThresholds[check.period]) {
+        result.warnings.push(describeWarning(check));
+      }
     }
 
     // Generate recommendations
@@ -190,45 +272,79 @@ export class ApiUsageMonitor {
       result.recommendations.push('Review duplicate detection to reduce unnecessary API calls');
     }
 
-    if (dailyCallsPercentage >= 0.9 || monthlyCallsPercentage >= 0.9) {
+    if (result.currentUsage.daily.calls.percentage >= 0.9 || result.currentUsage.monthly.calls.percentage >= 0.9) {
       result.recommendations.push('Enable emergency mode: process only critical/urgent issues');
       result.recommendations.push('Consider increasing API limits if budget allows');
     }
 
+    if (Object.keys(modelLimits).length > 0 && checks.some(check => check.model && check.usage.percentage >= 0.9)) {
+      result.recommendations.push(`Route low-priority issues to a cheaper model than ${model}`);
+    }
+
     return result;
   }
 
   /**
-   * Record actual API usage after a successful call
+   * Record actual API usage after a call. `inputTokens` excludes cached tokens, as the API reports them.
    */
-  async recordUsage(inputTokens: number, outputTokens: number): Promise<void> {
-    if (!this.usageData) {
-      await this.initialize();
-    }
-
-    const today = new Date().toISOString().split('T')[0];
+  async recordUsage(inputTokens: number, outputTokens: number, options: RecordUsageOptions = {}): Promise<void> {
+    const today = new Date().toISOString().slice(0, 10);
     const currentMonth = today.substring(0, 7);
-    const cost = this.calculateCost(inputTokens, outputTokens);
+    const model = options.model ?? this.config.pricing.model;
+    const calls = options.calls ?? 1;
+    const cachedInputTokens = options.cachedInputTokens ?? 0;
+    const cacheWriteTokens = options.cacheWriteTokens ?? 0;
+    const totalInputTokens = inputTokens + cachedInputTokens + cacheWriteTokens;
+    const cost = this.calculateCost(model, { inputTokens, outputTokens, cachedInputTokens, cacheWriteTokens });
+
+    const add = (counters: UsageCounters) => {
+      counters.calls += calls;
+      counters.inputTokens += totalInputTokens;
+      counters.outputTokens += outputTokens;
+      counters.estimatedCost += cost;
+    };
+
+    // Increment the persisted counters under the storage lock so concurrent runs all count
+    this.usageData = await this.storage.update<ApiUsageData, ApiUsageData>(STORAGE_NAMESPACES.apiUsage, records => {
+      const usageData = records.usage ?? this.createUsageData();
+      this.ensureCurrentPeriod(usageData, today, currentMonth);
 
-    await this.ensureCurrentPeriod(today, currentMonth);
+      for (const period of [usageData.currentPeriod.daily, usageData.currentPeriod.monthly]) {
+        add(period);
 
-    // Update daily usage
-    this.usageData!.currentPeriod.daily.calls += 1;
-    this.usageData!.currentPeriod.daily.inputTokens += inputTokens;
-    this.usageData!.currentPeriod.daily.outputTokens += outputTokens;
-    this.usageData!.currentPeriod.daily.estimatedCost += cost;
+        period.models ??= {};
+        const modelUsage = period.models[model] ??= emptyModelUsage();
+        add(modelUsage);
+        modelUsage.cachedInputTokens += cachedInputTokens;
+        modelUsage.cacheWriteTokens += cacheWriteTokens;
+
+        if (options.repo) {
+          period.repos ??= {};
+          add(period.repos[options.repo] ??= emptyCounters());
+        }
+        if (options.issue) {
+          period.issues ??= {};
+          add(period.issues[options.issue] ??= emptyCounters());
+        }
+      }
 
-    // Update monthly usage
-    this.usageData!.currentPeriod.monthly.calls += 1;
-    this.usageData!.currentPeriod.monthly.inputTokens += inputTokens;
-    this.usageData!.currentPeriod.monthly.outputTokens += outputTokens;
-    this.usageData!.currentPeriod.monthly.estimatedCost += cost;
+      usageData.lastUpdated = new Date().toISOString();
+      records.usage = usageData;
+      return structuredClone(usageData);
+    });
 
-    this.usageData!.lastUpdated = new Date().toISOString();
+    console.log(`📊 Recorded API usage (${model}): ${totalInputTokens + outputTokens} tokens, ~$${cost.toFixed(4)}`);
+  }
 
-    await this.saveUsageData();
+  /**
+   * Latest persisted usage, rolled over to the current period (nothing is written)
+   */
+  async getUsageData(): Promise<ApiUsageData> {
+    const usageData = await this.loadUsageData();
 
-    console.log(`📊 Recorded API usage: ${inputTokens + outputTokens} tokens, ~$${cost.toFixed(4)}`);
+    const today = new Date().toISOString().slice(0, 10);
+    this.ensureCurrentPeriod(usageData, today, today.substring(0, 7));
+    return structuredClone(usageData);
   }
 
   /**
@@ -257,6 +373,15 @@ export class ApiUsageMonitor {
     report += `- Tokens: ${(monthly.inputTokens + monthly.outputTokens).toLocaleString()}/${this.config.limits.monthlyTokenLimit.toLocaleString()}\n`;
     report += `- Cost: $${monthly.estimatedCost.toFixed(2)}/$${this.config.limits.monthlyCostLimit}\n\n`;
 
+    const models = Object.entries(monthly.models ?? {}).sort(([, a], [, b]) => b.estimatedCost - a.estimatedCost);
+    if (models.length > 0) {
+      report += `**Cost by Model (${monthly.month})**:\n`;
+      for (const [model, usage] of models) {
+        report += `- ${model}: $${usage.estimatedCost.toFixed(2)} (${usage.calls} calls, ${(usage.inputTokens + usage.outputTokens).toLocaleString()} tokens)\n`;
+      }
+      report += `\n`;
+    }
+
     // Add status indicator
     if (dailyCallsPercent >= 90 || monthlyCallsPercent >= 90) {
       report += `🚨 **Status**: Near limit - processing restricted to critical issues only\n`;
@@ -272,66 +397,53 @@ export class ApiUsageMonitor {
   }
 
   /**
-   * Calculate estimated cost for token usage
+   * Pricing for a model: its table entry (exact id, else longest matching prefix) or the flat costs
    */
-  private calculateCost(inputTokens: number, outputTokens: number): number {
-    const inputCost = (inputTokens / 1000) * this.config.pricing.inputTokenCost;
-    const outputCost = (outputTokens / 1000) * this.config.pricing.outputTokenCost;
-    return inputCost + outputCost;
+  getModelPricing(model: string): ModelPricing {
+    return lookupByModel(this.config.pricing.models, model) ?? this.config.pricing;
   }
 
   /**
-   * Ensure current period data exists and is up to date
+   * Calculate estimated cost for token usage on a model
    */
-  private async ensureCurrentPeriod(today: string, currentMonth: string): Promise<void> {
-    if (!this.usageData) return;
+  private calculateCost(
+    model: string,
+    tokens: { inputTokens: number; outputTokens: number; cachedInputTokens?: number; cacheWriteTokens?: number }
+  ): number {
+    const pricing = this.getModelPricing(model);
+    const inputCost = (tokens.inputTokens / 1000) * pricing.inputTokenCost;
+    const cachedCost = ((tokens.cachedInputTokens ?? 0) / 1000) * (pricing.cachedInputTokenCost ?? pricing.inputTokenCost);
+    const cacheWriteCost = ((tokens.cacheWriteTokens ?? 0) / 1000) * (pricing.cacheWriteTokenCost ?? pricing.inputTokenCost);
+    const outputCost = (tokens.outputTokens / 1000) * pricing.outputTokenCost;
+    return inputCost + cachedCost + cacheWriteCost + outputCost;
+  }
 
+  /**
+   * Roll daily/monthly counters over to the current period, archiving the previous ones
+   */
+  private ensureCurrentPeriod(usageData: ApiUsageData, today: string, currentMonth: string): void {
     // Check if we need to roll over to new day
-    if (this.usageData.currentPeriod.daily.date !== today) {
+    if (usageData.currentPeriod.daily.date !== today) {
       // Archive old daily data
-      this.usageData.history.push({
-        date: this.usageData.currentPeriod.daily.date,
-        calls: this.usageData.currentPeriod.daily.calls,
-        inputTokens: this.usageData.currentPeriod.daily.inputTokens,
-        outputTokens: this.usageData.currentPeriod.daily.outputTokens,
-        estimatedCost: this.usageData.currentPeriod.daily.estimatedCost,
-        type: 'daily'
-      });
+      const { date, issues: _issues, ...counters } = usageData.currentPeriod.daily;
+      usageData.history.push({ date, ...counters, type: 'daily' });
 
       // Reset daily counters
-      this.usageData.currentPeriod.daily = {
-        date: today,
-        calls: 0,
-        inputTokens: 0,
-        outputTokens: 0,
-        estimatedCost: 0
-      };
+      usageData.currentPeriod.daily = { date: today, ...emptyCounters(), models: {} };
     }
 
     // Check if we need to roll over to new month
-    if (this.usageData.currentPeriod.monthly.month !== currentMonth) {
+    if (usageData.currentPeriod.monthly.month !== currentMonth) {
       // Archive old monthly data
-      this.usageData.history.push({
-        date: this.usageData.currentPeriod.monthly.month,
-        calls: this.usageData.currentPeriod.monthly.calls,
-        inputTokens: this.usageData.currentPeriod.monthly.inputTokens,
-        outputTokens: this.usageData.currentPeriod.monthly.outputTokens,
-        estimatedCost: this.usageData.currentPeriod.monthly.estimatedCost,
-        type: 'monthly'
-      });
+      const { month, ...counters } = usageData.currentPeriod.monthly;
+      usageData.history.push({ date: month, ...counters, type: 'monthly' });
 
       // Reset monthly counters
-      this.usageData.currentPeriod.monthly = {
-        month: currentMonth,
-        calls: 0,
-        inputTokens: 0,
-        outputTokens: 0,
-        estimatedCost: 0
-      };
+      usageData.currentPeriod.monthly = { month: currentMonth, ...emptyCounters(), models: {} };
     }
 
     // Cleanup old history (keep last 90 days of daily data, 24 months of monthly data)
-    this.usageData.history = this.usageData.history.filter(entry => {
+    usageData.history = usageData.history.filter(entry => {
       const entryDate = new Date(entry.date);
       const now = new Date();
       const daysDiff = (now.getTime() - entryDate.getTime()) / (1000 * 60 * 60 * 24);
@@ -342,68 +454,184 @@ export class ApiUsageMonitor {
         return daysDiff <= 730; // ~24 months
       }
     });
-
-    await this.saveUsageData();
   }
 
   /**
-   * Initialize fresh usage data
+   * Fresh usage data for the current period
    */
-  private async initializeUsageData(): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
+  private createUsageData(): ApiUsageData {
+    const today = new Date().toISOString().slice(0, 10);
     const currentMonth = today.substring(0, 7);
 
-    this.usageData = {
+    return {
       version: '1.0',
       lastUpdated: new Date().toISOString(),
       currentPeriod: {
-        daily: {
-          date: today,
-          calls: 0,
-          inputTokens: 0,
-          outputTokens: 0,
-          estimatedCost: 0
-        },
-        monthly: {
-          month: currentMonth,
-          calls: 0,
-          inputTokens: 0,
-          outputTokens: 0,
-          estimatedCost: 0
-        }
+        daily: { date: today, ...emptyCounters(), models: {} },
+        monthly: { month: currentMonth, ...emptyCounters(), models: {} },
       },
       history: []
     };
-
-    await this.saveUsageData();
   }
 
   /**
-   * Load usage data from disk
+   * Load usage data from storage, importing the legacy JSON file on first use
    */
-  private async loadUsageData(): Promise<void> {
-    const usageExists = await fs.access(this.config.monitoring.usageFilePath).then(() => true).catch(() => false);
-    
-    if (!usageExists) {
-      await this.initializeUsageData();
-      return;
+  private async loadUsageData(): Promise<ApiUsageData> {
+    let records = await this.storage.load<ApiUsageData>(STORAGE_NAMESPACES.apiUsage);
+
+    if (!records.usage) {
+      const migrated = await migrateLegacyJson(this.storage, { usageFilePath: this.config.monitoring.usageFilePath });
+      if (migrated.apiUsage) {
+        console.log(`📦 Migrated API usage from ${this.config.monitoring.usageFilePath}`);
+        records = await this.storage.load<ApiUsageData>(STORAGE_NAMESPACES.apiUsage);
+      }
     }
 
-    const usageDataRaw = await fs.readFile(this.config.monitoring.usageFilePath, 'utf8');
-    this.usageData = JSON.parse(usageDataRaw);
+    this.usageData = records.usage ?? this.createUsageData();
+    return this.usageData;
   }
+}
 
-  /**
-   * Save usage data to disk
-   */
-  private async saveUsageData(): Promise<void> {
-    if (!this.usageData) return;
+/**
+ * Entry for a model in a table keyed by model id or id prefix ("claude-sonnet-4" covers "claude-sonnet-4-20250514")
+ */
+function lookupByModel<T>(table: Record<string, T> | undefined, model: string): T | undefined {
+  if (!table) {
+    return undefined;
+  }
+  if (table[model] !== undefined) {
+    return table[model];
+  }
+
+  const prefix = Object.keys(table)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix !== undefined ? table[prefix] : undefined;
+}
+
+/**
+ * Usage of one metric including the call being checked
+ */
+function measure(
+  counters: UsageCounters,
+  metric: Metric,
+  estimate: { tokens: number; cost: number },
+  limit: number
+): UsageMetric {
+  const current = metric === 'calls'
+    ? counters.calls
+    : metric === 'tokens'
+      ? counters.inputTokens + counters.outputTokens
+      : counters.estimatedCost;
+  const next = metric === 'calls' ? 1 : metric === 'tokens' ? estimate.tokens : estimate.cost;
+
+  return { current, limit, percentage: (current + next) / limit };
+}
+
+/**
+ * Measure only the metrics that have a limit set
+ */
+function measureLimited(
+  counters: UsageCounters,
+  period: Period,
+  estimate: { tokens: number; cost: number },
+  limits: UsageLimitOverrides
+): Partial<PeriodUsage> {
+  const usage: Partial<PeriodUsage> = {};
+  for (const metric of ['calls', 'tokens', 'cost'] as const) {
+    const limit = limits[LIMIT_KEYS[period][metric]];
+    if (limit !== undefined) {
+      usage[metric] = measure(counters, metric, estimate, limit);
+    }
+  }
+  return usage;
+}
+
+function describeExceeded(check: LimitCheck, estimatedCost: number): string {
+  const period = check.period === 'daily' ? 'Daily' : 'Monthly';
+  const scope = check.model ? ` for ${check.model}` : '';
+  const { current, limit, percentage } = check.usage;
+
+  switch (check.metric) {
+    case 'calls':
+      return `${period} API call limit${scope} exceeded (${Math.round(percentage * 100)}% of ${limit})`;
+    case 'tokens':
+      return `${period} token limit${scope} exceeded (${Math.round(percentage * 100)}% of ${limit})`;
+    case 'cost':
+      return `${period} cost limit${scope} exceeded ($${current.toFixed(2)} + $${estimatedCost.toFixed(2)} > $${limit})`;
+  }
+}
 
-    await fs.mkdir(path.dirname(this.config.monitoring.usageFilePath), { recursive: true });
-    await fs.writeFile(this.config.monitoring.usageFilePath, JSON.stringify(this.usageData, null, 2));
+function describeWarning(check: LimitCheck): string {
+  const period = check.period === 'daily' ? 'Daily' : 'Monthly';
+  const scope = check.model ? `${check.model}: ` : '';
+  const { current, limit, percentage } = check.usage;
+  const percent = Math.round(percentage * 100);
+
+  switch (check.metric) {
+    case 'calls':
+      return `${scope}${period} API calls at ${percent}% (${current}/${limit})`;
+    case 'tokens':
+      return `${scope}${period} tokens at ${percent}% (${current}/${limit})`;
+    case 'cost':
+      return `${scope}${period} cost at ${percent}% ($${current.toFixed(2)}/$${limit})`;
   }
 }
 
+function costByModel(models: Record<string, ModelUsage> | undefined): Record<string, number> {
+  return Object.fromEntries(Object.entries(models ?? {}).map(([model, usage]) => [model, usage.estimatedCost]));
+}
+
+function emptyCounters(): UsageCounters {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 };
+}
+
+function emptyModelUsage(): ModelUsage {
+  return { ...emptyCounters(), cachedInputTokens: 0, cacheWriteTokens: 0 };
+}
+
+/**
+ * Per-1K-token list prices; cache reads cost 10% and cache writes 125% of input
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-3-haiku': { inputTokenCost: 0.00025, outputTokenCost: 0.00125, cachedInputTokenCost: 0.00003, cacheWriteTokenCost: 0.0003 },
+  'claude-3-5-haiku': { inputTokenCost: 0.0008, outputTokenCost: 0.004, cachedInputTokenCost: 0.00008, cacheWriteTokenCost: 0.001 },
+  'claude-3-sonnet': { inputTokenCost: 0.003, outputTokenCost: 0.015, cachedInputTokenCost: 0.0003, cacheWriteTokenCost: 0.00375 },
+  'claude-3-5-sonnet': { inputTokenCost: 0.003, outputTokenCost: 0.015, cachedInputTokenCost: 0.0003, cacheWriteTokenCost: 0.00375 },
+  'claude-sonnet-4': { inputTokenCost: 0.003, outputTokenCost: 0.015, cachedInputTokenCost: 0.0003, cacheWriteTokenCost: 0.00375 },
+  'claude-4-sonnet': { inputTokenCost: 0.003, outputTokenCost: 0.015, cachedInputTokenCost: 0.0003, cacheWriteTokenCost: 0.00375 },
+  'claude-3-opus': { inputTokenCost: 0.015, outputTokenCost: 0.075, cachedInputTokenCost: 0.0015, cacheWriteTokenCost: 0.01875 },
+  'claude-opus-4': { inputTokenCost: 0.015, outputTokenCost: 0.075, cachedInputTokenCost: 0.0015, cacheWriteTokenCost: 0.01875 },
+};
+
+/**
+ * API usage configuration for a routing config: the defaults overridden by its apiUsage block
+ */
+export function resolveApiUsageConfig(config: RoutingConfig, baseDir: string): ApiUsageConfig {
+  const defaults = createDefaultApiUsageConfig(baseDir);
+  const settings = config.apiUsage;
+  const limits: Partial<UsageLimits> = Object.fromEntries(
+    Object.entries(settings?.limits ?? {}).filter(([, value]) => value !== undefined)
+  );
+
+  return {
+    ...defaults,
+    limits: { ...defaults.limits, ...limits },
+    ...(settings?.modelLimits && { modelLimits: settings.modelLimits }),
+    pricing: {
+      ...defaults.pricing,
+      model: config.llm?.model ?? defaults.pricing.model,
+      models: { ...defaults.pricing.models, ...settings?.pricing },
+    },
+    monitoring: {
+      ...defaults.monitoring,
+      usageFilePath: path.resolve(baseDir, settings?.usageFile ?? 'data/api-usage.json'),
+    },
+    ...(config.storage && { storage: config.storage }),
+  };
+}
+
 /**
  * Create default API usage configuration
  */
@@ -418,9 +646,10 @@ export function createDefaultApiUsageConfig(baseDir: string): ApiUsageConfig {
       monthlyCostLimit: 1000 // $1000 per month
     },
     pricing: {
-      inputTokenCost: 0.003, // $3 per 1K input tokens (Claude 4 Sonnet)
-      outputTokenCost: 0.015, // $15 per 1K output tokens (Claude 4 Sonnet)
-      model: 'claude-4-sonnet-20250514'
+      inputTokenCost: 0.003, // $3 per 1M input tokens, for models missing from the table
+      outputTokenCost: 0.015, // $15 per 1M output tokens
+      model: 'claude-4-sonnet-20250514',
+      models: { ...DEFAULT_MODEL_PRICING },
     },
     monitoring: {
       usageFilePath: path.join(baseDir, 'data', 'api-usage.json'),
@@ -434,4 +663,4 @@ export function createDefaultApiUsageConfig(baseDir: string): ApiUsageConfig {
       }
     }
   };
-}
\ No newline at end of file
+}
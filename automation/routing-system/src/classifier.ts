@@ -2,25 +2,129 @@
  * LLM-based issue classification system
  */
 
-import { createClaudeIntegration, type ClaudeConfig } from '@delax/claude-integration';
-import type {
-  ClassificationContext,
-  ClassificationResult,
-  IssueData,
-  RoutingConfig,
+import { createClaudeIntegration, type ClaudeConfig, type JsonSchema, type TokenUsage } from '@delax/claude-integration';
+import type { ApiUsageMonitor, UsageCheckResult } from './api-usage-monitor';
+import {
+  ClassificationResultSchema,
+  DEFAULT_LLM_MODEL,
+  type BatchClassificationContext,
+  type ClassificationContext,
+  type ClassificationResult,
+  type IssueData,
+  type RoutingConfig,
 } from './types';
 
+/**
+ * JSON Schema sent to Claude; mirrors ClassificationResultSchema
+ */
+const CLASSIFICATION_JSON_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['repo', 'title', 'body', 'labels', 'assignees', 'priority', 'confidence', 'reasoning'],
+  properties: {
+    repo: { type: 'string', description: 'owner/repo-name' },
+    title: { type: 'string' },
+    body: { type: 'string' },
+    labels: { type: 'array', items: { type: 'string' } },
+    assignees: { type: 'array', items: { type: 'string' } },
+    priority: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    reasoning: { type: 'string' },
+    projectFields: { type: 'object', additionalProperties: { type: ['string', 'number'] } },
+  },
+};
+
+/**
+ * JSON Schema for a batch reply. Entries are only checked for their issue number here,
+ * so one malformed entry cannot reject the whole batch; each is validated separately.
+ */
+const BATCH_CLASSIFICATION_JSON_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['classifications'],
+  properties: {
+    classifications: {
+      type: 'array',
+      items: {
+        type: 'object',
+        description: 'issueNumber plus the fields of a single classification',
+        required: ['issueNumber'],
+        properties: { issueNumber: { type: 'integer' } },
+      },
+    },
+  },
+};
+
+const CHARS_PER_TOKEN = 4; // rough average for English prose and JSON
+
+const CLASSIFICATION_GUIDELINES = `## Classification Guidelines
+1. **Repository Selection**: Choose the most appropriate repository based on:
+   - Technical domain (iOS, backend, frontend, etc.)
+   - Issue content and keywords
+   - Mentioned technologies or frameworks
+
+2. **Label Assignment**: 
+   - Use existing repository labels when possible
+   - Add appropriate type labels (bug, feature, documentation, etc.)
+   - Include technology-specific labels
+   - Consider urgency and complexity labels
+
+3. **Priority Assessment**:
+   - **critical**: System down, security vulnerabilities, blocking issues
+   - **high**: Important features, significant bugs affecting users
+   - **medium**: Standard features, non-blocking bugs
+   - **low**: Nice-to-have features, minor improvements
+
+4. **Confidence Scoring**:
+   - 0.9+: Very clear categorization with obvious keywords/context
+   - 0.7-0.9: Good categorization with reasonable indicators
+   - 0.5-0.7: Moderate confidence, some ambiguity
+   - <0.5: Low confidence, unclear categorization
+
+5. **Title/Body Enhancement**:
+   - Fix typos and formatting
+   - Add missing technical details if obvious
+   - Clarify ambiguous descriptions
+   - Keep original meaning intact
+
+6. **Assignee Suggestions**:
+   - Only suggest if there are clear domain experts
+   - Consider team structure and expertise areas
+   - Leave empty if uncertain`;
+
+/**
+ * Thrown instead of calling Claude when the API usage monitor refuses the request
+ */
+export class BudgetExceededError extends Error {
+  readonly check: UsageCheckResult;
+  readonly estimatedInputTokens: number;
+  readonly estimatedOutputTokens: number;
+
+  constructor(check: UsageCheckResult, estimatedInputTokens: number, estimatedOutputTokens: number) {
+    super(check.reason ?? 'API usage limit reached');
+    this.name = 'BudgetExceededError';
+    this.check = check;
+    this.estimatedInputTokens = estimatedInputTokens;
+    this.estimatedOutputTokens = estimatedOutputTokens;
+  }
+}
+
 export class IssueClassifier {
   private claude: ReturnType<typeof createClaudeIntegration>;
   private config: RoutingConfig;
+  private usageMonitor: ApiUsageMonitor | null;
+  private model: string;
+  private maxTokens: number;
+  private apiCalls = 0;
 
-  constructor(config: RoutingConfig, apiKey?: string) {
+  constructor(config: RoutingConfig, apiKey?: string, usageMonitor?: ApiUsageMonitor | null) {
     this.config = config;
+    this.usageMonitor = usageMonitor ?? null;
+    this.model = config.llm?.model ?? DEFAULT_LLM_MODEL;
+    this.maxTokens = config.llm?.maxTokens ?? 4000;
     
     const claudeConfig: ClaudeConfig = {
-      model: config.llm?.model ?? 'claude-3-sonnet',
-      apiKey,
-      maxTokens: config.llm?.maxTokens ?? 4000,
+      model: this.model,
+      ...(apiKey !== undefined && { apiKey }),
+      maxTokens: this.maxTokens,
       temperature: config.llm?.temperature ?? 0.1,
     };
     
@@ -28,33 +132,152 @@ export class IssueClassifier {
   }
 
   /**
-   * Classify an issue and determine routing destination
+   * Classify an issue and determine routing destination.
+   * Throws BudgetExceededError when the usage monitor refuses the call; other failures fall back.
    */
   async classify(context: ClassificationContext): Promise<ClassificationResult> {
     try {
-      const prompt = this.buildClassificationPrompt(context);
-      
-      // For now, we'll create a mock implementation since the original library
-      // focuses on error analysis. We'll need to extend it for issue classification.
-      const response = await this.callClaudeForClassification(prompt);
-      
-      return this.parseClassificationResponse(response, context);
+      return await this.classifyOrThrow(context);
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      console.warn('LLM classification failed:', error instanceof Error ? error.message : error);
       // Fallback to default repository with low confidence
       return this.createFallbackClassification(context.issue);
     }
   }
 
+  /**
+   * Classify an issue without the default-repo fallback; every failure is thrown
+   */
+  async classifyOrThrow(context: ClassificationContext): Promise<ClassificationResult> {
+    const prompt = this.buildClassificationPrompt(context);
+    await this.checkBudget(prompt);
+    const result = await this.callClaudeForClassification(prompt, context);
+
+    return this.sanitizeClassification(result, context);
+  }
+
+  /**
+   * Classify several issues in one Claude call, returning results keyed by issue number.
+   * Entries missing from the reply or failing validation are classified one issue at a time.
+   * Throws BudgetExceededError when the batch call is refused; issues whose own fallback call
+   * is refused are left out of the result.
+   */
+  async classifyBatch(context: BatchClassificationContext): Promise<Map<number, ClassificationResult>> {
+    const { issues, ...shared } = context;
+    const numbers = new Set(issues.map(issue => issue.number));
+    if (numbers.size !== issues.length) {
+      throw new Error('Issue numbers in a classification batch must be unique');
+    }
+
+    const results = new Map<number, ClassificationResult>();
+    if (issues.length > 1) {
+      const prompt = this.buildBatchClassificationPrompt(context);
+      await this.checkBudget(prompt);
+
+      try {
+        const entries = await this.callClaudeForBatch(prompt);
+        for (const issue of issues) {
+          const entry = entries.get(issue.number);
+          const parsed = ClassificationResultSchema.safeParse(entry);
+          if (parsed.success) {
+            const { projectFields, ...rest } = parsed.data;
+            results.set(issue.number, this.sanitizeClassification(
+              { ...rest, ...(projectFields !== undefined && { projectFields }) },
+              { ...shared, issue }
+            ));
+          } else {
+            console.warn(`⚠️ Batch classification for #${issue.number} ${entry === undefined ? 'missing' : 'invalid'}, classifying separately`);
+          }
+        }
+      } catch (error) {
+        console.warn('⚠️ Batch classification failed, classifying separately:', error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    for (const issue of issues.filter(issue => !results.has(issue.number))) {
+      try {
+        results.set(issue.number, await this.classify({ ...shared, issue }));
+      } catch (error) {
+        if (!(error instanceof BudgetExceededError)) {
+          throw error;
+        }
+        console.warn(`💸 Skipping #${issue.number}: ${error.message}`);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Estimate the tokens a call will spend: the prompt, plus maxTokens for the reply
+   */
+  estimateTokens(prompt: string): { inputTokens: number; outputTokens: number } {
+    return {
+      inputTokens: Math.ceil(prompt.length / CHARS_PER_TOKEN),
+      outputTokens: this.maxTokens,
+    };
+  }
+
+  /**
+   * Ask the usage monitor whether the call fits the budget; a failing monitor never blocks routing
+   */
+  private async checkBudget(prompt: string): Promise<void> {
+    if (!this.usageMonitor) {
+      return;
+    }
+
+    const { inputTokens, outputTokens } = this.estimateTokens(prompt);
+    let check: UsageCheckResult;
+    try {
+      check = await this.usageMonitor.checkUsageLimits(inputTokens, outputTokens, this.model);
+    } catch (error) {
+      console.warn('⚠️ API usage check failed, continuing:', error instanceof Error ? error.message : 'Unknown error');
+      return;
+    }
+
+    check.warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
+    if (!check.allowed) {
+      throw new BudgetExceededError(check, inputTokens, outputTokens);
+    }
+  }
+
+  /**
+   * Record the tokens a call actually spent against the issue and the repo it was classified for
+   * (batch calls are not attributed to either); failures are logged, not thrown
+   */
+  private async recordUsage(
+    usage: TokenUsage | undefined,
+    attempts: number,
+    issue: IssueData | undefined,
+    repo: string | undefined
+  ): Promise<void> {
+    if (!this.usageMonitor || !usage) {
+      return;
+    }
+
+    try {
+      await this.usageMonitor.recordUsage(usage.inputTokens, usage.outputTokens, {
+        model: this.model,
+        calls: attempts,
+        cachedInputTokens: usage.cacheReadInputTokens,
+        cacheWriteTokens: usage.cacheCreationInputTokens,
+        repo,
+        issue: issue ? issueKey(issue) : undefined,
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to record API usage:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
   /**
    * Build classification prompt for Claude
    */
   private buildClassificationPrompt(context: ClassificationContext): string {
-    const { issue, availableRepos, existingLabels, organizationContext } = context;
-    
-    const repoInfo = availableRepos.map(repo => {
-      const labels = existingLabels[repo] ?? [];
-      return `- ${repo}: [${labels.join(', ')}]`;
-    }).join('\n');
+    const { issue, organizationContext } = context;
+    const repoInfo = this.describeRepos(context);
 
     return `
 You are an expert at categorizing GitHub issues for a multi-repository organization.
@@ -90,102 +313,144 @@ Analyze the issue and provide a JSON response with the following structure:
 }
 \`\`\`
 
-## Classification Guidelines
-1. **Repository Selection**: Choose the most appropriate repository based on:
-   - Technical domain (iOS, backend, frontend, etc.)
-   - Issue content and keywords
-   - Mentioned technologies or frameworks
+${CLASSIFICATION_GUIDELINES}
 
-2. **Label Assignment**: 
-   - Use existing repository labels when possible
-   - Add appropriate type labels (bug, feature, documentation, etc.)
-   - Include technology-specific labels
-   - Consider urgency and complexity labels
+Respond with valid JSON only, no additional text.`;
+  }
 
-3. **Priority Assessment**:
-   - **critical**: System down, security vulnerabilities, blocking issues
-   - **high**: Important features, significant bugs affecting users
-   - **medium**: Standard features, non-blocking bugs
-   - **low**: Nice-to-have features, minor improvements
+  /**
+   * Build one prompt covering every issue of a batch
+   */
+  private buildBatchClassificationPrompt(context: BatchClassificationContext): string {
+    const { issues, organizationContext } = context;
+    const repoInfo = this.describeRepos(context);
 
-4. **Confidence Scoring**:
-   - 0.9+: Very clear categorization with obvious keywords/context
-   - 0.7-0.9: Good categorization with reasonable indicators
-   - 0.5-0.7: Moderate confidence, some ambiguity
-   - <0.5: Low confidence, unclear categorization
+    const issueInfo = issues.map(issue => `### Issue #${issue.number}
+**Title:** ${issue.title}
+**Body:** ${issue.body}
+**Author:** ${issue.author}
+**Existing Labels:** ${issue.labels.join(', ') || 'none'}`).join('\n\n');
 
-5. **Title/Body Enhancement**:
-   - Fix typos and formatting
-   - Add missing technical details if obvious
-   - Clarify ambiguous descriptions
-   - Keep original meaning intact
+    return `
+You are an expert at categorizing GitHub issues for a multi-repository organization.
+Classify each of the following ${issues.length} issues independently.
 
-6. **Assignee Suggestions**:
-   - Only suggest if there are clear domain experts
-   - Consider team structure and expertise areas
-   - Leave empty if uncertain
+## Issues to Classify
+${issueInfo}
+
+## Organization Context
+${organizationContext ?? 'No specific context provided'}
+
+## Available Repositories and Their Common Labels
+${repoInfo}
+
+## Classification Task
+Provide a JSON response with one entry per issue, identified by its issue number:
+\`\`\`json
+{
+  "classifications": [
+    {
+      "issueNumber": 42,
+      "repo": "owner/repo-name",
+      "title": "refined issue title if needed",
+      "body": "enhanced or cleaned issue body if needed",
+      "labels": ["label1", "label2"],
+      "assignees": ["username1"],
+      "priority": "low|medium|high|critical",
+      "confidence": 0.85,
+      "reasoning": "Brief explanation of classification logic",
+      "projectFields": {
+        "Status": "Todo",
+        "Size": "Medium"
+      }
+    }
+  ]
+}
+\`\`\`
+
+${CLASSIFICATION_GUIDELINES}
 
 Respond with valid JSON only, no additional text.`;
   }
 
+  private describeRepos(context: Omit<ClassificationContext, 'issue'>): string {
+    return context.availableRepos.map(repo => {
+      const labels = context.existingLabels[repo] ?? [];
+      return `- ${repo}: [${labels.join(', ')}]`;
+    }).join('\n');
+  }
   /**
-   * Call Claude API for issue classification
-   * This is a simplified implementation - in reality, we'd need to extend
-   * the existing claude-integration library to support this use case
+   * Call Claude for a schema-validated classification, retrying once on invalid output
    */
-  private async callClaudeForClassification(prompt: string): Promise<string> {
-    // For now, we'll use the existing generateFix method with adapted context
-    // In a real implementation, we'd extend the library with a classify method
-    const mockErrorContext = {
-      language: 'typescript' as const,
-      errorType: 'issue-classification',
-      errorMessage: prompt,
-      filePath: 'routing-request',
-    };
+  private async callClaudeForClassification(
+    prompt: string,
+    context: ClassificationContext
+  ): Promise<ClassificationResult> {
+    const result = await this.claude.classify<ClassificationResult>({
+      prompt,
+      schema: CLASSIFICATION_JSON_SCHEMA,
+      validate: value => {
+        const parsed = ClassificationResultSchema.safeParse(value);
+        if (!parsed.success) {
+          throw new Error(parsed.error.issues
+            .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; '));
+        }
 
-    const result = await this.claude.generateFix(mockErrorContext);
-    
-    if (result.success && result.suggestions.length > 0) {
-      return result.suggestions[0].content;
+        const { projectFields, ...rest } = parsed.data;
+        return { ...rest, ...(projectFields !== undefined && { projectFields }) };
+      },
+      retries: 1,
+    });
+    this.apiCalls += result.attempts;
+    await this.recordUsage(
+      result.usage,
+      result.attempts,
+      context.issue,
+      result.data ? this.validateRepo(result.data.repo, context.availableRepos) : undefined
+    );
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error ?? 'Classification failed');
     }
-    
-    throw new Error(result.error ?? 'Classification failed');
+
+    return result.data;
   }
 
   /**
-   * Parse Claude's classification response
+   * Call Claude for a batch reply; entries come back unvalidated, keyed by issue number
    */
-  private parseClassificationResponse(
-    response: string,
-    context: ClassificationContext
-  ): ClassificationResult {
-    try {
-      // Extract JSON from response (Claude might return it wrapped in markdown)
-      const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/) 
-        ?? response.match(/\{[\s\S]*\}/);
-      
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
+  private async callClaudeForBatch(prompt: string): Promise<Map<number, unknown>> {
+    const result = await this.claude.classify<{ classifications: Array<{ issueNumber: number }> }>({
+      prompt,
+      schema: BATCH_CLASSIFICATION_JSON_SCHEMA,
+      retries: 1,
+    });
+    this.apiCalls += result.attempts;
+    await this.recordUsage(result.usage, result.attempts, undefined, undefined);
 
-      const parsed = JSON.parse(jsonMatch[0] || jsonMatch[1]);
-      
-      // Validate and sanitize the response
-      return {
-        repo: this.validateRepo(parsed.repo, context.availableRepos),
-        title: parsed.title || context.issue.title,
-        body: parsed.body || context.issue.body,
-        labels: Array.isArray(parsed.labels) ? parsed.labels : [],
-        assignees: Array.isArray(parsed.assignees) ? parsed.assignees : [],
-        priority: this.validatePriority(parsed.priority),
-        confidence: Math.max(0, Math.min(1, Number(parsed.confidence) || 0.5)),
-        reasoning: parsed.reasoning || 'LLM classification',
-        projectFields: parsed.projectFields || {},
-      };
-    } catch (error) {
-      console.warn('Failed to parse classification response:', error);
-      return this.createFallbackClassification(context.issue);
+    if (!result.success || !result.data) {
+      throw new Error(result.error ?? 'Batch classification failed');
     }
+
+    return new Map(result.data.classifications.map(entry => [entry.issueNumber, entry]));
+  }
+
+  /**
+   * Resolve the repository against the available repos and fill empty fields
+   */
+  private sanitizeClassification(
+    result: ClassificationResult,
+    context: ClassificationContext
+  ): ClassificationResult {
+    return {
+      ...result,
+      repo: this.validateRepo(result.repo, context.availableRepos),
+      title: result.title || context.issue.title,
+      body: result.body || context.issue.body,
+      reasoning: result.reasoning || 'LLM classification',
+      projectFields: result.projectFields ?? {},
+    };
   }
 
   /**
@@ -205,16 +470,6 @@ Respond with valid JSON only, no additional text.`;
     return match ?? this.config.defaults.repo;
   }
 
-  /**
-   * Validate priority level
-   */
-  private validatePriority(priority: string): 'low' | 'medium' | 'high' | 'critical' {
-    const validPriorities = ['low', 'medium', 'high', 'critical'] as const;
-    return validPriorities.includes(priority as any) 
-      ? (priority as any) 
-      : 'medium';
-  }
-
   /**
    * Create fallback classification when LLM fails
    */
@@ -232,6 +487,13 @@ Respond with valid JSON only, no additional text.`;
     };
   }
 
+  /**
+   * Number of Claude API requests made by this classifier so far
+   */
+  getApiCallCount(): number {
+    return this.apiCalls;
+  }
+
   /**
    * Get available repositories from config
    */
@@ -263,4 +525,12 @@ Respond with valid JSON only, no additional text.`;
     
     return Array.from(labels);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * "owner/repo#number" from a GitHub issue URL, else "#number"
+ */
+function issueKey(issue: IssueData): string {
+  const match = issue.url.match(/github\.com\/([^/]+\/[^/]+)\/issues\/(\d+)/);
+  return match ? `${match[1]}#${match[2]}` : `#${issue.number}`;
+}
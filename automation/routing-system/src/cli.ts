@@ -0,0 +1,572 @@
+#!/usr/bin/env node
+/**
+ * Command-line entry point for the routing system
+ */
+
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { ApiUsageMonitor, resolveApiUsageConfig, type UsageCheckResult } from './api-usage-monitor';
+import { ConfigManager, loadRoutingConfigFile } from './config';
+import { createRouter, quickRoute } from './index';
+import { calibratePriorityScoring, formatCalibrationReport, loadPriorityCorpus } from './priority-calibration';
+import { PriorityProcessor, resolvePriorityConfig, type QueueInspection } from './priority-processor';
+import { GitHubApiClient } from './github-api';
+import { ProjectsApiClient } from './projects-api';
+import { ReverseSync, resolveReverseSyncConfig } from './reverse-sync';
+import type { IssueRouter } from './router';
+import {
+  RoutingSimulator,
+  formatSimulationDiff,
+  formatSimulationReport,
+  loadSimulationCorpus,
+} from './routing-simulator';
+import { createStorage, migrateLegacyJson } from './storage';
+import { validateIssueData, type IssueData, type RoutingConfig } from './types';
+import { buildUsageReport, formatUsageReport, type UsageReportFormat, type UsageReportView } from './usage-report';
+
+interface Command {
+  description: string;
+  usage: string;
+  run: (args: string[]) => Promise<number>;
+}
+
+const commands: Record<string, Command> = {
+  route: {
+    description: 'Route a single issue read from a JSON file',
+    usage: 'route --issue <file> --router-repo <owner/repo> [--environment <env>] [--dry-run] [--verbose] [--explain] [--prioritize]',
+    run: runRoute,
+  },
+  simulate: {
+    description: 'Replay a JSONL corpus of issues through the routing rules offline',
+    usage: 'simulate --corpus <file.jsonl> [--config <routing.yml>] [--proposed <routing.yml>] [--environment <env>] [--json]',
+    run: runSimulate,
+  },
+  'migrate-storage': {
+    description: 'Import legacy processing-history / api-usage JSON into the configured storage backend',
+    usage: 'migrate-storage [--config <routing.yml>] [--history <file>] [--usage <file>] [--environment <env>]',
+    run: runMigrateStorage,
+  },
+  'usage-report': {
+    description: 'Report Claude API calls, tokens and cost against the limits, with a month-end projection',
+    usage: 'usage-report [--config <routing.yml>] [--view daily|monthly] [--format table|csv|json] [--periods <n>] [--top <n>] [--environment <env>]',
+    run: runUsageReport,
+  },
+  queue: {
+    description: 'List issues waiting in the priority queues: why, since when, and which are stuck',
+    usage: 'queue [--config <routing.yml>] [--json] [--environment <env>]',
+    run: runQueue,
+  },
+  drain: {
+    description: 'Route queued batch and deferred issues as the API budget allows (run on a schedule)',
+    usage: 'drain [--router-repo <owner/repo>] [--config <routing.yml>] [--max <n>] [--environment <env>]',
+    run: runDrain,
+  },
+  'calibrate-priority': {
+    description: 'Fit priority weights, thresholds and keyword weights to a JSONL corpus of issues with known priorities',
+    usage: 'calibrate-priority --corpus <file.jsonl> [--config <routing.yml>] [--passes <n>] [--environment <env>] [--json]',
+    run: runCalibratePriority,
+  },
+  'check-project': {
+    description: 'Check the configured projects, field mappings and rule projectFields against the live projects',
+    usage: 'check-project [--config <routing.yml>] [--environment <env>]',
+    run: runCheckProject,
+  },
+  'sync-status': {
+    description: 'Post project Status changes and closure of routed issues back to their source issue and Slack',
+    usage: 'sync-status [--config <routing.yml>] [--environment <env>] [--json]',
+    run: runSyncStatus,
+  },
+};
+
+/**
+ * Route one issue; with --explain the per-rule trace is printed.
+ * With --prioritize, issues the priority processor batches or defers are queued for `drain` instead.
+ */
+async function runRoute(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      issue: { type: 'string' },
+      'router-repo': { type: 'string' },
+      environment: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      explain: { type: 'boolean', default: false },
+      prioritize: { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.issue || !values['router-repo']) {
+    throw new Error('--issue and --router-repo are required');
+  }
+
+  const githubToken = process.env.GITHUB_TOKEN;
+  if (!githubToken) {
+    throw new Error('GITHUB_TOKEN environment variable is required');
+  }
+
+  const issue = validateIssueData(JSON.parse(readFileSync(values.issue, 'utf8')));
+
+  if (values.prioritize) {
+    const config = ConfigManager.getInstance().getConfig(values.environment);
+    const processor = new PriorityProcessor(resolvePriorityConfig(config, process.cwd()));
+    try {
+      await processor.initialize();
+      const priority = processor.analyzePriority(issue, await checkCurrentUsage(config));
+      if (priority.processingDecision !== 'immediate') {
+        await processor.queueIssue(issue, priority, values['router-repo']);
+        console.log(`📥 Queued (${priority.processingDecision}): ${priority.reasoning.join('; ')}`);
+        return 0;
+      }
+    } finally {
+      await processor.close();
+    }
+  }
+
+  const result = await quickRoute(issue, {
+    githubToken,
+    routerRepo: values['router-repo'],
+    ...(values.environment !== undefined && { environment: values.environment }),
+    ...(process.env.OPENAI_API_KEY !== undefined && { openaiApiKey: process.env.OPENAI_API_KEY }),
+    dryRun: values['dry-run'],
+    verbose: values.verbose,
+    explain: values.explain,
+  });
+
+  console.log(`${result.success ? '✅' : '❌'} ${result.classification.repo} (confidence: ${result.classification.confidence.toFixed(2)})`);
+  console.log(result.classification.reasoning);
+  if (result.plannedActions) {
+    console.log('📝 Dry run, planned actions:');
+    for (const action of result.plannedActions) {
+      console.log(`  - ${action}`);
+    }
+  }
+
+  return result.success ? 0 : 1;
+}
+
+/**
+ * Simulate rule routing over historical issues, optionally diffing a proposed config
+ */
+async function runSimulate(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      corpus: { type: 'string' },
+      config: { type: 'string' },
+      proposed: { type: 'string' },
+      environment: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.corpus) {
+    throw new Error('--corpus is required');
+  }
+
+  const loadConfig = (path: string | undefined): RoutingConfig =>
+    path
+      ? loadRoutingConfigFile(path, values.environment)
+      : ConfigManager.getInstance().getConfig(values.environment);
+
+  const records = loadSimulationCorpus(values.corpus);
+  const simulator = new RoutingSimulator();
+  const current = loadConfig(values.config);
+
+  if (values.proposed) {
+    const diff = simulator.compare(current, loadConfig(values.proposed), records);
+    console.log(values.json ? JSON.stringify(diff, null, 2) : formatSimulationDiff(diff));
+  } else {
+    const report = simulator.simulate(current, records);
+    console.log(values.json ? JSON.stringify(report, null, 2) : formatSimulationReport(report));
+  }
+
+  return 0;
+}
+
+/**
+ * Copy legacy whole-file JSON into the storage backend from routing.yml (existing records win)
+ */
+async function runMigrateStorage(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string' },
+      history: { type: 'string' },
+      usage: { type: 'string' },
+      environment: { type: 'string' },
+    },
+  });
+
+  const config = values.config
+    ? loadRoutingConfigFile(values.config, values.environment)
+    : ConfigManager.getInstance().getConfig(values.environment);
+
+  if (!config.storage) {
+    throw new Error('No storage backend configured (set `storage` in routing.yml)');
+  }
+
+  const historyFilePath = values.history ?? config.duplicateDetection?.historyFile ?? 'data/processing-history.json';
+  const usageFilePath = values.usage ?? config.apiUsage?.usageFile ?? 'data/api-usage.json';
+
+  const storage = createStorage(config.storage);
+  try {
+    const result = await migrateLegacyJson(storage, { historyFilePath, usageFilePath });
+    console.log(`📦 Imported ${result.processedIssues} processed issues from ${historyFilePath}`);
+    console.log(`📦 ${result.apiUsage ? 'Imported' : 'Skipped'} API usage from ${usageFilePath}`);
+  } finally {
+    await storage.close();
+  }
+
+  return 0;
+}
+
+/**
+ * Print recorded API usage per day or month from the configured storage
+ */
+async function runUsageReport(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string' },
+      view: { type: 'string', default: 'daily' },
+      format: { type: 'string', default: 'table' },
+      periods: { type: 'string' },
+      top: { type: 'string' },
+      environment: { type: 'string' },
+    },
+  });
+
+  if (values.view !== 'daily' && values.view !== 'monthly') {
+    throw new Error('--view must be daily or monthly');
+  }
+  if (values.format !== 'table' && values.format !== 'csv' && values.format !== 'json') {
+    throw new Error('--format must be table, csv or json');
+  }
+
+  const config = values.config
+    ? loadRoutingConfigFile(values.config, values.environment)
+    : ConfigManager.getInstance().getConfig(values.environment);
+
+  const usageConfig = resolveApiUsageConfig(config, process.cwd());
+  const monitor = new ApiUsageMonitor(usageConfig);
+  try {
+    const report = buildUsageReport(await monitor.getUsageData(), usageConfig.limits, {
+      view: values.view as UsageReportView,
+      ...(values.periods !== undefined && { periods: parsePositiveInt(values.periods, '--periods') }),
+      ...(values.top !== undefined && { top: parsePositiveInt(values.top, '--top') }),
+    });
+    console.log(formatUsageReport(report, values.format as UsageReportFormat));
+  } finally {
+    await monitor.close();
+  }
+
+  return 0;
+}
+
+/**
+ * Show what is waiting in the priority queues
+ */
+async function runQueue(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      environment: { type: 'string' },
+    },
+  });
+
+  const config = values.config
+    ? loadRoutingConfigFile(values.config, values.environment)
+    : ConfigManager.getInstance().getConfig(values.environment);
+
+  const processor = new PriorityProcessor(resolvePriorityConfig(config, process.cwd()));
+  try {
+    const queued = await processor.inspectQueues();
+    console.log(values.json ? JSON.stringify(queued, null, 2) : formatQueue(queued));
+  } finally {
+    await processor.close();
+  }
+
+  return 0;
+}
+
+/**
+ * Route deferred issues (when usage allows) and due batches; exits 1 while any issue is stuck
+ */
+async function runDrain(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'router-repo': { type: 'string' },
+      config: { type: 'string' },
+      max: { type: 'string' },
+      environment: { type: 'string' },
+    },
+  });
+
+  const githubToken = process.env.GITHUB_TOKEN;
+  if (!githubToken) {
+    throw new Error('GITHUB_TOKEN environment variable is required');
+  }
+
+  const config = values.config
+    ? loadRoutingConfigFile(values.config, values.environment)
+    : ConfigManager.getInstance().getConfig(values.environment);
+
+  const projectErrors = await checkProjectFields(config, githubToken);
+  if (projectErrors.length > 0) {
+    printProjectErrors(projectErrors);
+    return 1;
+  }
+
+  // One router for the whole drain, so batched classifications carry over to routeIssue
+  let router: IssueRouter | null = null;
+  const routerFor = (issue: IssueData): IssueRouter => router ??= createRouter({
+    config,
+    issue,
+    gitHubToken: githubToken,
+    ...(process.env.OPENAI_API_KEY !== undefined && { openAIApiKey: process.env.OPENAI_API_KEY }),
+  });
+
+  const processor = new PriorityProcessor(resolvePriorityConfig(config, process.cwd()));
+  try {
+    await processor.initialize();
+    const result = await processor.drain(await checkCurrentUsage(config), async candidate => {
+      const routerRepo = candidate.routerRepo ?? values['router-repo'];
+      if (!routerRepo) {
+        throw new Error('No router repo recorded for the issue; pass --router-repo');
+      }
+
+      const routed = await routerFor(candidate.issue).routeIssue(candidate.issue, routerRepo);
+      if (!routed.success) {
+        throw new Error(routed.error ?? 'Routing failed');
+      }
+    }, {
+      ...(values.max !== undefined && { maxIssues: parsePositiveInt(values.max, '--max') }),
+      prepare: async candidates => {
+        const [first] = candidates;
+        if (!first) {
+          return;
+        }
+        const classified = await routerFor(first.issue).preclassifyBatch(candidates.map(c => c.issue));
+        if (classified > 0) {
+          console.log(`🧮 Classified ${classified} issue(s) in one batch`);
+        }
+      },
+    });
+
+    console.log(`✅ Routed ${result.routed.length}, ❌ failed ${result.failed.length}, ${result.remaining} still queued`);
+    result.failed.forEach(failure => console.log(`  ❌ ${failure.id}: ${failure.error}`));
+
+    if (result.stuck.length > 0) {
+      console.log(`\n🚨 ${result.stuck.length} stuck issue(s):`);
+      result.stuck.forEach(entry => console.log(`  ${entry.id} (${entry.queue}): ${entry.stuckReason}`));
+      return 1;
+    }
+  } finally {
+    await processor.close();
+  }
+
+  return 0;
+}
+
+/**
+ * Fit priority scoring to labelled issues and print accuracy before and after
+ */
+async function runCalibratePriority(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      corpus: { type: 'string' },
+      config: { type: 'string' },
+      passes: { type: 'string' },
+      environment: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.corpus) {
+    throw new Error('--corpus is required');
+  }
+
+  const config = values.config
+    ? loadRoutingConfigFile(values.config, values.environment)
+    : ConfigManager.getInstance().getConfig(values.environment);
+
+  const result = calibratePriorityScoring(loadPriorityCorpus(values.corpus), resolvePriorityConfig(config, process.cwd()), {
+    ...(values.passes !== undefined && { maxPasses: parsePositiveInt(values.passes, '--passes') }),
+  });
+  console.log(values.json ? JSON.stringify(result, null, 2) : formatCalibrationReport(result));
+
+  return 0;
+}
+
+/**
+ * Fail when a configured project, field, option or iteration does not exist
+ */
+async function runCheckProject(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string' },
+      environment: { type: 'string' },
+    },
+  });
+
+  const githubToken = process.env.GITHUB_TOKEN;
+  if (!githubToken) {
+    throw new Error('GITHUB_TOKEN environment variable is required');
+  }
+
+  const config = values.config
+    ? loadRoutingConfigFile(values.config, values.environment)
+    : ConfigManager.getInstance().getConfig(values.environment);
+
+  const { projects, errors } = await new ProjectsApiClient(githubToken).checkProjectConfig(config);
+  if (errors.length > 0) {
+    printProjectErrors(errors);
+    return 1;
+  }
+
+  if (projects.size === 0) {
+    console.log('No projects configured, nothing to check');
+    return 0;
+  }
+
+  console.log(`✅ Project fields match ${Array.from(projects.keys()).join(', ')}`);
+  return 0;
+}
+
+/**
+ * Announce progress on routed issues once; exits 1 when any item could not be read or announced
+ */
+async function runSyncStatus(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      config: { type: 'string' },
+      environment: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const githubToken = process.env.GITHUB_TOKEN;
+  if (!githubToken) {
+    throw new Error('GITHUB_TOKEN environment variable is required');
+  }
+
+  const config = values.config
+    ? loadRoutingConfigFile(values.config, values.environment)
+    : ConfigManager.getInstance().getConfig(values.environment);
+
+  if (!config.reverseSync?.enabled) {
+    console.log('reverseSync is not enabled, nothing to sync');
+    return 0;
+  }
+
+  const sync = new ReverseSync(resolveReverseSyncConfig(config, process.cwd()), {
+    github: new GitHubApiClient(githubToken, config),
+    projects: new ProjectsApiClient(githubToken),
+  });
+
+  try {
+    const result = await sync.sync();
+
+    if (values.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      console.log(`🔁 Checked ${result.checked}, announced ${result.announced.length}, finished ${result.finished}, purged ${result.purged}`);
+      result.announced.forEach(update => console.log(`  📣 ${update.id} (${update.destination}): ${update.changes.join('; ')}`));
+      result.failed.forEach(failure => console.log(`  ❌ ${failure.id}${failure.destination ? ` (${failure.destination})` : ''}: ${failure.error}`));
+    }
+
+    return result.failed.length > 0 ? 1 : 0;
+  } finally {
+    await sync.close();
+  }
+}
+
+/**
+ * Configuration errors against the live projects (none without configured projects)
+ */
+async function checkProjectFields(config: RoutingConfig, githubToken: string): Promise<string[]> {
+  return (await new ProjectsApiClient(githubToken).checkProjectConfig(config)).errors;
+}
+
+function printProjectErrors(errors: string[]): void {
+  console.error(`❌ ${errors.length} project configuration error(s):`);
+  errors.forEach(error => console.error(`  ${error}`));
+}
+
+/**
+ * Current API usage, for priority decisions
+ */
+async function checkCurrentUsage(config: RoutingConfig): Promise<UsageCheckResult> {
+  const monitor = new ApiUsageMonitor(resolveApiUsageConfig(config, process.cwd()));
+  try {
+    return await monitor.checkUsageLimits(0, 0);
+  } finally {
+    await monitor.close();
+  }
+}
+
+function formatQueue(queued: QueueInspection[]): string {
+  if (queued.length === 0) {
+    return '📭 Priority queues are empty';
+  }
+
+  const lines = [`${queued.length} queued issue(s), oldest first:`];
+  for (const entry of queued) {
+    const marker = entry.stuck ? '🚨' : entry.claimed ? '🔄' : entry.queue === 'deferred' ? '⏳' : '📥';
+    lines.push(`${marker} [${entry.queue}/${entry.category}] ${entry.title}`);
+    lines.push(`    ${entry.id}`);
+    lines.push(`    since ${entry.addedAt} (${entry.waitingHours}h), ${entry.attempts} failed attempt(s)`);
+    lines.push(`    why: ${entry.reason}`);
+    if (entry.lastError) {
+      lines.push(`    last error: ${entry.lastError}`);
+    }
+    if (entry.stuckReason) {
+      lines.push(`    stuck: ${entry.stuckReason}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function parsePositiveInt(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${flag} must be a positive integer`);
+  }
+  return parsed;
+}
+
+function printUsage(): void {
+  console.log('Usage: routing-cli <command> [options]\n');
+  for (const [name, command] of Object.entries(commands)) {
+    console.log(`  ${name.padEnd(12)} ${command.description}`);
+    console.log(`  ${''.padEnd(12)} ${command.usage}\n`);
+  }
+}
+
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  const [name, ...args] = argv;
+  const command = name ? commands[name] : undefined;
+
+  if (!command) {
+    printUsage();
+    return name && name !== 'help' && name !== '--help' ? 1 : 0;
+  }
+
+  try {
+    return await command.run(args);
+  } catch (error) {
+    console.error(`❌ ${name} failed:`, error instanceof Error ? error.message : error);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main().then(code => process.exit(code));
+}
@@ -127,6 +127,13 @@ export class ConfigManager {
     return cleaned;
   }
 
+  /**
+   * Load a specific configuration file without touching the shared instance
+   */
+  static loadConfigFile(filePath: string, environment?: string): RoutingConfig {
+    return new ConfigManager(filePath).loadConfig(environment);
+  }
+
   /**
    * Validate configuration file without loading
    */
@@ -258,6 +265,13 @@ export function loadRoutingConfig(environment?: string): RoutingConfig {
   return manager.getConfigWithEnvironment(environment);
 }
 
+/**
+ * Load configuration from an explicit file path
+ */
+export function loadRoutingConfigFile(filePath: string, environment?: string): RoutingConfig {
+  return ConfigManager.loadConfigFile(filePath, environment);
+}
+
 /**
  * Validate a configuration file
  */
@@ -4,113 +4,140 @@
  */
 
 import crypto from 'crypto';
-import fs from 'fs/promises';
 import path from 'path';
-import type { IssueData, DuplicateCheckResult, ProcessingHistory } from './types';
+import {
+  ClassificationResultSchema,
+  type ClassificationResult,
+  type EditDetails,
+  type HistoryCheckResult,
+  type HistoryDuplicate,
+  type IssueData,
+  type NoDuplicate,
+} from './types';
+import { rankBySimilarity, type SimilarityOptions } from './similarity';
+import {
+  FileStorage,
+  STORAGE_NAMESPACES,
+  createStorage,
+  migrateLegacyJson,
+  type StorageBackend,
+  type StorageConfig,
+  type StorageRecords,
+} from './storage';
 
 export interface DuplicateDetectorConfig {
   enabled: boolean;
   lookbackDays: number;
   editThreshold: number; // 0.1 = 10% change required to reprocess
   skipEditedWithinHours: number;
-  historyFilePath: string;
+  historyFilePath: string; // legacy JSON, imported into storage on first use
   maxHistoryEntries: number;
+  storage?: StorageConfig; // defaults to the file backend next to historyFilePath
+  similarity?: SimilarityOptions; // also match reworded issues against history snapshots
 }
 
 export interface ProcessedIssue {
   issueId: string;
   contentHash: string;
   processedAt: string;
-  classification: any;
+  classification: ClassificationResult; // read back from storage unchecked; validate before reuse
   apiCalls: number;
   routingResult: 'success' | 'failed';
   slackPermalink?: string;
   editCount: number;
   lastEditAt?: string;
+  contentSnapshot?: string; // normalized title + body, for edit-distance checks
 }
 
+const SNAPSHOT_MAX_LENGTH = 2000;
+
 export class DuplicateDetector {
   private config: DuplicateDetectorConfig;
   private historyCache: Map<string, ProcessedIssue> = new Map();
   private hashIndex: Map<string, string[]> = new Map(); // hash -> issue IDs
+  private storage: StorageBackend;
 
   constructor(config: DuplicateDetectorConfig) {
     this.config = config;
+    this.storage = config.storage
+      ? createStorage(config.storage)
+      : new FileStorage(path.dirname(config.historyFilePath));
   }
 
   /**
-   * Initialize detector by loading processing history
+   * Initialize detector by loading processing history. Storage and migration errors
+   * propagate: starting from an empty history would reclassify everything and
+   * overwrite the stored entries on the next write.
    */
   async initialize(): Promise<void> {
-    try {
-      await this.loadProcessingHistory();
-      console.log(`📋 Loaded ${this.historyCache.size} processed issues from history`);
-    } catch (error) {
-      console.warn('⚠️ Failed to load processing history, starting fresh:', error);
-      await this.saveProcessingHistory();
-    }
+    await this.loadProcessingHistory();
+    console.log(`📋 Loaded ${this.historyCache.size} processed issues from history (${this.storage.kind} storage)`);
+  }
+
+  /**
+   * Release the storage backend
+   */
+  async close(): Promise<void> {
+    await this.storage.close();
   }
 
   /**
    * Check if issue is duplicate and should be skipped
    */
-  async checkDuplicate(issue: IssueData): Promise<DuplicateCheckResult> {
+  async checkDuplicate(issue: IssueData): Promise<HistoryCheckResult> {
     if (!this.config.enabled) {
-      return { isDuplicate: false, reason: 'duplicate-detection-disabled' };
+      return { isDuplicate: false, method: 'history', reason: 'duplicate-detection-disabled', confidence: 0 };
     }
 
     const contentHash = this.generateContentHash(issue);
     const issueKey = this.getIssueKey(issue);
 
     // Check for exact content match
-    const existingIssuesWithHash = this.hashIndex.get(contentHash) || [];
-    if (existingIssuesWithHash.length > 0) {
-      const existingIssue = this.historyCache.get(existingIssuesWithHash[0]);
-      if (existingIssue && this.isWithinLookbackPeriod(existingIssue.processedAt)) {
-        return {
-          isDuplicate: true,
-          reason: 'exact-content-match',
-          existingIssue: {
-            id: existingIssue.issueId,
-            processedAt: existingIssue.processedAt,
-            classification: existingIssue.classification,
-            url: `#${existingIssue.issueId}`
-          },
-          savedApiCalls: 1
-        };
-      }
+    const [firstWithHash] = this.hashIndex.get(contentHash) || [];
+    const existingIssue = firstWithHash !== undefined ? this.historyCache.get(firstWithHash) : undefined;
+    const exactMatch = existingIssue && this.isWithinLookbackPeriod(existingIssue.processedAt)
+      ? this.historyDuplicate(existingIssue, 'exact-content-match', 1)
+      : undefined;
+    if (exactMatch) {
+      return exactMatch;
     }
 
     // Check for issue edit (same issue ID but potentially different content)
     const existingProcessed = this.historyCache.get(issueKey);
+    let editDetails: EditDetails | undefined;
     if (existingProcessed) {
-      const editResult = this.checkEditSignificance(issue, existingProcessed);
-      if (!editResult.requiresReprocessing) {
-        return {
-          isDuplicate: true,
-          reason: 'minor-edit',
-          existingIssue: {
-            id: existingProcessed.issueId,
-            processedAt: existingProcessed.processedAt,
-            classification: existingProcessed.classification,
-            url: `#${existingProcessed.issueId}`
-          },
-          savedApiCalls: 1,
-          editDetails: editResult
-        };
+      editDetails = this.checkEditSignificance(issue, existingProcessed);
+      const minorEdit = editDetails.requiresReprocessing
+        ? undefined
+        : this.historyDuplicate(existingProcessed, 'minor-edit', 1 - editDetails.editDistance);
+      if (minorEdit) {
+        return { ...minorEdit, editDetails };
       }
     }
 
     // Check for Slack permalink duplicates
     if (issue.slackPermalink) {
-      const slackDuplicate = await this.checkSlackPermalinkDuplicate(issue.slackPermalink);
-      if (slackDuplicate.isDuplicate) {
+      const slackDuplicate = this.checkSlackPermalinkDuplicate(issue.slackPermalink);
+      if (slackDuplicate) {
         return slackDuplicate;
       }
     }
 
+    // Reworded reports of other recent issues are only a signal: another issue's
+    // routing decision and text are never reused, so the issue is still classified
+    const similar = this.config.similarity
+      ? this.checkSimilarContent(issue, issueKey, this.config.similarity)
+      : undefined;
+
     // No duplicate found
-    return { isDuplicate: false, reason: 'no-duplicate-found' };
+    return {
+      isDuplicate: false,
+      method: 'history',
+      reason: editDetails ? 'significant-edit' : similar?.reason ?? 'no-duplicate-found',
+      confidence: similar?.confidence ?? 0,
+      ...(editDetails && { editDetails }),
+      ...(similar?.candidates && { candidates: similar.candidates })
+    };
   }
 
   /**
@@ -118,38 +145,41 @@ export class DuplicateDetector {
    */
   async recordProcessing(
     issue: IssueData,
-    classification: any,
+    classification: ClassificationResult,
     apiCalls: number,
     routingResult: 'success' | 'failed'
   ): Promise<void> {
     const contentHash = this.generateContentHash(issue);
     const issueKey = this.getIssueKey(issue);
     const now = new Date().toISOString();
+    const contentSnapshot = this.createContentSnapshot(issue);
+
+    // Read-modify-write under the storage lock so concurrent runs never drop each other's entries
+    const records = await this.storage.update<ProcessedIssue, StorageRecords<ProcessedIssue>>(
+      STORAGE_NAMESPACES.processingHistory,
+      records => {
+        const previous = records[issueKey];
+        const edited = previous !== undefined && previous.contentHash !== contentHash;
+
+        records[issueKey] = {
+          issueId: issueKey,
+          contentHash,
+          processedAt: now,
+          classification,
+          apiCalls,
+          routingResult,
+          ...(issue.slackPermalink && { slackPermalink: issue.slackPermalink }),
+          editCount: (previous?.editCount ?? 0) + (edited ? 1 : 0),
+          lastEditAt: now,
+          contentSnapshot
+        };
 
-    const processedIssue: ProcessedIssue = {
-      issueId: issueKey,
-      contentHash,
-      processedAt: now,
-      classification,
-      apiCalls,
-      routingResult,
-      slackPermalink: issue.slackPermalink,
-      editCount: 0,
-      lastEditAt: now
-    };
-
-    // Update caches
-    this.historyCache.set(issueKey, processedIssue);
-    
-    // Update hash index
-    const existingIssues = this.hashIndex.get(contentHash) || [];
-    if (!existingIssues.includes(issueKey)) {
-      existingIssues.push(issueKey);
-      this.hashIndex.set(contentHash, existingIssues);
-    }
+        this.pruneHistory(records);
+        return { ...records };
+      }
+    );
 
-    // Persist to disk
-    await this.saveProcessingHistory();
+    this.rebuildCache(records);
 
     console.log(`✅ Recorded processing for issue ${issueKey} (hash: ${contentHash.substring(0, 8)})`);
   }
@@ -173,6 +203,14 @@ export class DuplicateDetector {
     return crypto.createHash('sha256').update(content).digest('hex');
   }
 
+  /**
+   * Normalized, length-capped copy of the issue text kept for edit comparisons
+   */
+  private createContentSnapshot(issue: IssueData): string {
+    const text = `${issue.title}\n${issue.body || ''}`.toLowerCase().replace(/\s+/g, ' ').trim();
+    return text.substring(0, SNAPSHOT_MAX_LENGTH);
+  }
+
   /**
    * Get unique key for issue
    */
@@ -189,12 +227,7 @@ export class DuplicateDetector {
   /**
    * Check if edit is significant enough to require reprocessing
    */
-  private checkEditSignificance(issue: IssueData, existingProcessed: ProcessedIssue): {
-    requiresReprocessing: boolean;
-    editDistance: number;
-    timeSinceLastEdit: number;
-    reason: string;
-  } {
+  private checkEditSignificance(issue: IssueData, existingProcessed: ProcessedIssue): EditDetails {
     const newHash = this.generateContentHash(issue);
     const timeSinceLastEdit = Date.now() - new Date(existingProcessed.lastEditAt || existingProcessed.processedAt).getTime();
     const hoursThreshold = this.config.skipEditedWithinHours * 60 * 60 * 1000;
@@ -219,12 +252,10 @@ export class DuplicateDetector {
       };
     }
 
-    // Calculate edit distance (simplified Levenshtein ratio)
-    const editDistance = this.calculateEditDistance(
-      issue.title + (issue.body || ''),
-      // We don't have the original content, so assume significant change
-      ''
-    );
+    // Entries recorded before snapshots existed can't be compared: assume a significant change
+    const editDistance = existingProcessed.contentSnapshot === undefined
+      ? 1
+      : this.calculateEditDistance(this.createContentSnapshot(issue), existingProcessed.contentSnapshot);
 
     const requiresReprocessing = editDistance > this.config.editThreshold;
 
@@ -239,25 +270,77 @@ export class DuplicateDetector {
   /**
    * Check for Slack permalink duplicates
    */
-  private async checkSlackPermalinkDuplicate(permalink: string): Promise<DuplicateCheckResult> {
-    for (const [issueKey, processedIssue] of this.historyCache.entries()) {
+  private checkSlackPermalinkDuplicate(permalink: string): HistoryDuplicate | undefined {
+    for (const processedIssue of this.historyCache.values()) {
       if (processedIssue.slackPermalink === permalink && 
           this.isWithinLookbackPeriod(processedIssue.processedAt)) {
-        return {
-          isDuplicate: true,
-          reason: 'slack-permalink-match',
-          existingIssue: {
-            id: processedIssue.issueId,
-            processedAt: processedIssue.processedAt,
-            classification: processedIssue.classification,
-            url: `#${processedIssue.issueId}`
-          },
-          savedApiCalls: 1
-        };
+        const duplicate = this.historyDuplicate(processedIssue, 'slack-permalink-match', 0.95);
+        if (duplicate) {
+          return duplicate;
+        }
       }
     }
 
-    return { isDuplicate: false, reason: 'no-slack-duplicate' };
+    return undefined;
+  }
+
+  /**
+   * Rank recent history snapshots of other issues by similarity to the issue;
+   * `similar-content` when the best one reaches the threshold
+   */
+  private checkSimilarContent(issue: IssueData, issueKey: string, options: SimilarityOptions): NoDuplicate {
+    const history = Array.from(this.historyCache.values()).filter(processed =>
+      processed.issueId !== issueKey &&
+      processed.contentSnapshot !== undefined &&
+      this.isWithinLookbackPeriod(processed.processedAt)
+    );
+
+    const matches = rankBySimilarity(
+      { id: issueKey, title: '', body: this.createContentSnapshot(issue) },
+      history.map(processed => ({ id: processed.issueId, title: '', body: processed.contentSnapshot ?? '' })),
+      options
+    );
+
+    const candidates = matches.map(match => ({
+      id: match.id,
+      url: `#${match.id}`,
+      title: this.historyCache.get(match.id)?.contentSnapshot?.substring(0, 80) ?? '',
+      score: match.score
+    }));
+
+    const best = candidates[0];
+    return {
+      isDuplicate: false,
+      method: 'history',
+      reason: best && best.score >= options.threshold ? 'similar-content' : 'no-duplicate-found',
+      confidence: best?.score ?? 0,
+      candidates,
+    };
+  }
+
+  /**
+   * Duplicate result pointing at a processed issue, or undefined when its stored
+   * classification no longer matches the schema and the issue must be reclassified
+   */
+  private historyDuplicate(processed: ProcessedIssue, reason: string, confidence: number): HistoryDuplicate | undefined {
+    const parsed = ClassificationResultSchema.safeParse(processed.classification);
+    if (!parsed.success) {
+      return undefined;
+    }
+
+    return {
+      isDuplicate: true,
+      method: 'history',
+      reason,
+      confidence,
+      existingIssue: {
+        id: processed.issueId,
+        processedAt: processed.processedAt,
+        classification: parsed.data,
+        url: `#${processed.issueId}`
+      },
+      savedApiCalls: Math.max(1, processed.apiCalls)
+    };
   }
 
   /**
@@ -270,96 +353,83 @@ export class DuplicateDetector {
   }
 
   /**
-   * Calculate edit distance (simplified Levenshtein)
+   * Calculate edit distance as a ratio (Levenshtein distance / longer length, 0..1)
    */
   private calculateEditDistance(str1: string, str2: string): number {
     const len1 = str1.length;
     const len2 = str2.length;
     
-    if (len1 === 0) return len2;
-    if (len2 === 0) return len1;
+    if (len1 === 0 && len2 === 0) return 0;
+    if (len1 === 0 || len2 === 0) return 1;
+
+    // Two-row dynamic programming to keep memory linear
+    let previous = Array.from({ length: len2 + 1 }, (_, j) => j);
+    let current = new Array<number>(len2 + 1).fill(0);
+
+    for (let i = 1; i <= len1; i++) {
+      current[0] = i;
+      for (let j = 1; j <= len2; j++) {
+        const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+        current[j] = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost);
+      }
+      [previous, current] = [current, previous];
+    }
 
-    // Simplified ratio for performance
-    const maxLen = Math.max(len1, len2);
-    const minLen = Math.min(len1, len2);
-    
-    return 1 - (minLen / maxLen);
+    return (previous[len2] ?? 0) / Math.max(len1, len2);
   }
 
   /**
-   * Load processing history from disk
+   * Load processing history from storage, importing the legacy JSON file on first use
    */
   private async loadProcessingHistory(): Promise<void> {
-    const historyExists = await fs.access(this.config.historyFilePath).then(() => true).catch(() => false);
-    
-    if (!historyExists) {
-      return;
-    }
-
-    const historyData = await fs.readFile(this.config.historyFilePath, 'utf8');
-    const history: ProcessingHistory = JSON.parse(historyData);
+    let records = await this.storage.load<ProcessedIssue>(STORAGE_NAMESPACES.processingHistory);
 
-    // Load into cache
-    for (const [issueKey, processedIssue] of Object.entries(history.processedIssues)) {
-      this.historyCache.set(issueKey, processedIssue);
-      
-      // Build hash index
-      const existingIssues = this.hashIndex.get(processedIssue.contentHash) || [];
-      existingIssues.push(issueKey);
-      this.hashIndex.set(processedIssue.contentHash, existingIssues);
+    if (Object.keys(records).length === 0) {
+      const migrated = await migrateLegacyJson(this.storage, { historyFilePath: this.config.historyFilePath });
+      if (migrated.processedIssues > 0) {
+        console.log(`📦 Migrated ${migrated.processedIssues} entries from ${this.config.historyFilePath}`);
+        records = await this.storage.load<ProcessedIssue>(STORAGE_NAMESPACES.processingHistory);
+      }
     }
+
+    this.rebuildCache(records);
   }
 
   /**
-   * Save processing history to disk
+   * Drop entries outside the lookback window, then the oldest beyond maxHistoryEntries
    */
-  private async saveProcessingHistory(): Promise<void> {
-    // Cleanup old entries
+  private pruneHistory(records: StorageRecords<ProcessedIssue>): void {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - this.config.lookbackDays);
     const cutoffMs = cutoffDate.getTime();
 
-    const cleanHistory = new Map<string, ProcessedIssue>();
-    for (const [key, issue] of this.historyCache.entries()) {
-      if (new Date(issue.processedAt).getTime() > cutoffMs) {
-        cleanHistory.set(key, issue);
+    for (const [key, issue] of Object.entries(records)) {
+      if (new Date(issue.processedAt).getTime() <= cutoffMs) {
+        delete records[key];
       }
     }
 
-    // Limit total entries
-    if (cleanHistory.size > this.config.maxHistoryEntries) {
-      const sortedEntries = Array.from(cleanHistory.entries())
-        .sort(([,a], [,b]) => new Date(b.processedAt).getTime() - new Date(a.processedAt).getTime())
-        .slice(0, this.config.maxHistoryEntries);
-      
-      cleanHistory.clear();
-      sortedEntries.forEach(([key, value]) => cleanHistory.set(key, value));
+    const entries = Object.entries(records);
+    if (entries.length > this.config.maxHistoryEntries) {
+      entries
+        .sort(([, a], [, b]) => new Date(b.processedAt).getTime() - new Date(a.processedAt).getTime())
+        .slice(this.config.maxHistoryEntries)
+        .forEach(([key]) => delete records[key]);
     }
+  }
 
-    this.historyCache = cleanHistory;
-
-    // Rebuild hash index
+  /**
+   * Replace the in-memory cache and hash index with persisted records
+   */
+  private rebuildCache(records: StorageRecords<ProcessedIssue>): void {
+    this.historyCache = new Map(Object.entries(records));
     this.hashIndex.clear();
+
     for (const [issueKey, processedIssue] of this.historyCache.entries()) {
       const existingIssues = this.hashIndex.get(processedIssue.contentHash) || [];
       existingIssues.push(issueKey);
       this.hashIndex.set(processedIssue.contentHash, existingIssues);
     }
-
-    // Save to disk
-    const historyData: ProcessingHistory = {
-      version: '1.0',
-      lastCleanup: new Date().toISOString(),
-      settings: {
-        lookbackDays: this.config.lookbackDays,
-        editThreshold: this.config.editThreshold,
-        maxHistoryEntries: this.config.maxHistoryEntries
-      },
-      processedIssues: Object.fromEntries(this.historyCache)
-    };
-
-    await fs.mkdir(path.dirname(this.config.historyFilePath), { recursive: true });
-    await fs.writeFile(this.config.historyFilePath, JSON.stringify(historyData, null, 2));
   }
 
   /**
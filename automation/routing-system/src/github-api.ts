@@ -2,15 +2,24 @@
  * GitHub API client for issue management
  */
 
-import { Octokit } from '@octokit/rest';
+import { Octokit, type RestEndpointMethodTypes } from '@octokit/rest';
 import type {
   ClassificationResult,
-  DuplicateCheckResult,
+  DuplicatePolicy,
+  GitHubDuplicateCheckResult,
   GitHubOperationResult,
   IssueData,
+  NoDuplicate,
   RoutingConfig,
 } from './types';
 import { createHash } from 'crypto';
+import { DEFAULT_SIMILARITY_OPTIONS, rankBySimilarity } from './similarity';
+
+// GitHub accepts `duplicate` as a close reason, but the @octokit/rest 20 types predate it
+type IssueStateReason = NonNullable<RestEndpointMethodTypes['issues']['update']['parameters']['state_reason']> | 'duplicate';
+
+const REPORTERS_START = '<!-- routing:reporters -->';
+const REPORTERS_END = '<!-- /routing:reporters -->';
 
 export class GitHubApiClient {
   private octokit: Octokit;
@@ -129,43 +138,205 @@ export class GitHubApiClient {
     }
   }
 
+  /**
+   * Apply a duplicate policy to an existing issue; `details.policy` and the
+   * policy-specific fields (reopened, sourceClosed, reporters) describe what was done
+   */
+  async applyDuplicatePolicy(
+    policy: DuplicatePolicy,
+    repo: string,
+    issueNumber: number,
+    classification: ClassificationResult,
+    sourceIssue: IssueData,
+    routerRepo: string
+  ): Promise<GitHubOperationResult> {
+    if (policy === 'comment') {
+      const result = await this.updateIssue(repo, issueNumber, classification, sourceIssue);
+      return { ...result, details: { ...result.details, policy } };
+    }
+
+    try {
+      const [owner, repoName] = repo.split('/');
+      if (!owner || !repoName) {
+        throw new Error(`Invalid repository format: ${repo}`);
+      }
+
+      const currentIssue = await this.octokit.rest.issues.get({
+        owner,
+        repo: repoName,
+        issue_number: issueNumber,
+      });
+
+      const existingLabels = currentIssue.data.labels.map(label =>
+        typeof label === 'string' ? label : label.name
+      ).filter(Boolean) as string[];
+      const labels = Array.from(new Set([...existingLabels, ...classification.labels]));
+      const labelsChanged = labels.length > existingLabels.length;
+
+      const details: Record<string, unknown> = {
+        policy,
+        duplicateOf: currentIssue.data.html_url,
+        labelsAdded: labels.length - existingLabels.length,
+      };
+
+      switch (policy) {
+        case 'reopen': {
+          const wasClosed = currentIssue.data.state === 'closed';
+          const commentResponse = await this.octokit.rest.issues.createComment({
+            owner,
+            repo: repoName,
+            issue_number: issueNumber,
+            body: this.createUpdateComment(classification, sourceIssue),
+          });
+
+          if (wasClosed || labelsChanged) {
+            await this.octokit.rest.issues.update({
+              owner,
+              repo: repoName,
+              issue_number: issueNumber,
+              labels,
+              ...(wasClosed && { state: 'open' as const, state_reason: 'reopened' as const }),
+            });
+          }
+
+          details.commentId = commentResponse.data.id;
+          details.reopened = wasClosed;
+          break;
+        }
+
+        case 'merge-reporters': {
+          const { body, reporters, added } = this.mergeReporters(currentIssue.data.body ?? '', sourceIssue);
+          if (added || labelsChanged) {
+            await this.octokit.rest.issues.update({
+              owner,
+              repo: repoName,
+              issue_number: issueNumber,
+              body,
+              labels,
+            });
+          }
+
+          details.reporters = reporters;
+          details.reporterAdded = added;
+          break;
+        }
+
+        case 'close-as-duplicate': {
+          if (labelsChanged) {
+            await this.octokit.rest.issues.update({ owner, repo: repoName, issue_number: issueNumber, labels });
+          }
+
+          const [routerOwner, routerRepoName] = routerRepo.split('/');
+          if (!routerOwner || !routerRepoName) {
+            throw new Error(`Invalid repository format: ${routerRepo}`);
+          }
+
+          // Mentioning the existing issue also links it back in its timeline
+          await this.octokit.rest.issues.createComment({
+            owner: routerOwner,
+            repo: routerRepoName,
+            issue_number: sourceIssue.number,
+            body: `🔁 **Duplicate of ${repo}#${issueNumber}**\n\n${currentIssue.data.html_url}\n\n*Automatically closed by routing system*`,
+          });
+          // addLabels keeps the labels the issue already has; update({ labels }) would replace them
+          await this.octokit.rest.issues.addLabels({
+            owner: routerOwner,
+            repo: routerRepoName,
+            issue_number: sourceIssue.number,
+            labels: ['duplicate', 'automated'],
+          });
+          // issues.update rejects `duplicate` at the type level, so send the PATCH directly
+          const stateReason: IssueStateReason = 'duplicate';
+          await this.octokit.request({
+            method: 'PATCH',
+            url: '/repos/{owner}/{repo}/issues/{issue_number}',
+            owner: routerOwner,
+            repo: routerRepoName,
+            issue_number: sourceIssue.number,
+            state: 'closed',
+            state_reason: stateReason,
+          });
+
+          details.sourceClosed = true;
+          details.sourceIssue = `${routerRepo}#${sourceIssue.number}`;
+          break;
+        }
+      }
+
+      return {
+        success: true,
+        issueNumber,
+        issueUrl: currentIssue.data.html_url,
+        details,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error handling duplicate issue',
+        details: { policy, repo, issueNumber },
+      };
+    }
+  }
+
   /**
    * Check for duplicate issues
    */
   async checkForDuplicates(
     sourceIssue: IssueData,
     targetRepo: string
-  ): Promise<DuplicateCheckResult> {
+  ): Promise<GitHubDuplicateCheckResult> {
     const { duplicateDetection } = this.config;
     if (!duplicateDetection?.enabled) {
       return {
         isDuplicate: false,
         method: 'none',
+        reason: 'duplicate-detection-disabled',
         confidence: 0,
       };
     }
 
+    // Misses are kept so a failed search is reported instead of looking like "no duplicate"
+    const misses: NoDuplicate[] = [];
+
     try {
       // Check by Slack permalink first (most reliable)
       if (sourceIssue.slackPermalink && 
-          (duplicateDetection.method === 'slack-permalink' || duplicateDetection.method === 'both')) {
+          ['slack-permalink', 'both', 'all'].includes(duplicateDetection.method)) {
         const slackResult = await this.findBySlackPermalink(sourceIssue.slackPermalink, targetRepo);
         if (slackResult.isDuplicate) {
           return slackResult;
         }
+        misses.push(slackResult);
       }
 
       // Check by content hash
-      if (duplicateDetection.method === 'content-hash' || duplicateDetection.method === 'both') {
+      if (duplicateDetection.method === 'content-hash' || duplicateDetection.method === 'both' || duplicateDetection.method === 'all') {
         const hashResult = await this.findByContentHash(sourceIssue, targetRepo);
         if (hashResult.isDuplicate) {
           return hashResult;
         }
+        misses.push(hashResult);
       }
 
-      return {
+      // Check by text similarity against recent issues (catches reworded reports)
+      if (duplicateDetection.method === 'similarity' || duplicateDetection.method === 'all') {
+        const similarityResult = await this.findBySimilarity(sourceIssue, targetRepo);
+        if (similarityResult.isDuplicate) {
+          return similarityResult;
+        }
+        misses.push(similarityResult);
+      }
+
+      // A failed search wins over near misses, which are still passed along
+      const failed = misses.find(miss => miss.reason.endsWith('-search-failed'));
+      const nearMisses = misses.find(miss => miss.candidates?.length);
+      if (failed) {
+        return { ...failed, ...(nearMisses?.candidates && { candidates: nearMisses.candidates }) };
+      }
+      return nearMisses ?? {
         isDuplicate: false,
         method: 'none',
+        reason: 'no-duplicate-found',
         confidence: 0,
       };
     } catch (error) {
@@ -173,6 +344,7 @@ export class GitHubApiClient {
       return {
         isDuplicate: false,
         method: 'none',
+        reason: 'duplicate-check-failed',
         confidence: 0,
       };
     }
@@ -184,10 +356,10 @@ export class GitHubApiClient {
   private async findBySlackPermalink(
     permalink: string,
     repo: string
-  ): Promise<DuplicateCheckResult> {
+  ): Promise<GitHubDuplicateCheckResult> {
     const [owner, repoName] = repo.split('/');
     if (!owner || !repoName) {
-      return { isDuplicate: false, method: 'slack-permalink', confidence: 0 };
+      return { isDuplicate: false, method: 'slack-permalink', reason: 'invalid-repository', confidence: 0 };
     }
 
     try {
@@ -199,10 +371,11 @@ export class GitHubApiClient {
         per_page: 5,
       });
 
-      if (response.data.total_count > 0) {
-        const issue = response.data.items[0];
+      const issue = response.data.items[0];
+      if (issue) {
         return {
           isDuplicate: true,
+          reason: 'slack-permalink-match',
           existingIssue: {
             number: issue.number,
             url: issue.html_url,
@@ -213,10 +386,10 @@ export class GitHubApiClient {
         };
       }
 
-      return { isDuplicate: false, method: 'slack-permalink', confidence: 0 };
+      return { isDuplicate: false, method: 'slack-permalink', reason: 'no-slack-permalink-match', confidence: 0 };
     } catch (error) {
       console.warn('Slack permalink search failed:', error);
-      return { isDuplicate: false, method: 'slack-permalink', confidence: 0 };
+      return { isDuplicate: false, method: 'slack-permalink', reason: 'slack-permalink-search-failed', confidence: 0 };
     }
   }
 
@@ -226,11 +399,11 @@ export class GitHubApiClient {
   private async findByContentHash(
     sourceIssue: IssueData,
     repo: string
-  ): Promise<DuplicateCheckResult> {
+  ): Promise<GitHubDuplicateCheckResult> {
     const contentHash = this.generateContentHash(sourceIssue);
     const [owner, repoName] = repo.split('/');
     if (!owner || !repoName) {
-      return { isDuplicate: false, method: 'content-hash', confidence: 0 };
+      return { isDuplicate: false, method: 'content-hash', reason: 'invalid-repository', confidence: 0 };
     }
 
     try {
@@ -242,10 +415,11 @@ export class GitHubApiClient {
         per_page: 5,
       });
 
-      if (response.data.total_count > 0) {
-        const issue = response.data.items[0];
+      const issue = response.data.items[0];
+      if (issue) {
         return {
           isDuplicate: true,
+          reason: 'content-hash-match',
           existingIssue: {
             number: issue.number,
             url: issue.html_url,
@@ -256,10 +430,71 @@ export class GitHubApiClient {
         };
       }
 
-      return { isDuplicate: false, method: 'content-hash', confidence: 0 };
+      return { isDuplicate: false, method: 'content-hash', reason: 'no-content-hash-match', confidence: 0 };
     } catch (error) {
       console.warn('Content hash search failed:', error);
-      return { isDuplicate: false, method: 'content-hash', confidence: 0 };
+      return { isDuplicate: false, method: 'content-hash', reason: 'content-hash-search-failed', confidence: 0 };
+    }
+  }
+
+  /**
+   * Find near-duplicates among recent issues in the target repo by local text similarity
+   */
+  private async findBySimilarity(
+    sourceIssue: IssueData,
+    repo: string
+  ): Promise<GitHubDuplicateCheckResult> {
+    const [owner, repoName] = repo.split('/');
+    if (!owner || !repoName) {
+      return { isDuplicate: false, method: 'similarity', reason: 'invalid-repository', confidence: 0 };
+    }
+
+    const settings = { ...DEFAULT_SIMILARITY_OPTIONS, recentIssues: 100, ...this.config.duplicateDetection?.similarity };
+    const lookbackDays = this.config.duplicateDetection?.lookbackDays ?? 30;
+
+    try {
+      const response = await this.octokit.rest.issues.listForRepo({
+        owner,
+        repo: repoName,
+        state: 'all',
+        since: new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString(),
+        sort: 'created',
+        direction: 'desc',
+        per_page: settings.recentIssues,
+      });
+
+      const issues = response.data.filter(issue => !issue.pull_request && issue.html_url !== sourceIssue.url);
+      const matches = rankBySimilarity(
+        { id: 'source', title: sourceIssue.title, body: sourceIssue.body },
+        issues.map(issue => ({ id: String(issue.number), title: issue.title, body: issue.body ?? '' })),
+        settings
+      );
+
+      const candidates = matches.flatMap(match => {
+        const issue = issues.find(candidate => String(candidate.number) === match.id);
+        return issue ? [{ id: match.id, url: issue.html_url, title: issue.title, score: match.score }] : [];
+      });
+
+      const best = candidates[0];
+      if (best && best.score >= settings.threshold) {
+        return {
+          isDuplicate: true,
+          reason: 'similar-content',
+          existingIssue: {
+            number: Number(best.id),
+            url: best.url,
+            repo,
+          },
+          method: 'similarity',
+          confidence: best.score,
+          candidates,
+        };
+      }
+
+      return { isDuplicate: false, method: 'similarity', reason: 'below-similarity-threshold', confidence: best?.score ?? 0, candidates };
+    } catch (error) {
+      console.warn('Similarity search failed:', error);
+      return { isDuplicate: false, method: 'similarity', reason: 'similarity-search-failed', confidence: 0 };
     }
   }
 
@@ -294,6 +529,36 @@ export class GitHubApiClient {
     return metadata.join('\n') + body;
   }
 
+  /**
+   * Add the source reporter to the tracked reporter list in an issue body
+   */
+  private mergeReporters(body: string, sourceIssue: IssueData): { body: string; reporters: string[]; added: boolean } {
+    const start = body.indexOf(REPORTERS_START);
+    const end = body.indexOf(REPORTERS_END);
+    const hasList = start !== -1 && end > start;
+
+    const lines = hasList
+      ? body.slice(start + REPORTERS_START.length, end).split('\n').filter(line => line.startsWith('- '))
+      : [];
+    const reporters = lines.map(line => line.match(/^- @(\S+)/)?.[1]).filter(Boolean) as string[];
+    const sources = lines.map(line => line.match(/\((\S+)\)/)?.[1]);
+
+    const added = !sources.includes(sourceIssue.url);
+    if (added) {
+      lines.push(`- @${sourceIssue.author} (${sourceIssue.url}) on ${sourceIssue.createdAt}`);
+      if (!reporters.includes(sourceIssue.author)) {
+        reporters.push(sourceIssue.author);
+      }
+    }
+
+    const section = [REPORTERS_START, '**Also reported by:**', ...lines, REPORTERS_END].join('\n');
+    const merged = hasList
+      ? body.slice(0, start) + section + body.slice(end + REPORTERS_END.length)
+      : `${body.trimEnd()}\n\n${section}`;
+
+    return { body: merged, reporters, added };
+  }
+
   /**
    * Create update comment for duplicate issues
    */
@@ -369,6 +634,41 @@ export class GitHubApiClient {
     }
   }
 
+  /**
+   * Comment on an issue
+   */
+  async commentOnIssue(
+    repo: string,
+    issueNumber: number,
+    body: string
+  ): Promise<GitHubOperationResult> {
+    try {
+      const [owner, repoName] = repo.split('/');
+      if (!owner || !repoName) {
+        throw new Error(`Invalid repository format: ${repo}`);
+      }
+
+      const response = await this.octokit.rest.issues.createComment({
+        owner,
+        repo: repoName,
+        issue_number: issueNumber,
+        body,
+      });
+
+      return {
+        success: true,
+        issueNumber,
+        details: { commentUrl: response.data.html_url },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error commenting on issue',
+        details: { repo, issueNumber },
+      };
+    }
+  }
+
   /**
    * Get repository information
    */
@@ -2,27 +2,123 @@
  * Issue Routing System - Main exports
  */
 
+import { IssueRouter } from './router';
+import { loadRoutingConfig } from './config';
+import type { IssueData, RouterContext, RoutingResult } from './types';
+
 // Core classes
 export { IssueRouter } from './router';
-export { IssueClassifier } from './classifier';
+export { explainRules } from './rule-engine';
+export { IssueClassifier, BudgetExceededError } from './classifier';
+export { ApiUsageMonitor, createDefaultApiUsageConfig, resolveApiUsageConfig } from './api-usage-monitor';
+export {
+  PriorityProcessor,
+  createDefaultPriorityConfig,
+  resolvePriorityConfig,
+  extractPriorityFeatures,
+  scorePriority,
+} from './priority-processor';
+export { calibratePriorityScoring, loadPriorityCorpus, formatCalibrationReport } from './priority-calibration';
 export { GitHubApiClient } from './github-api';
-export { ProjectsApiClient } from './projects-api';
-export { ConfigManager, loadRoutingConfig, validateConfigFile, createTestConfig } from './config';
+export {
+  ReverseSync,
+  resolveReverseSyncConfig,
+  describeChanges,
+} from './reverse-sync';
+export {
+  ProjectsApiClient,
+  ProjectConfigError,
+  DEFAULT_PROJECT_FIELD_MAPPINGS,
+  mappingMatches,
+  projectKey,
+  resolveProjectTargets,
+  listConfiguredProjects,
+  validateProjectFieldConfig,
+  resolveIteration,
+  resolveDateValue,
+} from './projects-api';
+export { ConfigManager, loadRoutingConfig, loadRoutingConfigFile, validateConfigFile, createTestConfig } from './config';
+export {
+  RoutingSimulator,
+  loadSimulationCorpus,
+  formatSimulationReport,
+  formatSimulationDiff,
+} from './routing-simulator';
+export { buildUsageReport, formatUsageReport } from './usage-report';
+export type {
+  UsageReport,
+  UsageReportRow,
+  UsageReportOptions,
+  UsageReportFormat,
+  UsageProjection,
+} from './usage-report';
+export type {
+  PriorityConfig,
+  PriorityScore,
+  PriorityScoring,
+  PriorityKeywordSet,
+  PriorityFeatures,
+  BatchCandidate,
+  QueuedIssue,
+  QueueInspection,
+  DrainResult,
+} from './priority-processor';
+export type { ProjectConfigCheck, ProjectFieldUpdateResult, IssueProjectState } from './projects-api';
+export type {
+  RoutedItem,
+  RoutedItemSnapshot,
+  ReverseSyncConfig,
+  ReverseSyncResult,
+  SyncAnnouncement,
+  SyncDestination,
+} from './reverse-sync';
+export type {
+  PriorityCalibrationRecord,
+  PriorityCalibrationResult,
+  PriorityAccuracy,
+  KnownPriority,
+} from './priority-calibration';
+export type {
+  SimulationRecord,
+  SimulationReport,
+  SimulationDiff,
+  SimulatedClassifier,
+} from './routing-simulator';
+export type { RuleExplanation } from './rule-engine';
 
 // Types
 export type {
   IssueData,
   ClassificationResult,
   ClassificationContext,
+  BatchClassificationContext,
   RoutingConfig,
   RoutingRule,
+  RuleCondition,
   RouterContext,
   RoutingResult,
+  RoutingTrace,
+  RuleTrace,
+  ConditionTrace,
   GitHubOperationResult,
   DuplicateCheckResult,
+  DuplicateMethod,
+  GitHubDuplicate,
+  GitHubDuplicateCheckResult,
+  HistoryCheckResult,
+  HistoryDuplicate,
+  NoDuplicate,
+  SimilarIssueCandidate,
+  DuplicatePolicy,
+  BudgetGuardResult,
   ProjectInfo,
   ProjectField,
   ProjectFieldOption,
+  ProjectIteration,
+  ProjectFieldMapping,
+  ProjectRef,
+  ProjectTargets,
+  ProjectItemRef,
 } from './types';
 
 // Validation functions
@@ -52,6 +148,7 @@ export async function quickRoute(
     routerRepo: string;
     dryRun?: boolean;
     verbose?: boolean;
+    explain?: boolean;
   }
 ): Promise<RoutingResult> {
   const config = loadRoutingConfig(options.environment);
@@ -60,17 +157,28 @@ export async function quickRoute(
     config,
     issue,
     gitHubToken: options.githubToken,
-    openAIApiKey: options.openaiApiKey,
-    dryRun: options.dryRun,
-    verbose: options.verbose,
+    ...(options.openaiApiKey !== undefined && { openAIApiKey: options.openaiApiKey }),
+    dryRun: options.dryRun ?? false,
+    verbose: options.verbose ?? false,
+    explain: options.explain ?? false,
   });
 
-  return await router.routeIssue(issue, options.routerRepo);
+  const result = await router.routeIssue(issue, options.routerRepo);
+
+  if (options.explain && result.trace) {
+    console.log(IssueRouter.formatTrace(result.trace));
+  }
+
+  return result;
 }
 
 // Re-export validation schemas for runtime validation
 export { 
   RoutingConfigSchema,
+  RoutingRuleSchema,
+  RuleConditionSchema,
+  ProjectFieldMappingSchema,
+  ProjectRefSchema,
   IssueDataSchema,
   ClassificationResultSchema,
 } from './types';
\ No newline at end of file
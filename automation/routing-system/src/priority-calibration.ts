@@ -0,0 +1,270 @@
+/**
+ * Priority scoring calibration
+ * Fits the PriorityProcessor weights, thresholds and keyword weights to past issues
+ * with known priorities, one parameter at a time, keeping only changes that improve accuracy
+ */
+
+import { readFileSync } from 'fs';
+import { stringify as stringifyYaml } from 'yaml';
+import {
+  extractPriorityFeatures,
+  scorePriority,
+  type PriorityConfig,
+  type PriorityFeatures,
+  type PriorityScore,
+  type PriorityScoring,
+} from './priority-processor';
+import { validateIssueData, type IssueData } from './types';
+
+export type KnownPriority = 'emergency' | 'high' | 'medium' | 'low';
+
+export interface PriorityCalibrationRecord {
+  issue: IssueData;
+  expectedPriority: KnownPriority;
+}
+
+export interface PriorityAccuracy {
+  total: number;
+  correct: number;
+  accuracy: number;
+  confusionMatrix: Record<string, Record<string, number>>; // expected -> actual -> count
+}
+
+export interface ParameterChange {
+  parameter: string; // e.g. "weights.urgency" or "keywordSets.high.bug"
+  before: number;
+  after: number;
+}
+
+export interface PriorityCalibrationResult {
+  before: PriorityAccuracy;
+  after: PriorityAccuracy;
+  scoring: PriorityScoring; // the fitted scoring
+  changes: ParameterChange[];
+  passes: number;
+}
+
+interface Parameter {
+  name: string;
+  candidates: number[];
+  get: (scoring: PriorityScoring) => number;
+  set: (scoring: PriorityScoring, value: number) => void;
+}
+
+const PRIORITY_ALIASES: Record<string, KnownPriority> = {
+  emergency: 'emergency',
+  critical: 'emergency',
+  high: 'high',
+  medium: 'medium',
+  low: 'low',
+};
+
+/**
+ * Fit the scoring of `config` to the records. Recency is ignored, since it only
+ * means something at the time an issue arrives.
+ */
+export function calibratePriorityScoring(
+  records: PriorityCalibrationRecord[],
+  config: PriorityConfig,
+  options: { maxPasses?: number } = {}
+): PriorityCalibrationResult {
+  if (records.length === 0) {
+    throw new Error('No labelled issues to calibrate against');
+  }
+
+  const samples = records.map(record => ({
+    features: extractPriorityFeatures(record.issue, config, null),
+    expected: record.expectedPriority,
+  }));
+  const correctCount = (scoring: PriorityScoring): number =>
+    samples.filter(sample => scorePriority(sample.features, scoring).category === sample.expected).length;
+
+  const scoring = structuredClone(config.scoring);
+  const parameters = listParameters(scoring);
+  const maxPasses = options.maxPasses ?? 10;
+  let best = correctCount(scoring);
+  let passes = 0;
+
+  // Coordinate search: try every candidate value of one parameter while the others stay fixed
+  while (passes < maxPasses) {
+    passes++;
+    let improved = false;
+
+    for (const parameter of parameters) {
+      const current = parameter.get(scoring);
+      let bestValue = current;
+
+      for (const candidate of parameter.candidates) {
+        if (candidate === current) continue;
+        parameter.set(scoring, candidate);
+        if (!thresholdsOrdered(scoring)) continue;
+
+        const correct = correctCount(scoring);
+        if (correct > best) {
+          best = correct;
+          bestValue = candidate;
+          improved = true;
+        }
+      }
+      parameter.set(scoring, bestValue);
+    }
+
+    if (!improved) break;
+  }
+
+  return {
+    before: measureAccuracy(samples, config.scoring),
+    after: measureAccuracy(samples, scoring),
+    scoring,
+    changes: parameters
+      .map(parameter => ({ parameter: parameter.name, before: parameter.get(config.scoring), after: parameter.get(scoring) }))
+      .filter(change => change.before !== change.after),
+    passes,
+  };
+}
+
+/**
+ * Read a JSONL corpus: one issue per line (IssueData fields) plus `expectedPriority`
+ * (emergency, critical, high, medium or low)
+ */
+export function loadPriorityCorpus(filePath: string): PriorityCalibrationRecord[] {
+  const lines = readFileSync(filePath, 'utf8').split('\n');
+  const records: PriorityCalibrationRecord[] = [];
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+
+    try {
+      const raw = JSON.parse(line);
+      const expectedPriority = PRIORITY_ALIASES[String(raw.expectedPriority ?? '').toLowerCase()];
+      if (!expectedPriority) {
+        throw new Error(`expectedPriority must be one of ${Object.keys(PRIORITY_ALIASES).join(', ')}`);
+      }
+      const issue = validateIssueData({ ...raw, slackPermalink: raw.slackPermalink ?? undefined });
+      records.push({ issue, expectedPriority });
+    } catch (error) {
+      throw new Error(`${filePath}:${i + 1}: ${error instanceof Error ? error.message : 'invalid record'}`);
+    }
+  });
+
+  return records;
+}
+
+/**
+ * Render a calibration result as plain text, ending with the fitted routing.yml block
+ */
+export function formatCalibrationReport(result: PriorityCalibrationResult): string {
+  const lines: string[] = [];
+  const describe = (accuracy: PriorityAccuracy): string =>
+    `${accuracy.correct}/${accuracy.total} (${Math.round(accuracy.accuracy * 100)}%)`;
+
+  lines.push(`Accuracy before: ${describe(result.before)}`);
+  lines.push(`Accuracy after:  ${describe(result.after)} after ${result.passes} pass(es)`);
+
+  const categories: KnownPriority[] = ['emergency', 'high', 'medium', 'low'];
+  const width = 'expected \\ actual'.length;
+  lines.push('', 'Confusion matrix after calibration (rows: expected, columns: actual):');
+  lines.push(`${'expected \\ actual'.padEnd(width)} ${categories.map(c => c.padStart(9)).join(' ')}`);
+  for (const expected of categories) {
+    const row = result.after.confusionMatrix[expected] ?? {};
+    lines.push(`${expected.padEnd(width)} ${categories.map(c => String(row[c] ?? 0).padStart(9)).join(' ')}`);
+  }
+
+  if (result.changes.length === 0) {
+    lines.push('', 'No parameter change improved accuracy; the current scoring is kept.');
+    return lines.join('\n');
+  }
+
+  lines.push('', 'Changed parameters:');
+  result.changes.forEach(change => lines.push(`  ${change.parameter}: ${change.before} → ${change.after}`));
+
+  lines.push('', 'Fitted scoring for routing.yml:', '');
+  lines.push(stringifyYaml({ priorityProcessing: { scoring: result.scoring } }).trimEnd());
+
+  return lines.join('\n');
+}
+
+function measureAccuracy(
+  samples: Array<{ features: PriorityFeatures; expected: KnownPriority }>,
+  scoring: PriorityScoring
+): PriorityAccuracy {
+  const confusionMatrix: Record<string, Record<string, number>> = {};
+  let correct = 0;
+
+  for (const sample of samples) {
+    const actual: PriorityScore['category'] = scorePriority(sample.features, scoring).category;
+    const row = confusionMatrix[sample.expected] ??= {};
+    row[actual] = (row[actual] ?? 0) + 1;
+    if (actual === sample.expected) correct++;
+  }
+
+  return { total: samples.length, correct, accuracy: correct / samples.length, confusionMatrix };
+}
+
+/**
+ * Every tunable number of a scoring, with the values tried for it
+ */
+function listParameters(scoring: PriorityScoring): Parameter[] {
+  const unit = steps(0, 1, 0.05);
+  const parameters: Parameter[] = [];
+
+  for (const factor of ['urgency', 'importance', 'businessImpact'] as const) {
+    parameters.push({
+      name: `weights.${factor}`,
+      candidates: unit,
+      get: s => s.weights[factor],
+      set: (s, value) => { s.weights[factor] = value; },
+    });
+    parameters.push({
+      name: `base.${factor}`,
+      candidates: unit,
+      get: s => s.base[factor],
+      set: (s, value) => { s.base[factor] = value; },
+    });
+  }
+
+  for (const threshold of ['emergencyUrgency', 'high', 'medium'] as const) {
+    parameters.push({
+      name: `thresholds.${threshold}`,
+      candidates: steps(0.05, 1, 0.05),
+      get: s => s.thresholds[threshold],
+      set: (s, value) => { s.thresholds[threshold] = value; },
+    });
+  }
+
+  for (const signal of ['criticalLabel', 'productionRepo', 'humanAuthor', 'multipleAssignees'] as const) {
+    parameters.push({
+      name: `signals.${signal}`,
+      candidates: steps(0, 1, 0.1),
+      get: s => s.signals[signal],
+      set: (s, value) => { s.signals[signal] = value; },
+    });
+  }
+
+  for (const [name, set] of Object.entries(scoring.keywordSets)) {
+    for (const keyword of Object.keys(set.keywords)) {
+      parameters.push({
+        name: `keywordSets.${name}.${keyword}`,
+        candidates: steps(-0.5, 1, 0.1),
+        get: s => s.keywordSets[name]?.keywords[keyword] ?? 0,
+        set: (s, value) => {
+          const keywordSet = s.keywordSets[name];
+          if (keywordSet) {
+            keywordSet.keywords[keyword] = value;
+          }
+        },
+      });
+    }
+  }
+
+  return parameters;
+}
+
+function thresholdsOrdered(scoring: PriorityScoring): boolean {
+  return scoring.thresholds.medium < scoring.thresholds.high;
+}
+
+function steps(from: number, to: number, step: number): number[] {
+  const count = Math.round((to - from) / step);
+  return Array.from({ length: count + 1 }, (_, i) => Math.round((from + i * step) * 100) / 100);
+}
@@ -1,15 +1,68 @@
 /**
  * Intelligent Processing Priority System
- * Manages API usage by prioritizing critical issues and deferring low-priority ones
+ * Manages API usage by prioritizing critical issues and deferring low-priority ones.
+ * Batch and deferral queues live in the storage backend, so they survive between runs.
  */
 
-import type { IssueData, ClassificationResult } from './types';
+import path from 'path';
+import type { IssueData, ClassificationResult, RoutingConfig } from './types';
 import type { UsageCheckResult } from './api-usage-monitor';
+import {
+  FileStorage,
+  STORAGE_NAMESPACES,
+  createStorage,
+  type StorageBackend,
+  type StorageConfig,
+} from './storage';
+
+export type PriorityFactor = 'urgency' | 'importance' | 'businessImpact';
+
+/**
+ * Keywords that raise one factor; a set adds the weight of its best matching keyword
+ */
+export interface PriorityKeywordSet {
+  factor: PriorityFactor;
+  keywords: Record<string, number>; // keyword -> weight (negative lowers the factor)
+}
+
+/**
+ * How factor scores are built and blended into a category
+ */
+export interface PriorityScoring {
+  weights: Record<PriorityFactor, number>; // blend of the factors into the overall score
+  base: Record<PriorityFactor, number>; // factor score before any signal
+  thresholds: {
+    emergencyUrgency: number; // urgency at or above this is an emergency
+    high: number; // overall score for high priority
+    medium: number; // overall score for medium priority; below is low
+  };
+  keywordSets: Record<string, PriorityKeywordSet>;
+  signals: {
+    criticalLabel: number; // urgency, issue carries one of criticalLabels
+    recent: number; // urgency, created within recentHours
+    recentHours: number;
+    productionRepo: number; // importance, source repo is one of productionRepos
+    humanAuthor: number; // importance, author is not a bot or action
+    multipleAssignees: number; // importance
+  };
+}
+
+/**
+ * What an issue matched, independent of the weights
+ */
+export interface PriorityFeatures {
+  keywordHits: Record<string, string[]>; // keyword set -> matched keywords
+  criticalLabel: boolean;
+  recent: boolean;
+  productionRepo: boolean;
+  humanAuthor: boolean;
+  multipleAssignees: boolean;
+  emergencyPattern: boolean;
+}
 
 export interface PriorityConfig {
-  emergencyKeywords: string[];
-  highPriorityKeywords: string[];
-  lowPriorityKeywords: string[];
+  scoring: PriorityScoring;
+  emergencyPatterns: string[]; // any of these in the text makes an issue an emergency
   productionRepos: string[];
   criticalLabels: string[];
   deferralThresholds: {
@@ -22,6 +75,13 @@ export interface PriorityConfig {
     similarityThreshold: number; // 0.0-1.0
     batchWindowMinutes: number;
   };
+  queue: {
+    dir: string; // file storage directory when `storage` is not set
+    claimTimeoutMinutes: number; // a claimed issue returns to the queue after this (crashed drain)
+    maxAttempts: number; // failed routing attempts before an issue is stuck
+    stuckAfterHours: number; // waiting longer than this is reported as stuck
+  };
+  storage?: StorageConfig | undefined;
 }
 
 export interface PriorityScore {
@@ -36,48 +96,103 @@ export interface PriorityScore {
 }
 
 export interface BatchCandidate {
+  id: string; // queue key, the issue URL
   issue: IssueData;
   priority: PriorityScore;
   similarity?: number;
   addedAt: Date;
+  routerRepo?: string;
+}
+
+export type QueueName = 'batch' | 'deferred';
+
+/**
+ * A queued issue as persisted in storage
+ */
+export interface QueuedIssue {
+  id: string;
+  queue: QueueName;
+  issue: IssueData;
+  priority: PriorityScore;
+  routerRepo?: string;
+  addedAt: string;
+  attempts: number; // failed routing attempts
+  claimedAt?: string; // set while a drain is routing it
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+/**
+ * What is waiting, why and since when
+ */
+export interface QueueInspection {
+  id: string;
+  queue: QueueName;
+  category: PriorityScore['category'];
+  title: string;
+  reason: string;
+  addedAt: string;
+  waitingHours: number;
+  attempts: number;
+  lastError?: string;
+  claimed: boolean;
+  stuck: boolean;
+  stuckReason?: string;
+}
+
+export interface DrainResult {
+  routed: string[];
+  failed: Array<{ id: string; error: string }>;
+  stuck: QueueInspection[]; // still queued and stuck after this drain
+  remaining: number;
 }
 
 export class PriorityProcessor {
   private config: PriorityConfig;
-  private batchQueue: Map<string, BatchCandidate[]> = new Map();
-  private deferralQueue: BatchCandidate[] = [];
+  private storage: StorageBackend;
+  private queued: QueuedIssue[] = []; // last snapshot read from storage
 
   constructor(config: PriorityConfig) {
     this.config = config;
+    this.storage = config.storage ? createStorage(config.storage) : new FileStorage(config.queue.dir);
+  }
+
+  /**
+   * Load the persisted queues
+   */
+  async initialize(): Promise<void> {
+    this.queued = Object.values(await this.storage.load<QueuedIssue>(STORAGE_NAMESPACES.priorityQueue));
+  }
+
+  /**
+   * Release the storage backend
+   */
+  async close(): Promise<void> {
+    await this.storage.close();
   }
 
   /**
    * Analyze issue priority and determine processing strategy
    */
   analyzePriority(issue: IssueData, currentUsage?: UsageCheckResult): PriorityScore {
-    const urgency = this.calculateUrgency(issue);
-    const importance = this.calculateImportance(issue);
-    const businessImpact = this.calculateBusinessImpact(issue);
-    
-    const overall = (urgency * 0.4) + (importance * 0.3) + (businessImpact * 0.3);
+    const features = extractPriorityFeatures(issue, this.config);
+    const { urgency, importance, businessImpact, overall, category } = scorePriority(features, this.config.scoring);
     
     const reasoning: string[] = [];
-    let category: PriorityScore['category'] = 'medium';
     let processingDecision: PriorityScore['processingDecision'] = 'immediate';
 
-    // Determine category based on scoring
-    if (urgency >= 0.9 || this.isEmergencyIssue(issue)) {
-      category = 'emergency';
-      reasoning.push('Emergency: Critical system issue or security vulnerability');
-    } else if (overall >= 0.8) {
-      category = 'high';
-      reasoning.push('High priority: Significant impact on users or business operations');
-    } else if (overall >= 0.5) {
-      category = 'medium';
-      reasoning.push('Medium priority: Standard issue with moderate impact');
-    } else {
-      category = 'low';
-      reasoning.push('Low priority: Enhancement or minor issue');
+    switch (category) {
+      case 'emergency':
+        reasoning.push('Emergency: Critical system issue or security vulnerability');
+        break;
+      case 'high':
+        reasoning.push('High priority: Significant impact on users or business operations');
+        break;
+      case 'medium':
+        reasoning.push('Medium priority: Standard issue with moderate impact');
+        break;
+      default:
+        reasoning.push('Low priority: Enhancement or minor issue');
     }
 
     // Adjust processing decision based on API usage
@@ -126,197 +241,230 @@ export class PriorityProcessor {
   }
 
   /**
-   * Add issue to appropriate processing queue
+   * Add issue to the appropriate persisted queue. Blocked issues wait in the deferral queue.
+   * Queueing an issue that is already waiting keeps its place.
    */
-  queueIssue(issue: IssueData, priority: PriorityScore): void {
-    const candidate: BatchCandidate = {
-      issue,
-      priority,
-      addedAt: new Date()
-    };
-
+  async queueIssue(issue: IssueData, priority: PriorityScore, routerRepo?: string): Promise<void> {
     switch (priority.processingDecision) {
       case 'immediate':
         // Process immediately - no queueing needed
-        break;
-        
+        return;
+
       case 'batch':
-        this.addToBatchQueue(candidate);
-        break;
-        
+        await this.enqueue('batch', issue, priority, routerRepo);
+        console.log(`📥 Added issue to ${priority.category} batch queue`);
+        return;
+
       case 'deferred':
-        this.deferralQueue.push(candidate);
-        this.cleanupDeferralQueue();
-        break;
-        
+        await this.enqueue('deferred', issue, priority, routerRepo);
+        console.log(`⏳ Deferred issue: ${issue.title}`);
+        return;
+
       case 'blocked':
-        // Don't queue blocked issues
-        console.log(`🚫 Issue blocked due to API limits: ${issue.title}`);
-        break;
+        await this.enqueue('deferred', issue, priority, routerRepo);
+        console.log(`🚫 Issue blocked due to API limits, deferred: ${issue.title}`);
+        return;
     }
   }
 
   /**
-   * Get next batch of issues ready for processing
+   * Claim the next batch of issues that have waited out the batch window.
+   * Call completeIssue or releaseIssue for each one once routing has been attempted.
    */
-  getNextBatch(maxBatchSize?: number): BatchCandidate[] {
-    const batchSize = maxBatchSize || this.config.batchProcessing.maxBatchSize;
+  async getNextBatch(maxBatchSize?: number): Promise<BatchCandidate[]> {
+    const batchSize = maxBatchSize ?? this.config.batchProcessing.maxBatchSize;
+    if (batchSize <= 0) {
+      return [];
+    }
     const cutoffTime = new Date();
     cutoffTime.setMinutes(cutoffTime.getMinutes() - this.config.batchProcessing.batchWindowMinutes);
 
-    // Find ready batches (issues that have been waiting long enough)
-    const readyBatches: BatchCandidate[] = [];
-    
-    for (const [category, candidates] of this.batchQueue.entries()) {
-      const readyCandidates = candidates.filter(c => c.addedAt <= cutoffTime);
-      
-      if (readyCandidates.length >= 2 || readyCandidates.some(c => c.addedAt <= cutoffTime)) {
-        readyBatches.push(...readyCandidates.slice(0, batchSize));
-        
-        // Remove processed candidates from queue
-        const remainingCandidates = candidates.filter(c => !readyCandidates.includes(c));
-        if (remainingCandidates.length > 0) {
-          this.batchQueue.set(category, remainingCandidates);
-        } else {
-          this.batchQueue.delete(category);
-        }
-        
-        if (readyBatches.length >= batchSize) {
-          break;
-        }
-      }
-    }
-
-    return readyBatches;
+    return await this.claim(queued => {
+      const ready = queued
+        .filter(entry => entry.queue === 'batch' && new Date(entry.addedAt) <= cutoffTime)
+        .sort(byAge);
+
+      // Keep issues of the same category together, highest category first
+      const order: PriorityScore['category'][] = ['emergency', 'high', 'medium', 'low', 'deferred'];
+      return ready
+        .sort((a, b) => order.indexOf(a.priority.category) - order.indexOf(b.priority.category))
+        .slice(0, batchSize);
+    });
   }
 
   /**
-   * Process deferred issues when usage allows
+   * Claim deferred issues, oldest first, when usage allows
    */
-  processDeferredQueue(currentUsage: UsageCheckResult): BatchCandidate[] {
+  async processDeferredQueue(currentUsage: UsageCheckResult, maxIssues = 5): Promise<BatchCandidate[]> {
     const dailyUsage = Math.max(
       currentUsage.currentUsage.daily.calls.percentage,
       currentUsage.currentUsage.daily.tokens.percentage,
       currentUsage.currentUsage.daily.cost.percentage
     );
 
-    if (dailyUsage < this.config.deferralThresholds.apiUsagePercentage) {
-      // Process some deferred issues
-      const toProcess = this.deferralQueue.splice(0, 5); // Process up to 5 deferred issues
-      console.log(`📤 Processing ${toProcess.length} deferred issues (usage: ${Math.round(dailyUsage * 100)}%)`);
-      return toProcess;
+    if (dailyUsage >= this.config.deferralThresholds.apiUsagePercentage) {
+      return [];
     }
 
-    return [];
+    const toProcess = await this.claim(queued =>
+      queued.filter(entry => entry.queue === 'deferred').sort(byAge).slice(0, maxIssues)
+    );
+    console.log(`📤 Processing ${toProcess.length} deferred issues (usage: ${Math.round(dailyUsage * 100)}%)`);
+    return toProcess;
   }
 
   /**
-   * Calculate urgency score based on issue content
+   * Remove a routed issue from its queue
    */
-  private calculateUrgency(issue: IssueData): number {
-    let score = 0.3; // Base urgency
-
-    const content = `${issue.title} ${issue.body}`.toLowerCase();
-    
-    // Emergency keywords
-    if (this.config.emergencyKeywords.some(keyword => content.includes(keyword.toLowerCase()))) {
-      score += 0.6;
-    }
-
-    // High priority keywords
-    if (this.config.highPriorityKeywords.some(keyword => content.includes(keyword.toLowerCase()))) {
-      score += 0.3;
-    }
-
-    // Labels indicating urgency
-    if (this.config.criticalLabels.some(label => issue.labels.includes(label))) {
-      score += 0.4;
-    }
-
-    // Recent creation (within last 2 hours = more urgent)
-    const createdAt = new Date(issue.createdAt);
-    const hoursAgo = (Date.now() - createdAt.getTime()) / (1000 * 60 * 60);
-    if (hoursAgo <= 2) {
-      score += 0.2;
-    }
-
-    return Math.min(score, 1.0);
+  async completeIssue(id: string): Promise<void> {
+    await this.mutate(records => {
+      delete records[id];
+    });
   }
 
   /**
-   * Calculate importance score based on business impact
+   * Return a claimed issue to its queue after a failed routing attempt
    */
-  private calculateImportance(issue: IssueData): number {
-    let score = 0.4; // Base importance
-
-    const content = `${issue.title} ${issue.body}`.toLowerCase();
-
-    // Production repository issues are more important
-    const repoName = issue.sourceMeta?.repository as string || '';
-    if (this.config.productionRepos.some(repo => repoName.includes(repo))) {
-      score += 0.3;
-    }
+  async releaseIssue(id: string, error: string): Promise<void> {
+    await this.mutate(records => {
+      const entry = records[id];
+      if (!entry) {
+        return;
+      }
+      delete entry.claimedAt;
+      entry.attempts += 1;
+      entry.lastAttemptAt = new Date().toISOString();
+      entry.lastError = error;
+    });
+  }
 
-    // User-reported issues (not system-generated) are more important
-    if (!issue.author.includes('bot') && !issue.author.includes('action')) {
-      score += 0.2;
+  /**
+   * Claim batch and deferred issues, route each one, and report what is stuck afterwards.
+   * `prepare` sees each claimed group first, e.g. to classify it in one LLM call.
+   */
+  async drain(
+    currentUsage: UsageCheckResult,
+    route: (candidate: BatchCandidate) => Promise<void>,
+    options: { maxIssues?: number; prepare?: (candidates: BatchCandidate[]) => Promise<void> } = {}
+  ): Promise<DrainResult> {
+    const maxIssues = options.maxIssues ?? this.config.batchProcessing.maxBatchSize;
+    const deferred = await this.processDeferredQueue(currentUsage, maxIssues);
+    const batch = await this.getNextBatch(Math.max(maxIssues - deferred.length, 0));
+    const result: DrainResult = { routed: [], failed: [], stuck: [], remaining: 0 };
+
+    for (const group of [deferred, batch].filter(group => group.length > 1)) {
+      try {
+        await options.prepare?.(group);
+      } catch (error) {
+        console.warn('⚠️ Batch preparation failed:', error instanceof Error ? error.message : 'Unknown error');
+      }
     }
 
-    // Issues with multiple assignees indicate importance
-    if (issue.assignees.length > 1) {
-      score += 0.1;
+    for (const candidate of [...deferred, ...batch]) {
+      try {
+        await route(candidate);
+        await this.completeIssue(candidate.id);
+        result.routed.push(candidate.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await this.releaseIssue(candidate.id, message);
+        result.failed.push({ id: candidate.id, error: message });
+      }
     }
 
-    return Math.min(score, 1.0);
+    const inspection = await this.inspectQueues();
+    result.stuck = inspection.filter(entry => entry.stuck);
+    result.remaining = inspection.length;
+    return result;
   }
 
   /**
-   * Calculate business impact score
+   * Everything waiting in the queues, oldest first
    */
-  private calculateBusinessImpact(issue: IssueData): number {
-    let score = 0.3; // Base business impact
-
-    const content = `${issue.title} ${issue.body}`.toLowerCase();
-
-    // User-facing feature issues have high business impact
-    const userFacingKeywords = ['ui', 'user', 'interface', 'experience', 'usability', 'accessibility'];
-    if (userFacingKeywords.some(keyword => content.includes(keyword))) {
-      score += 0.2;
-    }
-
-    // Data/security issues have high business impact
-    const criticalKeywords = ['data loss', 'security', 'vulnerability', 'crash', 'corruption'];
-    if (criticalKeywords.some(keyword => content.includes(keyword))) {
-      score += 0.4;
-    }
-
-    // Performance issues affect user experience
-    const performanceKeywords = ['slow', 'performance', 'timeout', 'hang', 'freeze'];
-    if (performanceKeywords.some(keyword => content.includes(keyword))) {
-      score += 0.3;
-    }
+  async inspectQueues(now: Date = new Date()): Promise<QueueInspection[]> {
+    await this.initialize();
+
+    return [...this.queued].sort(byAge).map(entry => {
+      const waitingHours = (now.getTime() - new Date(entry.addedAt).getTime()) / (1000 * 60 * 60);
+      const stuckReason = entry.attempts >= this.config.queue.maxAttempts
+        ? `failed ${entry.attempts} times${entry.lastError ? `: ${entry.lastError}` : ''}`
+        : waitingHours >= this.config.queue.stuckAfterHours
+          ? `waiting ${Math.floor(waitingHours)}h (limit ${this.config.queue.stuckAfterHours}h)`
+          : undefined;
+
+      return {
+        id: entry.id,
+        queue: entry.queue,
+        category: entry.priority.category,
+        title: entry.issue.title,
+        reason: entry.priority.reasoning.join('; '),
+        addedAt: entry.addedAt,
+        waitingHours: Math.round(waitingHours * 10) / 10,
+        attempts: entry.attempts,
+        ...(entry.lastError !== undefined && { lastError: entry.lastError }),
+        claimed: this.isClaimed(entry, now),
+        stuck: stuckReason !== undefined,
+        ...(stuckReason !== undefined && { stuckReason }),
+      };
+    });
+  }
 
-    return Math.min(score, 1.0);
+  /**
+   * Add or refresh a queue entry, keeping its original position
+   */
+  private async enqueue(queue: QueueName, issue: IssueData, priority: PriorityScore, routerRepo?: string): Promise<void> {
+    const id = issue.url || `#${issue.number}`;
+    await this.mutate(records => {
+      const existing = records[id];
+      records[id] = {
+        id,
+        queue,
+        issue,
+        priority,
+        addedAt: existing?.addedAt ?? new Date().toISOString(),
+        attempts: existing?.attempts ?? 0,
+        ...(routerRepo !== undefined && { routerRepo }),
+        ...(existing?.claimedAt !== undefined && { claimedAt: existing.claimedAt }),
+        ...(existing?.lastAttemptAt !== undefined && { lastAttemptAt: existing.lastAttemptAt }),
+        ...(existing?.lastError !== undefined && { lastError: existing.lastError }),
+      };
+    });
   }
 
   /**
-   * Check if issue qualifies as emergency
+   * Atomically mark the selected unclaimed, retryable entries as claimed
    */
-  private isEmergencyIssue(issue: IssueData): boolean {
-    const content = `${issue.title} ${issue.body}`.toLowerCase();
-    
-    const emergencyPatterns = [
-      'production down',
-      'service down', 
-      'data loss',
-      'security breach',
-      'critical vulnerability',
-      'system crash',
-      'cannot access'
-    ];
-
-    return emergencyPatterns.some(pattern => content.includes(pattern)) ||
-           this.config.criticalLabels.some(label => issue.labels.includes(label));
+  private async claim(select: (queued: QueuedIssue[]) => QueuedIssue[]): Promise<BatchCandidate[]> {
+    const now = new Date();
+    const claimed = await this.storage.update<QueuedIssue, QueuedIssue[]>(STORAGE_NAMESPACES.priorityQueue, records => {
+      const available = Object.values(records).filter(entry =>
+        !this.isClaimed(entry, now) && entry.attempts < this.config.queue.maxAttempts
+      );
+      const selected = select(available);
+      selected.forEach(entry => { entry.claimedAt = now.toISOString(); });
+      this.queued = Object.values(records).map(entry => structuredClone(entry));
+      return selected.map(entry => structuredClone(entry));
+    });
+
+    return claimed.map(entry => ({
+      id: entry.id,
+      issue: entry.issue,
+      priority: entry.priority,
+      addedAt: new Date(entry.addedAt),
+      ...(entry.routerRepo !== undefined && { routerRepo: entry.routerRepo }),
+    }));
+  }
+
+  private async mutate(mutate: (records: Record<string, QueuedIssue>) => void): Promise<void> {
+    await this.storage.update<QueuedIssue>(STORAGE_NAMESPACES.priorityQueue, records => {
+      mutate(records);
+      this.queued = Object.values(records).map(entry => structuredClone(entry));
+    });
+  }
+
+  private isClaimed(entry: QueuedIssue, now: Date): boolean {
+    return entry.claimedAt !== undefined &&
+      now.getTime() - new Date(entry.claimedAt).getTime() < this.config.queue.claimTimeoutMinutes * 60 * 1000;
   }
 
   /**
@@ -325,13 +473,16 @@ export class PriorityProcessor {
   private findSimilarIssues(issue: IssueData): BatchCandidate[] {
     const similar: BatchCandidate[] = [];
     
-    for (const candidates of this.batchQueue.values()) {
-      for (const candidate of candidates) {
-        const similarity = this.calculateSimilarity(issue, candidate.issue);
-        if (similarity >= this.config.batchProcessing.similarityThreshold) {
-          candidate.similarity = similarity;
-          similar.push(candidate);
-        }
+    for (const entry of this.queued.filter(queued => queued.queue === 'batch')) {
+      const similarity = this.calculateSimilarity(issue, entry.issue);
+      if (similarity >= this.config.batchProcessing.similarityThreshold) {
+        similar.push({
+          id: entry.id,
+          issue: entry.issue,
+          priority: entry.priority,
+          similarity,
+          addedAt: new Date(entry.addedAt),
+        });
       }
     }
 
@@ -385,36 +536,6 @@ export class PriorityProcessor {
       .slice(0, 20); // Limit to top 20 keywords
   }
 
-  /**
-   * Add issue to batch queue
-   */
-  private addToBatchQueue(candidate: BatchCandidate): void {
-    const category = candidate.priority.category;
-    
-    if (!this.batchQueue.has(category)) {
-      this.batchQueue.set(category, []);
-    }
-    
-    this.batchQueue.get(category)!.push(candidate);
-    
-    console.log(`📥 Added issue to ${category} batch queue (queue size: ${this.batchQueue.get(category)!.length})`);
-  }
-
-  /**
-   * Clean up old deferred issues
-   */
-  private cleanupDeferralQueue(): void {
-    const maxAge = 7 * 24 * 60 * 60 * 1000; // 7 days
-    const cutoff = new Date(Date.now() - maxAge);
-    
-    const originalLength = this.deferralQueue.length;
-    this.deferralQueue = this.deferralQueue.filter(candidate => candidate.addedAt > cutoff);
-    
-    if (this.deferralQueue.length < originalLength) {
-      console.log(`🧹 Cleaned up ${originalLength - this.deferralQueue.length} old deferred issues`);
-    }
-  }
-
   /**
    * Estimate API cost for processing decision
    */
@@ -438,51 +559,189 @@ export class PriorityProcessor {
   /**
    * Get current queue statistics
    */
-  getQueueStats(): {
+  async getQueueStats(): Promise<{
     batchQueue: Record<string, number>;
     deferralQueue: number;
     totalQueued: number;
+    stuck: number;
     estimatedCost: number;
-  } {
+  }> {
+    const inspection = await this.inspectQueues();
     const batchQueue: Record<string, number> = {};
-    let totalQueued = 0;
-    let estimatedCost = 0;
 
-    for (const [category, candidates] of this.batchQueue.entries()) {
-      batchQueue[category] = candidates.length;
-      totalQueued += candidates.length;
-      estimatedCost += candidates.reduce((sum, c) => sum + c.priority.estimatedApiCost, 0);
+    for (const entry of inspection.filter(queued => queued.queue === 'batch')) {
+      batchQueue[entry.category] = (batchQueue[entry.category] ?? 0) + 1;
     }
 
-    totalQueued += this.deferralQueue.length;
-    estimatedCost += this.deferralQueue.reduce((sum, c) => sum + c.priority.estimatedApiCost, 0);
-
     return {
       batchQueue,
-      deferralQueue: this.deferralQueue.length,
-      totalQueued,
-      estimatedCost
+      deferralQueue: inspection.filter(entry => entry.queue === 'deferred').length,
+      totalQueued: inspection.length,
+      stuck: inspection.filter(entry => entry.stuck).length,
+      estimatedCost: this.queued.reduce((sum, entry) => sum + entry.priority.estimatedApiCost, 0),
     };
   }
 }
 
+function byAge(a: { addedAt: string }, b: { addedAt: string }): number {
+  return a.addedAt.localeCompare(b.addedAt);
+}
+
+/**
+ * Match an issue against the keyword sets and signals of a configuration.
+ * Pass `now: null` to ignore recency (e.g. when scoring historical issues).
+ */
+export function extractPriorityFeatures(
+  issue: IssueData,
+  config: Pick<PriorityConfig, 'scoring' | 'emergencyPatterns' | 'productionRepos' | 'criticalLabels'>,
+  now: Date | null = new Date()
+): PriorityFeatures {
+  const content = `${issue.title} ${issue.body}`.toLowerCase();
+  const repoName = issue.sourceMeta?.repository as string || '';
+
+  const keywordHits: Record<string, string[]> = {};
+  for (const [name, set] of Object.entries(config.scoring.keywordSets)) {
+    keywordHits[name] = Object.keys(set.keywords).filter(keyword => content.includes(keyword.toLowerCase()));
+  }
+
+  const hoursAgo = now ? (now.getTime() - new Date(issue.createdAt).getTime()) / (1000 * 60 * 60) : Infinity;
+
+  return {
+    keywordHits,
+    criticalLabel: config.criticalLabels.some(label => issue.labels.includes(label)),
+    recent: hoursAgo <= config.scoring.signals.recentHours,
+    productionRepo: config.productionRepos.some(repo => repoName.includes(repo)),
+    // User-reported issues (not system-generated) are more important
+    humanAuthor: !issue.author.includes('bot') && !issue.author.includes('action'),
+    multipleAssignees: issue.assignees.length > 1,
+    emergencyPattern: config.emergencyPatterns.some(pattern => content.includes(pattern.toLowerCase())),
+  };
+}
+
+/**
+ * Factor scores, the blended overall score and the resulting category
+ */
+export function scorePriority(
+  features: PriorityFeatures,
+  scoring: PriorityScoring
+): Pick<PriorityScore, 'urgency' | 'importance' | 'businessImpact' | 'overall' | 'category'> {
+  const factors: Record<PriorityFactor, number> = { ...scoring.base };
+  const { signals, weights, thresholds } = scoring;
+
+  for (const [name, set] of Object.entries(scoring.keywordSets)) {
+    const hits = features.keywordHits[name] ?? [];
+    if (hits.length > 0) {
+      factors[set.factor] += Math.max(...hits.map(keyword => set.keywords[keyword] ?? 0));
+    }
+  }
+
+  if (features.criticalLabel) factors.urgency += signals.criticalLabel;
+  if (features.recent) factors.urgency += signals.recent;
+  if (features.productionRepo) factors.importance += signals.productionRepo;
+  if (features.humanAuthor) factors.importance += signals.humanAuthor;
+  if (features.multipleAssignees) factors.importance += signals.multipleAssignees;
+
+  const clamp = (value: number): number => Math.min(Math.max(value, 0), 1.0);
+  const urgency = clamp(factors.urgency);
+  const importance = clamp(factors.importance);
+  const businessImpact = clamp(factors.businessImpact);
+  const overall = urgency * weights.urgency + importance * weights.importance + businessImpact * weights.businessImpact;
+
+  let category: PriorityScore['category'];
+  if (urgency >= thresholds.emergencyUrgency || features.emergencyPattern || features.criticalLabel) {
+    category = 'emergency';
+  } else if (overall >= thresholds.high) {
+    category = 'high';
+  } else if (overall >= thresholds.medium) {
+    category = 'medium';
+  } else {
+    category = 'low';
+  }
+
+  return { urgency, importance, businessImpact, overall, category };
+}
+
+/**
+ * Priority configuration from routing.yml, relative paths resolved against baseDir
+ */
+export function resolvePriorityConfig(config: RoutingConfig, baseDir: string): PriorityConfig {
+  const defaults = createDefaultPriorityConfig(baseDir);
+  const settings = config.priorityProcessing;
+  const queue = config.priorityQueue;
+
+  const scoring = settings?.scoring;
+
+  return {
+    ...defaults,
+    scoring: {
+      weights: { ...defaults.scoring.weights, ...definedOnly(scoring?.weights) },
+      base: { ...defaults.scoring.base, ...definedOnly(scoring?.base) },
+      thresholds: { ...defaults.scoring.thresholds, ...definedOnly(scoring?.thresholds) },
+      keywordSets: { ...defaults.scoring.keywordSets, ...scoring?.keywordSets },
+      signals: { ...defaults.scoring.signals, ...definedOnly(scoring?.signals) },
+    },
+    ...(settings?.emergencyPatterns && { emergencyPatterns: settings.emergencyPatterns }),
+    ...(settings?.productionRepos && { productionRepos: settings.productionRepos }),
+    ...(settings?.criticalLabels && { criticalLabels: settings.criticalLabels }),
+    queue: {
+      dir: path.resolve(baseDir, queue?.dir ?? 'data'),
+      claimTimeoutMinutes: queue?.claimTimeoutMinutes ?? defaults.queue.claimTimeoutMinutes,
+      maxAttempts: queue?.maxAttempts ?? defaults.queue.maxAttempts,
+      stuckAfterHours: queue?.stuckAfterHours ?? defaults.queue.stuckAfterHours,
+    },
+    ...(config.storage && { storage: config.storage }),
+  };
+}
+
 /**
  * Create default priority configuration
  */
-export function createDefaultPriorityConfig(): PriorityConfig {
+export function createDefaultPriorityConfig(baseDir: string = process.cwd()): PriorityConfig {
   return {
-    emergencyKeywords: [
-      'production down', 'service down', 'critical', 'urgent', 'emergency',
-      'data loss', 'security breach', 'vulnerability', 'crash', 'down',
-      'cannot access', 'broken', 'not working', 'failed', 'error'
-    ],
-    highPriorityKeywords: [
-      'bug', 'issue', 'problem', 'broken', 'not working', 'performance',
-      'slow', 'timeout', 'freeze', 'hang', 'memory leak'
-    ],
-    lowPriorityKeywords: [
-      'enhancement', 'feature request', 'improvement', 'suggestion',
-      'documentation', 'cleanup', 'refactor', 'style', 'typo'
+    scoring: {
+      weights: { urgency: 0.4, importance: 0.3, businessImpact: 0.3 },
+      base: { urgency: 0.3, importance: 0.4, businessImpact: 0.3 },
+      thresholds: { emergencyUrgency: 0.9, high: 0.8, medium: 0.5 },
+      keywordSets: {
+        emergency: keywordSet('urgency', 0.6, [
+          'production down', 'service down', 'critical', 'urgent', 'emergency',
+          'data loss', 'security breach', 'vulnerability', 'crash', 'down',
+          'cannot access', 'broken', 'not working', 'failed', 'error'
+        ]),
+        high: keywordSet('urgency', 0.3, [
+          'bug', 'issue', 'problem', 'broken', 'not working', 'performance',
+          'slow', 'timeout', 'freeze', 'hang', 'memory leak'
+        ]),
+        // Not weighted by default; calibration can learn a (negative) weight
+        low: keywordSet('urgency', 0, [
+          'enhancement', 'feature request', 'improvement', 'suggestion',
+          'documentation', 'cleanup', 'refactor', 'style', 'typo'
+        ]),
+        // User-facing feature issues have high business impact
+        userFacing: keywordSet('businessImpact', 0.2, [
+          'ui', 'user', 'interface', 'experience', 'usability', 'accessibility'
+        ]),
+        // Data/security issues have high business impact
+        critical: keywordSet('businessImpact', 0.4, [
+          'data loss', 'security', 'vulnerability', 'crash', 'corruption'
+        ]),
+        // Performance issues affect user experience
+        performance: keywordSet('businessImpact', 0.3, [
+          'slow', 'performance', 'timeout', 'hang', 'freeze'
+        ])
+      },
+      signals: {
+        criticalLabel: 0.4,
+        recent: 0.2,
+        recentHours: 2,
+        productionRepo: 0.3,
+        humanAuthor: 0.2,
+        multipleAssignees: 0.1
+      }
+    },
+    emergencyPatterns: [
+      'production down', 'service down', 'data loss', 'security breach',
+      'critical vulnerability', 'system crash', 'cannot access'
     ],
     productionRepos: [
       'myprojects-ios', '100-days-workout-ios', 'delaxpm-web'
@@ -499,6 +758,22 @@ export function createDefaultPriorityConfig(): PriorityConfig {
       maxBatchSize: 5,
       similarityThreshold: 0.6,
       batchWindowMinutes: 30
+    },
+    queue: {
+      dir: path.join(baseDir, 'data'),
+      claimTimeoutMinutes: 30,
+      maxAttempts: 3,
+      stuckAfterHours: 72
     }
   };
-}
\ No newline at end of file
+}
+
+function keywordSet(factor: PriorityFactor, weight: number, keywords: string[]): PriorityKeywordSet {
+  return { factor, keywords: Object.fromEntries(keywords.map(keyword => [keyword, weight])) };
+}
+
+function definedOnly<T extends object>(values: T | undefined): { [K in keyof T]?: Exclude<T[K], undefined> } {
+  return Object.fromEntries(Object.entries(values ?? {}).filter(([, value]) => value !== undefined)) as {
+    [K in keyof T]?: Exclude<T[K], undefined>;
+  };
+}
@@ -2,33 +2,116 @@
  * GitHub Projects v2 API client
  */
 
-import { graphql } from '@octokit/graphql';
+import { GraphqlResponseError, graphql } from '@octokit/graphql';
 import type {
   ClassificationResult,
   GitHubOperationResult,
   ProjectField,
+  ProjectFieldMapping,
   ProjectInfo,
+  ProjectIteration,
+  ProjectRef,
+  ProjectTargets,
+  RoutingConfig,
+  RoutingRule,
 } from './types';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Used for projects without `fieldMappings`. Fields the project
+ * does not have are skipped. Later entries win, so bug beats feature beats documentation.
+ */
+export const DEFAULT_PROJECT_FIELD_MAPPINGS: ProjectFieldMapping[] = [
+  { when: { priority: ['critical'] }, set: { Priority: 'Critical', Status: 'Todo', Iteration: '@current' } },
+  { when: { priority: ['high'] }, set: { Priority: 'High', Status: 'Todo' } },
+  { when: { priority: ['medium'] }, set: { Priority: 'Medium', Status: 'Backlog' } },
+  { when: { priority: ['low'] }, set: { Priority: 'Low', Status: 'Backlog' } },
+  { when: { labels: ['documentation'] }, set: { Type: 'Documentation', Size: 'Small' } },
+  { when: { labels: ['feature'] }, set: { Type: 'Feature', Size: 'Large' } },
+  { when: { labels: ['bug'] }, set: { Type: 'Bug', Size: 'Medium' } },
+];
+
+export interface ProjectConfigCheck {
+  projects: Map<string, ProjectInfo>; // by projectKey
+  missing: string[]; // configured projects that could not be fetched
+  errors: string[]; // missing projects, and configured fields the live projects cannot take
+}
+
+export interface ProjectFieldUpdateResult {
+  updated: string[]; // field names
+  failed: Array<{ field: string; error: string }>;
+}
+
+export interface IssueProjectState {
+  state: 'open' | 'closed';
+  stateReason: string | null; // completed, not_planned, duplicate, reopened
+  items: Array<{ itemId: string; projectTitle: string; status: string | null }>;
+}
+
+interface FieldValueInput {
+  key: 'text' | 'number' | 'date' | 'singleSelectOptionId' | 'iterationId';
+  type: string; // GraphQL variable type
+  value: string | number;
+}
+
+interface CachedProject {
+  project: ProjectInfo;
+  expiresAt: number;
+}
+
+/**
+ * Raised when configured project fields do not exist in the live project
+ */
+export class ProjectConfigError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid project field configuration: ${errors.join('; ')}`);
+    this.name = 'ProjectConfigError';
+    this.errors = errors;
+  }
+}
+
 export class ProjectsApiClient {
   private graphqlWithAuth: typeof graphql;
+  private cacheTtlMs: number;
+  private projectCache = new Map<string, CachedProject>(); // by project ID and by projectKey
 
-  constructor(token: string) {
+  constructor(token: string, options: { cacheTtlMs?: number } = {}) {
     this.graphqlWithAuth = graphql.defaults({
       headers: {
         authorization: `token ${token}`,
       },
     });
+    this.cacheTtlMs = options.cacheTtlMs ?? 5 * 60 * 1000;
   }
 
   /**
-   * Get project information by organization and project number
+   * Forget cached project metadata, e.g. after fields or iterations were changed
    */
-  async getProject(org: string, projectNumber: number): Promise<ProjectInfo | null> {
+  clearProjectCache(): void {
+    this.projectCache.clear();
+  }
+
+  /**
+   * Get project information by owner (organization or user login) and project number
+   */
+  async getProject(
+    owner: string,
+    projectNumber: number,
+    ownerType: 'organization' | 'user' = 'organization'
+  ): Promise<ProjectInfo | null> {
+    const key = projectKey(ownerType === 'user' ? { user: owner, number: projectNumber } : { org: owner, number: projectNumber });
+    const cached = this.getCachedProject(key);
+    if (cached) {
+      return cached;
+    }
+
     try {
       const query = `
-        query($org: String!, $number: Int!) {
-          organization(login: $org) {
+        query($owner: String!, $number: Int!) {
+          ${ownerType}(login: $owner) {
             projectV2(number: $number) {
               id
               title
@@ -59,6 +142,7 @@ export class ProjectsApiClient {
                         startDate
                         id
                         title
+                        duration
                       }
                     }
                   }
@@ -70,30 +154,16 @@ export class ProjectsApiClient {
       `;
 
       const response: any = await this.graphqlWithAuth(query, {
-        org,
+        owner,
         number: projectNumber,
       });
 
-      const project = response.organization?.projectV2;
+      const project = response[ownerType]?.projectV2;
       if (!project) {
         return null;
       }
 
-      return {
-        id: project.id,
-        number: project.number,
-        title: project.title,
-        url: project.url,
-        fields: project.fields.nodes.map((field: any) => ({
-          id: field.id,
-          name: field.name,
-          dataType: field.dataType,
-          options: field.options?.map((option: any) => ({
-            id: option.id,
-            name: option.name,
-          })) || [],
-        })),
-      };
+      return this.cacheProject(this.mapProject(project), key);
     } catch (error) {
       console.error('Failed to get project info:', error);
       return null;
@@ -131,14 +201,14 @@ export class ProjectsApiClient {
       const itemId = addResponse.addProjectV2ItemByContentId.item.id;
 
       // Set field values if provided
-      if (classification.projectFields && Object.keys(classification.projectFields).length > 0) {
-        await this.setProjectFields(projectId, itemId, classification.projectFields);
-      }
+      const fieldUpdates = classification.projectFields && Object.keys(classification.projectFields).length > 0
+        ? await this.setProjectFields(projectId, itemId, classification.projectFields)
+        : null;
 
       return {
         success: true,
         projectItemId: itemId,
-        details: { projectId, issueId, itemId },
+        details: { projectId, issueId, itemId, ...(fieldUpdates && { fieldUpdates }) },
       };
     } catch (error) {
       return {
@@ -150,172 +220,177 @@ export class ProjectsApiClient {
   }
 
   /**
-   * Set project field values for an item
+   * Set project field values for an item in one aliased mutation. Fields that cannot be
+   * resolved or that GitHub rejects are reported per field; the others are still set.
    */
   async setProjectFields(
     projectId: string,
     itemId: string,
     fields: Record<string, string | number>
-  ): Promise<void> {
-    try {
-      // Get project info to resolve field IDs and option IDs
-      const project = await this.getProjectById(projectId);
-      if (!project) {
-        throw new Error('Project not found');
+  ): Promise<ProjectFieldUpdateResult> {
+    // Get project info to resolve field IDs and option IDs
+    const project = await this.getProjectById(projectId);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const result: ProjectFieldUpdateResult = { updated: [], failed: [] };
+    const updates: Array<{ alias: string; field: ProjectField; input: FieldValueInput }> = [];
+
+    for (const [fieldName, value] of Object.entries(fields)) {
+      const field = project.fields.find(f => f.name === fieldName);
+      if (!field) {
+        result.failed.push({ field: fieldName, error: `Field '${fieldName}' not found in project` });
+        continue;
       }
 
-      for (const [fieldName, value] of Object.entries(fields)) {
-        const field = project.fields.find(f => f.name === fieldName);
-        if (!field) {
-          console.warn(`Field '${fieldName}' not found in project`);
-          continue;
+      const input = fieldValueInput(field, value, project.fields);
+      if ('error' in input) {
+        result.failed.push({ field: fieldName, error: input.error });
+      } else {
+        updates.push({ alias: `field${updates.length}`, field, input });
+      }
+    }
+
+    if (updates.length > 0) {
+      const variables: Record<string, unknown> = { projectId, itemId };
+      const declarations = ['$projectId: ID!', '$itemId: ID!'];
+      const selections = updates.map(({ alias, field, input }) => {
+        variables[`${alias}Id`] = field.id;
+        variables[`${alias}Value`] = input.value;
+        declarations.push(`$${alias}Id: ID!`, `$${alias}Value: ${input.type}`);
+        return `
+          ${alias}: updateProjectV2ItemFieldValue(input: {
+            projectId: $projectId
+            itemId: $itemId
+            fieldId: $${alias}Id
+            value: { ${input.key}: $${alias}Value }
+          }) {
+            projectV2Item {
+              id
+            }
+          }`;
+      });
+
+      // A rejected field fails only its own alias; errors without a path fail every field
+      let errors: Array<{ message: string; path?: Array<string | number> }> = [];
+      try {
+        await this.graphqlWithAuth(`mutation(${declarations.join(', ')}) {${selections.join('')}\n}`, variables);
+      } catch (error) {
+        if (!(error instanceof GraphqlResponseError)) {
+          throw error;
         }
+        errors = error.errors ?? [];
+      }
 
-        await this.updateProjectField(projectId, itemId, field, value);
+      const general = errors.find(error => !error.path?.length);
+      for (const { alias, field } of updates) {
+        const error = errors.find(e => e.path?.[0] === alias) ?? general;
+        if (error) {
+          result.failed.push({ field: field.name, error: error.message });
+        } else {
+          result.updated.push(field.name);
+        }
       }
-    } catch (error) {
-      console.error('Failed to set project fields:', error);
-      throw error;
     }
+
+    result.failed.forEach(failure => console.warn(`Failed to set project field '${failure.field}': ${failure.error}`));
+    return result;
   }
 
   /**
-   * Update a specific project field
+   * Convert a ProjectV2 GraphQL node into ProjectInfo
    */
-  private async updateProjectField(
-    projectId: string,
-    itemId: string,
-    field: ProjectField,
-    value: string | number
-  ): Promise<void> {
-    try {
-      let mutation: string;
-      let variables: Record<string, any>;
-
-      switch (field.dataType) {
-        case 'TEXT':
-          mutation = `
-            mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: String!) {
-              updateProjectV2ItemFieldValue(input: {
-                projectId: $projectId
-                itemId: $itemId
-                fieldId: $fieldId
-                value: {
-                  text: $value
-                }
-              }) {
-                projectV2Item {
-                  id
-                }
-              }
-            }
-          `;
-          variables = {
-            projectId,
-            itemId,
-            fieldId: field.id,
-            value: String(value),
-          };
-          break;
-
-        case 'NUMBER':
-          mutation = `
-            mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: Float!) {
-              updateProjectV2ItemFieldValue(input: {
-                projectId: $projectId
-                itemId: $itemId
-                fieldId: $fieldId
-                value: {
-                  number: $value
-                }
-              }) {
-                projectV2Item {
-                  id
-                }
-              }
-            }
-          `;
-          variables = {
-            projectId,
-            itemId,
-            fieldId: field.id,
-            value: Number(value),
-          };
-          break;
-
-        case 'SINGLE_SELECT':
-          // Find option ID by name
-          const option = field.options?.find(opt => opt.name === String(value));
-          if (!option) {
-            console.warn(`Option '${value}' not found for field '${field.name}'`);
-            return;
-          }
+  private mapProject(project: any): ProjectInfo {
+    return {
+      id: project.id,
+      number: project.number,
+      title: project.title,
+      url: project.url,
+      fields: project.fields.nodes.map((field: any) => ({
+        id: field.id,
+        name: field.name,
+        dataType: field.dataType,
+        options: field.options?.map((option: any) => ({
+          id: option.id,
+          name: option.name,
+        })) || [],
+        ...(field.configuration && {
+          iterations: (field.configuration.iterations ?? []).map((iteration: any) => ({
+            id: iteration.id,
+            title: iteration.title,
+            startDate: iteration.startDate,
+            duration: iteration.duration,
+          })),
+        }),
+      })),
+    };
+  }
 
-          mutation = `
-            mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $optionId: String!) {
-              updateProjectV2ItemFieldValue(input: {
-                projectId: $projectId
-                itemId: $itemId
-                fieldId: $fieldId
-                value: {
-                  singleSelectOptionId: $optionId
-                }
-              }) {
-                projectV2Item {
-                  id
-                }
-              }
-            }
-          `;
-          variables = {
-            projectId,
-            itemId,
-            fieldId: field.id,
-            optionId: option.id,
-          };
-          break;
-
-        case 'DATE':
-          mutation = `
-            mutation($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: Date!) {
-              updateProjectV2ItemFieldValue(input: {
-                projectId: $projectId
-                itemId: $itemId
-                fieldId: $fieldId
-                value: {
-                  date: $value
-                }
-              }) {
-                projectV2Item {
-                  id
-                }
-              }
-            }
-          `;
-          variables = {
-            projectId,
-            itemId,
-            fieldId: field.id,
-            value: String(value),
-          };
-          break;
-
-        default:
-          console.warn(`Unsupported field type: ${field.dataType}`);
-          return;
+  /**
+   * Fetch every configured project and check the configured fields against them
+   */
+  async checkProjectConfig(config: RoutingConfig): Promise<ProjectConfigCheck> {
+    const projects = new Map<string, ProjectInfo>();
+    const missing: string[] = [];
+    const errors: string[] = [];
+
+    for (const { ref, location } of listConfiguredProjects(config)) {
+      const key = projectKey(ref);
+      if (projects.has(key) || missing.includes(key)) {
+        continue;
       }
 
-      await this.graphqlWithAuth(mutation, variables);
-    } catch (error) {
-      console.error(`Failed to update field '${field.name}':`, error);
-      throw error;
+      // The schema guarantees exactly one of org or user
+      const project = ref.user !== undefined
+        ? await this.getProject(ref.user, ref.number, 'user')
+        : await this.getProject(ref.org ?? '', ref.number);
+      if (project) {
+        projects.set(key, project);
+      } else {
+        missing.push(key);
+        errors.push(`${location}: project ${key} not found`);
+      }
+    }
+
+    return { projects, missing, errors: [...errors, ...validateProjectFieldConfig(config, projects)] };
+  }
+
+  /**
+   * Cached project, or null when missing or expired
+   */
+  private getCachedProject(key: string): ProjectInfo | null {
+    const entry = this.projectCache.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.projectCache.delete(key);
+      return null;
+    }
+    return entry.project;
+  }
+
+  /**
+   * Cache a project under its ID and, when known, its projectKey
+   */
+  private cacheProject(project: ProjectInfo, key?: string): ProjectInfo {
+    if (this.cacheTtlMs > 0) {
+      const entry = { project, expiresAt: Date.now() + this.cacheTtlMs };
+      this.projectCache.set(project.id, entry);
+      if (key) {
+        this.projectCache.set(key, entry);
+      }
     }
+    return project;
   }
 
   /**
    * Get project by ID (used internally)
    */
   private async getProjectById(projectId: string): Promise<ProjectInfo | null> {
+    const cached = this.getCachedProject(projectId);
+    if (cached) {
+      return cached;
+    }
+
     try {
       const query = `
         query($projectId: ID!) {
@@ -345,6 +420,14 @@ export class ProjectsApiClient {
                     id
                     name
                     dataType
+                    configuration {
+                      iterations {
+                        startDate
+                        id
+                        title
+                        duration
+                      }
+                    }
                   }
                 }
               }
@@ -360,21 +443,7 @@ export class ProjectsApiClient {
         return null;
       }
 
-      return {
-        id: project.id,
-        number: project.number,
-        title: project.title,
-        url: project.url,
-        fields: project.fields.nodes.map((field: any) => ({
-          id: field.id,
-          name: field.name,
-          dataType: field.dataType,
-          options: field.options?.map((option: any) => ({
-            id: option.id,
-            name: option.name,
-          })) || [],
-        })),
-      };
+      return this.cacheProject(this.mapProject(project));
     } catch (error) {
       console.error('Failed to get project by ID:', error);
       return null;
@@ -413,17 +482,23 @@ export class ProjectsApiClient {
    * Check if issue is already in project
    */
   async isIssueInProject(projectId: string, issueId: string): Promise<boolean> {
+    return (await this.findProjectItem(projectId, issueId)) !== null;
+  }
+
+  /**
+   * The issue's item ID in a project, or null when it is not in the project
+   */
+  async findProjectItem(projectId: string, issueId: string): Promise<string | null> {
     try {
       const query = `
-        query($projectId: ID!, $issueId: ID!) {
-          node(id: $projectId) {
-            ... on ProjectV2 {
-              items(first: 100) {
+        query($issueId: ID!) {
+          node(id: $issueId) {
+            ... on Issue {
+              projectItems(first: 50) {
                 nodes {
-                  content {
-                    ... on Issue {
-                      id
-                    }
+                  id
+                  project {
+                    id
                   }
                 }
               }
@@ -432,60 +507,357 @@ export class ProjectsApiClient {
         }
       `;
 
-      const response: any = await this.graphqlWithAuth(query, {
-        projectId,
-        issueId,
-      });
+      const response: any = await this.graphqlWithAuth(query, { issueId });
 
-      const items = response.node?.items?.nodes || [];
-      return items.some((item: any) => item.content?.id === issueId);
+      const items = response.node?.projectItems?.nodes || [];
+      return items.find((item: any) => item.project?.id === projectId)?.id ?? null;
     } catch (error) {
       console.error('Failed to check if issue is in project:', error);
-      return false;
+      return null;
+    }
+  }
+
+  /**
+   * An issue's state and the value of `statusField` on each of its project items
+   */
+  async getIssueProjectState(
+    repo: string,
+    issueNumber: number,
+    statusField: string
+  ): Promise<IssueProjectState | null> {
+    try {
+      const [owner, name] = repo.split('/');
+      const query = `
+        query($owner: String!, $name: String!, $number: Int!, $statusField: String!) {
+          repository(owner: $owner, name: $name) {
+            issue(number: $number) {
+              state
+              stateReason
+              projectItems(first: 50) {
+                nodes {
+                  id
+                  project {
+                    title
+                  }
+                  fieldValueByName(name: $statusField) {
+                    ... on ProjectV2ItemFieldSingleSelectValue {
+                      name
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `;
+
+      const response: any = await this.graphqlWithAuth(query, { owner, name, number: issueNumber, statusField });
+      const issue = response.repository?.issue;
+      if (!issue) {
+        return null;
+      }
+
+      return {
+        state: issue.state === 'CLOSED' ? 'closed' : 'open',
+        stateReason: issue.stateReason ? String(issue.stateReason).toLowerCase() : null,
+        items: (issue.projectItems?.nodes ?? []).map((item: any) => ({
+          itemId: item.id,
+          projectTitle: item.project?.title ?? '',
+          status: item.fieldValueByName?.name ?? null,
+        })),
+      };
+    } catch (error) {
+      console.error('Failed to get issue project state:', error);
+      return null;
     }
   }
 
   /**
-   * Create default project field mappings based on classification
+   * Project field values for a classification: the mappings (built-in defaults unless given)
+   * followed by the classification's own projectFields
    */
   static createDefaultProjectFields(
-    classification: ClassificationResult
+    classification: ClassificationResult,
+    mappings: ProjectFieldMapping[] = DEFAULT_PROJECT_FIELD_MAPPINGS,
+    ruleName?: string
   ): Record<string, string | number> {
     const fields: Record<string, string | number> = {};
 
-    // Map priority to common field names
-    switch (classification.priority) {
-      case 'critical':
-        fields.Priority = 'Critical';
-        fields.Status = 'Todo';
-        break;
-      case 'high':
-        fields.Priority = 'High';
-        fields.Status = 'Todo';
-        break;
-      case 'medium':
-        fields.Priority = 'Medium';
-        fields.Status = 'Backlog';
-        break;
-      case 'low':
-        fields.Priority = 'Low';
-        fields.Status = 'Backlog';
-        break;
-    }
-
-    // Estimate size based on labels
-    if (classification.labels.includes('bug')) {
-      fields.Type = 'Bug';
-      fields.Size = 'Medium';
-    } else if (classification.labels.includes('feature')) {
-      fields.Type = 'Feature';
-      fields.Size = 'Large';
-    } else if (classification.labels.includes('documentation')) {
-      fields.Type = 'Documentation';
-      fields.Size = 'Small';
+    for (const mapping of mappings) {
+      if (mappingMatches(mapping, classification, ruleName)) {
+        Object.assign(fields, mapping.set);
+      }
     }
 
     // Merge with explicit project fields from classification
     return { ...fields, ...classification.projectFields };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Stable name of a project reference: orgs/<org>/projects/<n> or users/<user>/projects/<n>
+ */
+export function projectKey(ref: ProjectRef): string {
+  return ref.user !== undefined
+    ? `users/${ref.user}/projects/${ref.number}`
+    : `orgs/${ref.org}/projects/${ref.number}`;
+}
+
+/**
+ * Projects an issue routed to `repo` is added to: the matched rule's route.project,
+ * else projectsByRepo for the repo, else defaults.project
+ */
+export function resolveProjectTargets(config: RoutingConfig, repo: string, rule?: RoutingRule): ProjectRef[] {
+  const targets = rule?.route.project ?? config.projectsByRepo?.[repo] ?? config.defaults.project;
+  if (!targets) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return (Array.isArray(targets) ? targets : [targets]).filter(ref => {
+    const key = projectKey(ref);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Every project reference in the configuration, with where it is declared
+ */
+export function listConfiguredProjects(config: RoutingConfig): Array<{ ref: ProjectRef; location: string }> {
+  const entries: Array<{ ref: ProjectRef; location: string }> = [];
+  const add = (targets: ProjectTargets, location: string): void => {
+    if (Array.isArray(targets)) {
+      targets.forEach((ref, i) => entries.push({ ref, location: `${location}[${i}]` }));
+    } else {
+      entries.push({ ref: targets, location });
+    }
+  };
+
+  if (config.defaults.project) {
+    add(config.defaults.project, 'defaults.project');
+  }
+  for (const [repo, targets] of Object.entries(config.projectsByRepo ?? {})) {
+    add(targets, `projectsByRepo["${repo}"]`);
+  }
+  config.rules.forEach((rule, i) => {
+    if (rule.route.project) {
+      add(rule.route.project, `rules[${i}].route.project`);
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Whether every condition of a mapping holds for a classification
+ */
+export function mappingMatches(
+  mapping: ProjectFieldMapping,
+  classification: ClassificationResult,
+  ruleName?: string
+): boolean {
+  const { priority, labels, repo, rule } = mapping.when;
+
+  return (!priority || priority.includes(classification.priority))
+    && (!labels || labels.some(label => classification.labels.includes(label)))
+    && (!repo || repo.includes(classification.repo))
+    && (!rule || (ruleName !== undefined && rule.includes(ruleName)));
+}
+
+/**
+ * Check every project's field mappings, and each rule's projectFields against the projects
+ * the rule routes to. Returns one message per unknown field, option, iteration or
+ * unresolvable value. Projects missing from `projects` are skipped.
+ */
+export function validateProjectFieldConfig(
+  config: RoutingConfig,
+  projects: Map<string, ProjectInfo>,
+  now: Date = new Date()
+): string[] {
+  const errors: string[] = [];
+  const ruleNames = new Set(config.rules.flatMap(rule => (rule.name !== undefined ? [rule.name] : [])));
+
+  const checkFields = (location: string, values: Record<string, string | number>, project: ProjectInfo, suffix = ''): void => {
+    for (const [name, value] of Object.entries(values)) {
+      const field = project.fields.find(f => f.name === name);
+      const problem = field
+        ? checkFieldValue(field, value, project.fields, now)
+        : `unknown field (project fields: ${project.fields.map(f => f.name).join(', ')})`;
+      if (problem) {
+        errors.push(`${location}.${name}: ${problem}${suffix}`);
+      }
+    }
+  };
+
+  for (const { ref, location } of listConfiguredProjects(config)) {
+    const project = projects.get(projectKey(ref));
+    if (!project) continue;
+
+    (ref.fieldMappings ?? []).forEach((mapping, i) => {
+      const mappingLocation = `${location}.fieldMappings[${i}]`;
+      for (const name of mapping.when.rule ?? []) {
+        if (!ruleNames.has(name)) {
+          errors.push(`${mappingLocation}.when.rule: no rule is named '${name}'`);
+        }
+      }
+      checkFields(`${mappingLocation}.set`, mapping.set, project);
+    });
+  }
+
+  config.rules.forEach((rule, i) => {
+    if (!rule.route.projectFields) return;
+
+    for (const ref of resolveProjectTargets(config, rule.route.repo, rule)) {
+      const project = projects.get(projectKey(ref));
+      if (project) {
+        checkFields(`rules[${i}].route.projectFields`, rule.route.projectFields, project, ` (${projectKey(ref)})`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Why a configured value cannot be set on a field, or null when it can
+ */
+function checkFieldValue(
+  field: ProjectField,
+  value: string | number,
+  fields: ProjectField[],
+  now: Date
+): string | null {
+  const text = String(value);
+
+  switch (field.dataType) {
+    case 'NUMBER':
+      return Number.isFinite(Number(value)) ? null : `'${text}' is not a number`;
+    case 'SINGLE_SELECT':
+      return field.options?.some(option => option.name === text)
+        ? null
+        : `unknown option '${text}' (options: ${(field.options ?? []).map(option => option.name).join(', ')})`;
+    case 'ITERATION':
+      // @current/@next depend on the day an issue is routed; titles must exist now
+      return ['@current', '@next'].includes(text.trim().toLowerCase()) || resolveIteration(field, text, now)
+        ? null
+        : `unknown iteration '${text}'`;
+    case 'DATE': {
+      const expression = text.trim().toLowerCase();
+      if (expression === 'end-of-sprint' || expression === 'next-sprint') {
+        return fields.some(f => f.dataType === 'ITERATION') ? null : `'${text}' needs an iteration field in the project`;
+      }
+      return resolveDateValue(text, fields, now) ? null : `cannot resolve date '${text}'`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * The updateProjectV2ItemFieldValue value for a field, or why it cannot be set.
+ * ITERATION values and relative DATE values are resolved against the project's iterations now.
+ */
+function fieldValueInput(
+  field: ProjectField,
+  value: string | number,
+  fields: ProjectField[]
+): FieldValueInput | { error: string } {
+  switch (field.dataType) {
+    case 'TEXT':
+      return { key: 'text', type: 'String!', value: String(value) };
+    case 'NUMBER':
+      return { key: 'number', type: 'Float!', value: Number(value) };
+    case 'SINGLE_SELECT': {
+      const option = field.options?.find(opt => opt.name === String(value));
+      return option
+        ? { key: 'singleSelectOptionId', type: 'String!', value: option.id }
+        : { error: `Option '${value}' not found for field '${field.name}'` };
+    }
+    case 'DATE': {
+      const date = resolveDateValue(String(value), fields);
+      return date
+        ? { key: 'date', type: 'Date!', value: date }
+        : { error: `Cannot resolve date '${value}' for field '${field.name}'` };
+    }
+    case 'ITERATION': {
+      const iteration = resolveIteration(field, String(value));
+      return iteration
+        ? { key: 'iterationId', type: 'String!', value: iteration.id }
+        : { error: `Iteration '${value}' not found for field '${field.name}'` };
+    }
+    default:
+      return { error: `Unsupported field type: ${field.dataType}` };
+  }
+}
+
+/**
+ * Resolve "@current", "@next" or an iteration title (case-insensitive) to an iteration
+ */
+export function resolveIteration(
+  field: ProjectField,
+  value: string,
+  now: Date = new Date()
+): ProjectIteration | null {
+  const iterations = [...(field.iterations ?? [])].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const today = toDateString(now);
+  const current = iterations.find(iteration => iteration.startDate <= today && today <= iterationEnd(iteration));
+
+  switch (value.trim().toLowerCase()) {
+    case '@current':
+      return current ?? null;
+    case '@next':
+      return iterations.find(iteration => iteration.startDate > (current ? current.startDate : today)) ?? null;
+    default:
+      return iterations.find(iteration => iteration.title.toLowerCase() === value.trim().toLowerCase()) ?? null;
+  }
+}
+
+/**
+ * Resolve a DATE field value to YYYY-MM-DD. Accepts absolute dates and relative
+ * expressions: "today", "+3d", "-1d", "+2w", "end-of-sprint" (last day of the current
+ * iteration of the first iteration field that has one) and "next-sprint" (its first day).
+ */
+export function resolveDateValue(
+  value: string,
+  fields: ProjectField[],
+  now: Date = new Date()
+): string | null {
+  const expression = value.trim().toLowerCase();
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(expression)) {
+    return expression.substring(0, 10);
+  }
+  if (expression === 'today') {
+    return toDateString(now);
+  }
+
+  const offset = expression.match(/^([+-])(\d+)([dw])$/);
+  if (offset) {
+    const days = Number(offset[2]) * (offset[3] === 'w' ? 7 : 1) * (offset[1] === '-' ? -1 : 1);
+    return toDateString(new Date(now.getTime() + days * DAY_MS));
+  }
+
+  if (expression === 'end-of-sprint' || expression === 'next-sprint') {
+    for (const field of fields.filter(f => f.dataType === 'ITERATION')) {
+      const iteration = resolveIteration(field, expression === 'end-of-sprint' ? '@current' : '@next', now);
+      if (iteration) {
+        return expression === 'end-of-sprint' ? iterationEnd(iteration) : iteration.startDate;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Last day (inclusive) of an iteration
+ */
+function iterationEnd(iteration: ProjectIteration): string {
+  return toDateString(new Date(Date.parse(`${iteration.startDate}T00:00:00Z`) + (iteration.duration - 1) * DAY_MS));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
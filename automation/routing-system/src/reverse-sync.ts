@@ -0,0 +1,288 @@
+/**
+ * Reverse sync of routed issues
+ * Announces project Status changes and closure of routed (target) issues on the source
+ * issue and, for Slack-originated issues, to a Slack-compatible webhook. What each
+ * destination was last told is persisted, so re-running the sync never repeats an update.
+ */
+
+import path from 'path';
+import type { GitHubApiClient } from './github-api';
+import type { IssueProjectState, ProjectsApiClient } from './projects-api';
+import {
+  FileStorage,
+  STORAGE_NAMESPACES,
+  createStorage,
+  type StorageBackend,
+  type StorageConfig,
+} from './storage';
+import type { ProjectItemRef, RoutingConfig } from './types';
+
+export type SyncDestination = 'issue' | 'webhook';
+
+/**
+ * What a destination has been told about a routed issue
+ */
+export interface RoutedItemSnapshot {
+  state: 'open' | 'closed';
+  stateReason: string | null;
+  statuses: Record<string, string | null>; // project item ID -> Status option
+}
+
+/**
+ * A routed issue as persisted in storage, keyed by the source issue URL
+ */
+export interface RoutedItem {
+  id: string; // source issue URL
+  sourceRepo: string; // router repo
+  sourceNumber: number;
+  slackPermalink?: string;
+  targetRepo: string;
+  targetNumber: number;
+  targetUrl: string;
+  projectItems: ProjectItemRef[];
+  routedAt: string;
+  announced: Partial<Record<SyncDestination, RoutedItemSnapshot>>;
+  lastSyncedAt?: string;
+  finishedAt?: string; // closure announced everywhere; no longer synced
+}
+
+export interface ReverseSyncConfig {
+  statusField: string;
+  dir: string; // file storage directory when `storage` is not set
+  retentionDays: number;
+  webhookUrl?: string | undefined;
+  storage?: StorageConfig | undefined;
+}
+
+export interface ReverseSyncClients {
+  github: Pick<GitHubApiClient, 'commentOnIssue'>;
+  projects: Pick<ProjectsApiClient, 'getIssueProjectState'>;
+  fetch?: typeof fetch;
+}
+
+export interface SyncAnnouncement {
+  id: string;
+  destination: SyncDestination;
+  changes: string[];
+}
+
+export interface ReverseSyncResult {
+  checked: number;
+  announced: SyncAnnouncement[];
+  failed: Array<{ id: string; destination?: SyncDestination; error: string }>;
+  finished: number; // items whose closure is now announced everywhere
+  purged: number; // items dropped after retentionDays
+}
+
+// Routed issues start out open, with no project status observed yet
+const INITIAL_SNAPSHOT: RoutedItemSnapshot = { state: 'open', stateReason: null, statuses: {} };
+
+export class ReverseSync {
+  private config: ReverseSyncConfig;
+  private clients: ReverseSyncClients;
+  private storage: StorageBackend;
+
+  constructor(config: ReverseSyncConfig, clients: ReverseSyncClients) {
+    this.config = config;
+    this.clients = clients;
+    this.storage = config.storage ? createStorage(config.storage) : new FileStorage(config.dir);
+  }
+
+  /**
+   * Remember a routed issue. Routing the same source issue again keeps what was
+   * already announced, unless it now points at a different target issue.
+   */
+  async track(item: Omit<RoutedItem, 'announced' | 'lastSyncedAt' | 'finishedAt'>): Promise<void> {
+    await this.storage.update<RoutedItem>(STORAGE_NAMESPACES.routedItems, records => {
+      const existing = records[item.id];
+      records[item.id] = existing?.targetUrl === item.targetUrl
+        ? { ...existing, ...item, projectItems: mergeProjectItems(existing.projectItems, item.projectItems) }
+        : { ...item, announced: {} };
+    });
+  }
+
+  /**
+   * Every tracked item, oldest first
+   */
+  async listItems(): Promise<RoutedItem[]> {
+    const records = await this.storage.load<RoutedItem>(STORAGE_NAMESPACES.routedItems);
+    return Object.values(records).sort((a, b) => a.routedAt.localeCompare(b.routedAt));
+  }
+
+  /**
+   * Check every unfinished item and announce what changed since each destination was last told.
+   * A destination's snapshot is only advanced after it accepted the update, so failures are retried.
+   */
+  async sync(now: Date = new Date()): Promise<ReverseSyncResult> {
+    const result: ReverseSyncResult = { checked: 0, announced: [], failed: [], finished: 0, purged: 0 };
+    const cutoff = new Date(now.getTime() - this.config.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+    result.purged = await this.storage.update<RoutedItem, number>(STORAGE_NAMESPACES.routedItems, records => {
+      const expired = Object.entries(records).filter(([, item]) => item.routedAt < cutoff).map(([id]) => id);
+      expired.forEach(id => delete records[id]);
+      return expired.length;
+    });
+
+    for (const item of await this.listItems()) {
+      if (item.finishedAt) continue;
+      result.checked++;
+
+      const state = await this.clients.projects.getIssueProjectState(item.targetRepo, item.targetNumber, this.config.statusField);
+      if (!state) {
+        result.failed.push({ id: item.id, error: `Could not read ${item.targetRepo}#${item.targetNumber}` });
+        continue;
+      }
+
+      const current = snapshotOf(item, state);
+      const snapshots: Partial<Record<SyncDestination, RoutedItemSnapshot>> = {};
+
+      for (const destination of this.destinationsFor(item)) {
+        const changes = describeChanges(item.announced[destination] ?? INITIAL_SNAPSHOT, current, state, this.config.statusField);
+        if (changes.length === 0) {
+          snapshots[destination] = current; // adopts first-seen statuses silently
+          continue;
+        }
+
+        try {
+          await this.announce(item, destination, changes);
+          snapshots[destination] = current;
+          result.announced.push({ id: item.id, destination, changes });
+        } catch (error) {
+          result.failed.push({ id: item.id, destination, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+
+      const finished = await this.storage.update<RoutedItem, boolean>(STORAGE_NAMESPACES.routedItems, records => {
+        const record = records[item.id];
+        if (!record) return false;
+
+        record.announced = { ...record.announced, ...snapshots };
+        record.lastSyncedAt = now.toISOString();
+        if (this.destinationsFor(record).every(destination => record.announced[destination]?.state === 'closed')) {
+          record.finishedAt = now.toISOString();
+          return true;
+        }
+        return false;
+      });
+      if (finished) result.finished++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Release the storage backend
+   */
+  async close(): Promise<void> {
+    await this.storage.close();
+  }
+
+  /**
+   * The source issue always; the webhook for Slack-originated issues when one is configured
+   */
+  private destinationsFor(item: RoutedItem): SyncDestination[] {
+    return item.slackPermalink && this.config.webhookUrl ? ['issue', 'webhook'] : ['issue'];
+  }
+
+  private async announce(item: RoutedItem, destination: SyncDestination, changes: string[]): Promise<void> {
+    const target = `${item.targetRepo}#${item.targetNumber}`;
+
+    if (destination === 'issue') {
+      const body = [`🔄 **Update on ${target}**`, '', ...changes.map(change => `- ${change}`), '', `Follow it at ${item.targetUrl}`].join('\n');
+      const posted = await this.clients.github.commentOnIssue(item.sourceRepo, item.sourceNumber, body);
+      if (!posted.success) {
+        throw new Error(posted.error ?? 'Comment failed');
+      }
+      return;
+    }
+
+    const { webhookUrl } = this.config;
+    if (!webhookUrl) {
+      throw new Error('No webhook URL configured');
+    }
+
+    const fetchImpl = this.clients.fetch ?? fetch;
+    const text = `🔄 Update on <${item.targetUrl}|${target}> (reported in <${item.slackPermalink}|this thread>): ${changes.join('; ')}`;
+    const response = await fetchImpl(webhookUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ text }),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Current state of an item, limited to the project items recorded when it was routed
+ */
+function snapshotOf(item: RoutedItem, state: IssueProjectState): RoutedItemSnapshot {
+  const statuses: Record<string, string | null> = {};
+  for (const ref of item.projectItems) {
+    const projectItem = state.items.find(candidate => candidate.itemId === ref.itemId);
+    if (projectItem) {
+      statuses[ref.itemId] = projectItem.status;
+    }
+  }
+
+  return { state: state.state, stateReason: state.stateReason, statuses };
+}
+
+/**
+ * One line per Status change and state change. A project item's first observed Status is
+ * its baseline, not a change.
+ */
+export function describeChanges(
+  previous: RoutedItemSnapshot,
+  current: RoutedItemSnapshot,
+  state: IssueProjectState,
+  statusField: string
+): string[] {
+  const changes: string[] = [];
+
+  for (const [itemId, status] of Object.entries(current.statuses)) {
+    if (!(itemId in previous.statuses) || previous.statuses[itemId] === status) continue;
+
+    const project = state.items.find(item => item.itemId === itemId)?.projectTitle;
+    changes.push(`${statusField}${project ? ` (${project})` : ''}: ${previous.statuses[itemId] ?? 'none'} → ${status ?? 'none'}`);
+  }
+
+  if (previous.state !== current.state) {
+    changes.push(current.state === 'closed'
+      ? `✅ Closed${current.stateReason ? ` as ${current.stateReason.replace(/_/g, ' ')}` : ''}`
+      : '↩️ Reopened');
+  }
+
+  return changes;
+}
+
+function mergeProjectItems(existing: ProjectItemRef[], added: ProjectItemRef[]): ProjectItemRef[] {
+  const merged = [...existing];
+  for (const ref of added) {
+    if (!merged.some(item => item.itemId === ref.itemId)) {
+      merged.push(ref);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Build the sync configuration from routing.yml; the webhook URL is read from the
+ * environment variable named by reverseSync.webhookUrlEnv
+ */
+export function resolveReverseSyncConfig(
+  config: RoutingConfig,
+  baseDir: string,
+  env: NodeJS.ProcessEnv = process.env
+): ReverseSyncConfig {
+  const settings = config.reverseSync;
+
+  return {
+    statusField: settings?.statusField ?? 'Status',
+    dir: path.resolve(baseDir, settings?.dir ?? 'data'),
+    retentionDays: settings?.retentionDays ?? 90,
+    webhookUrl: env[settings?.webhookUrlEnv ?? 'ROUTING_SYNC_WEBHOOK_URL'] || undefined,
+    ...(config.storage && { storage: config.storage }),
+  };
+}
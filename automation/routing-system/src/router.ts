@@ -2,17 +2,49 @@
  * Main routing logic - orchestrates rule-based + LLM classification
  */
 
-import { IssueClassifier } from './classifier';
+import path from 'path';
+import { ApiUsageMonitor, resolveApiUsageConfig } from './api-usage-monitor';
+import { BudgetExceededError, IssueClassifier } from './classifier';
+import { DuplicateDetector, createDefaultDuplicateConfig } from './duplicate-detector';
+import { ReverseSync, resolveReverseSyncConfig } from './reverse-sync';
+import { DEFAULT_SIMILARITY_OPTIONS } from './similarity';
 import { GitHubApiClient } from './github-api';
-import { ProjectsApiClient } from './projects-api';
-import type {
-  ClassificationContext,
-  ClassificationResult,
-  IssueData,
-  RouterContext,
-  RoutingConfig,
-  RoutingResult,
-  RoutingRule,
+import {
+  buildTrace,
+  describeRule,
+  evaluateRules,
+  explainRules,
+  rankCandidates,
+  selectRule,
+  type RuleEvaluation,
+  type RuleExplanation,
+} from './rule-engine';
+import {
+  DEFAULT_PROJECT_FIELD_MAPPINGS,
+  ProjectConfigError,
+  ProjectsApiClient,
+  projectKey,
+  resolveProjectTargets,
+  type ProjectConfigCheck,
+} from './projects-api';
+import {
+  type BudgetGuardResult,
+  type ClassificationContext,
+  type ClassificationResult,
+  type ConditionTrace,
+  type DuplicatePolicy,
+  type GitHubDuplicate,
+  type GitHubDuplicateCheckResult,
+  type GitHubOperationResult,
+  type HistoryCheckResult,
+  type HistoryDuplicate,
+  type IssueData,
+  type ProjectItemRef,
+  type RouterContext,
+  type RoutingConfig,
+  type RoutingResult,
+  type RoutingRule,
+  type RoutingTrace,
 } from './types';
 
 export class IssueRouter {
@@ -21,14 +53,34 @@ export class IssueRouter {
   private projectsClient: ProjectsApiClient;
   private config: RoutingConfig;
   private verbose: boolean;
+  private explain: boolean;
+  private dryRun: boolean;
+  private duplicateDetector: DuplicateDetector | null;
+  private usageMonitor: ApiUsageMonitor | null;
+  private reverseSync: ReverseSync | null;
+  private historyLoaded: Promise<void> | null = null;
+  private batchClassifications = new Map<string, ClassificationResult>(); // issue URL -> batched LLM result
+  private projectSetup: Promise<ProjectConfigCheck> | null = null;
 
   constructor(context: RouterContext) {
     this.config = context.config;
     this.verbose = context.verbose ?? false;
+    this.explain = context.explain ?? false;
+    this.dryRun = context.dryRun ?? false;
     
-    this.classifier = new IssueClassifier(context.config, context.openAIApiKey);
+    this.usageMonitor = context.apiUsageMonitor ?? this.createApiUsageMonitor();
+    this.classifier = new IssueClassifier(context.config, context.openAIApiKey, this.usageMonitor);
     this.githubClient = new GitHubApiClient(context.gitHubToken, context.config);
-    this.projectsClient = new ProjectsApiClient(context.gitHubToken);
+    this.projectsClient = new ProjectsApiClient(context.gitHubToken, {
+      ...(context.config.projectCache && { cacheTtlMs: context.config.projectCache.ttlSeconds * 1000 }),
+    });
+    this.duplicateDetector = context.duplicateDetector ?? this.createDuplicateDetector();
+    this.reverseSync = this.config.reverseSync?.enabled
+      ? new ReverseSync(resolveReverseSyncConfig(this.config, process.cwd()), {
+          github: this.githubClient,
+          projects: this.projectsClient,
+        })
+      : null;
   }
 
   /**
@@ -37,32 +89,79 @@ export class IssueRouter {
   async routeIssue(issue: IssueData, routerRepo: string): Promise<RoutingResult> {
     const startTime = Date.now();
     const logs: string[] = [];
+    let trace: RoutingTrace | undefined;
+    let historyCheck: HistoryCheckResult | undefined;
+    let budgetGuard: BudgetGuardResult | undefined;
+    const plannedActions: string[] = [];
     
     try {
       this.log(logs, `Starting routing for issue #${issue.number}: "${issue.title}"`);
 
+      // Step 0: Processing history - reuse the earlier routing decision instead of calling the LLM again
+      historyCheck = await this.checkProcessingHistory(issue);
+      const previousClassification = historyCheck?.isDuplicate
+        ? this.restoreClassification(historyCheck, issue)
+        : null;
+
+      if (historyCheck?.isDuplicate) {
+        this.log(logs, `♻️ Already processed (${historyCheck.reason}), skipping LLM: saved ${historyCheck.savedApiCalls} API call(s)`);
+      } else if (historyCheck?.editDetails?.requiresReprocessing) {
+        this.log(logs, `✏️ Significant edit (${(historyCheck.editDetails.editDistance * 100).toFixed(0)}% changed), reprocessing`);
+      } else if (historyCheck?.reason === 'similar-content') {
+        this.log(logs, `🔎 Similar to already routed issue(s) ${(historyCheck.candidates ?? []).map(c => c.id).join(', ')}, classifying anyway`);
+      }
+
       // Step 1: Apply rule-based routing
       this.log(logs, 'Step 1: Applying rule-based routing...');
-      const ruleResult = this.applyRoutingRules(issue);
+      const evaluations = evaluateRules(this.config, issue);
+      const candidates = rankCandidates(evaluations);
+      const ruleResult = selectRule(this.config, issue, candidates);
+
+      if (this.explain) {
+        trace = buildTrace(evaluations, candidates, ruleResult !== null);
+      }
       
       if (ruleResult) {
-        this.log(logs, `✅ Rule match found: ${ruleResult.repo}`);
+        this.log(logs, `✅ Rule match found: ${ruleResult.repo} (confidence: ${ruleResult.confidence.toFixed(2)})`);
+      } else if (candidates.length > 0) {
+        this.log(logs, `⚖️ Near-tie between rules ${candidates.map(c => describeRule(c)).join(', ')}, proceeding to LLM classification`);
       } else {
         this.log(logs, '❌ No matching rules found, proceeding to LLM classification');
       }
 
       // Step 2: LLM classification (if no rule match or to enhance rule result)
       let classification: ClassificationResult;
+      const apiCallsBefore = this.classifier.getApiCallCount();
       
-      if (ruleResult) {
-        // Enhance rule result with LLM if needed
-        classification = await this.enhanceWithLLM(ruleResult, issue);
-        this.log(logs, '✅ Rule result enhanced with LLM');
+      if (previousClassification) {
+        classification = previousClassification;
       } else {
-        // Full LLM classification
-        this.log(logs, 'Step 2: Running LLM classification...');
-        classification = await this.runLLMClassification(issue);
-        this.log(logs, `✅ LLM classification complete: ${classification.repo} (confidence: ${classification.confidence})`);
+        try {
+          if (ruleResult) {
+            // Enhance rule result with LLM if needed
+            classification = await this.enhanceWithLLM(ruleResult, issue);
+            this.log(logs, '✅ Rule result enhanced with LLM');
+          } else {
+            // Full LLM classification
+            this.log(logs, 'Step 2: Running LLM classification...');
+            classification = await this.runLLMClassification(issue, candidates);
+            this.log(logs, `✅ LLM classification complete: ${classification.repo} (confidence: ${classification.confidence})`);
+          }
+        } catch (error) {
+          if (!(error instanceof BudgetExceededError)) {
+            throw error;
+          }
+
+          // Over budget: keep the rule decision, or route to the default repo
+          budgetGuard = {
+            action: ruleResult ? 'rules-only' : 'default-routing',
+            reason: error.message,
+            estimatedInputTokens: error.estimatedInputTokens,
+            estimatedOutputTokens: error.estimatedOutputTokens,
+          };
+          classification = ruleResult ?? this.createBudgetFallbackClassification(issue, error.message);
+          this.log(logs, `💸 API budget exhausted (${error.message}), using ${budgetGuard.action}: ${classification.repo}`);
+        }
       }
 
       // Step 3: Duplicate detection
@@ -70,16 +169,18 @@ export class IssueRouter {
       const duplicateCheck = await this.githubClient.checkForDuplicates(issue, classification.repo);
       
       if (duplicateCheck.isDuplicate) {
-        this.log(logs, `⚠️ Duplicate found: ${duplicateCheck.existingIssue?.url}`);
+        this.log(logs, `⚠️ Duplicate found (${duplicateCheck.method}): ${duplicateCheck.existingIssue.url}`);
       } else {
         this.log(logs, '✅ No duplicates found');
       }
 
-      // Step 4: Execute GitHub operations
+      // Step 4: Execute GitHub operations (a dry run only plans them)
       this.log(logs, 'Step 4: Executing GitHub operations...');
-      const githubOperation = duplicateCheck.isDuplicate
-        ? await this.handleDuplicateIssue(duplicateCheck, classification, issue)
-        : await this.createNewIssue(classification, issue);
+      const githubOperation = this.dryRun
+        ? this.planGitHubOperation(duplicateCheck, classification, issue, routerRepo, plannedActions)
+        : duplicateCheck.isDuplicate
+          ? await this.handleDuplicateIssue(duplicateCheck, classification, issue, routerRepo)
+          : await this.createNewIssue(classification, issue);
 
       if (githubOperation.success) {
         this.log(logs, `✅ GitHub operation successful: ${githubOperation.issueUrl}`);
@@ -87,20 +188,51 @@ export class IssueRouter {
         this.log(logs, `❌ GitHub operation failed: ${githubOperation.error}`);
       }
 
-      // Step 5: Add to project (if configured and operation succeeded)
-      if (githubOperation.success && this.config.defaults.project) {
+      // Step 5: Add to the rule's, repo's or default project(s) (if configured and operation succeeded)
+      const matchedRule = ruleResult ? candidates[0]?.rule : undefined;
+      const projectTargets = resolveProjectTargets(this.config, classification.repo, matchedRule);
+      if (this.dryRun && githubOperation.success && projectTargets.length > 0) {
+        plannedActions.push(`Add to project(s) ${projectTargets.map(projectKey).join(', ')}`);
+      } else if (githubOperation.success && projectTargets.length > 0) {
         this.log(logs, 'Step 5: Adding to project...');
-        await this.addToProject(classification, githubOperation, issue);
-        this.log(logs, '✅ Added to project');
+        const projectItems = await this.addToProject(classification, githubOperation, issue, matchedRule);
+        const [firstItem] = projectItems;
+        if (firstItem) {
+          githubOperation.projectItems = projectItems;
+          githubOperation.projectItemId = firstItem.itemId;
+        }
+        this.log(logs, `✅ Added to ${projectItems.length} project(s)`);
       }
 
-      // Step 6: Close router issue
-      if (githubOperation.success && githubOperation.issueUrl) {
+      // Step 6: Close router issue (unless the duplicate policy already closed it)
+      if (githubOperation.details?.sourceClosed) {
+        this.log(logs, 'Step 6: Router issue already closed as duplicate');
+      } else if (this.dryRun) {
+        if (githubOperation.success) {
+          plannedActions.push(`Close router issue ${routerRepo}#${issue.number}`);
+        }
+      } else if (githubOperation.success && githubOperation.issueUrl) {
         this.log(logs, 'Step 6: Closing router issue...');
         await this.githubClient.closeRouterIssue(routerRepo, issue.number, githubOperation.issueUrl);
         this.log(logs, '✅ Router issue closed');
       }
 
+      // Step 7: Record processing so re-deliveries skip the LLM
+      if (!previousClassification) {
+        await this.recordProcessingHistory(
+          issue,
+          classification,
+          this.classifier.getApiCallCount() - apiCallsBefore,
+          githubOperation.success,
+          logs
+        );
+      }
+
+      // Step 8: Track the routed issue so project progress is reported back to the reporter
+      if (githubOperation.success) {
+        await this.trackRoutedItem(issue, routerRepo, classification, githubOperation, logs);
+      }
+
       const executionTime = Date.now() - startTime;
       this.log(logs, `🎉 Routing completed successfully in ${executionTime}ms`);
 
@@ -111,6 +243,11 @@ export class IssueRouter {
         githubOperation,
         executionTime,
         logs,
+        ...(trace && { trace }),
+        ...(historyCheck && { historyCheck }),
+        ...(previousClassification && historyCheck?.isDuplicate && { savedApiCalls: historyCheck.savedApiCalls }),
+        ...(budgetGuard && { budgetGuard }),
+        ...(this.dryRun && { plannedActions }),
       };
 
     } catch (error) {
@@ -122,93 +259,197 @@ export class IssueRouter {
       return {
         success: false,
         classification: this.createFallbackClassification(issue),
-        duplicateCheck: { isDuplicate: false, method: 'none', confidence: 0 },
+        duplicateCheck: { isDuplicate: false, method: 'none', reason: 'routing-failed', confidence: 0 },
         githubOperation: { success: false, error: errorMessage },
         executionTime,
         logs,
         error: errorMessage,
+        ...(trace && { trace }),
+        ...(historyCheck && { historyCheck }),
+        ...(budgetGuard && { budgetGuard }),
       };
     }
   }
 
   /**
-   * Apply rule-based routing logic
+   * Classify, in one LLM call, the issues of a batch that no rule matches and the processing
+   * history does not already cover. routeIssue then uses these results instead of calling the
+   * LLM per issue. Returns how many issues were classified; failures leave issues to routeIssue.
    */
-  private applyRoutingRules(issue: IssueData): ClassificationResult | null {
-    for (const rule of this.config.rules) {
-      if (this.matchesRule(issue, rule)) {
-        return {
-          repo: rule.route.repo,
-          title: issue.title,
-          body: issue.body,
-          labels: [...(rule.route.labels ?? []), ...issue.labels],
-          assignees: rule.route.assignees ?? [],
-          priority: rule.route.priority ?? 'medium',
-          confidence: 0.95, // High confidence for rule matches
-          reasoning: `Matched routing rule: ${JSON.stringify(rule.when)}`,
-          projectFields: rule.route.projectFields ?? {},
-        };
+  async preclassifyBatch(issues: IssueData[]): Promise<number> {
+    const pending: IssueData[] = [];
+    for (const issue of issues) {
+      const historyCheck = await this.checkProcessingHistory(issue);
+      if (historyCheck?.isDuplicate) {
+        continue;
+      }
+      if (rankCandidates(evaluateRules(this.config, issue)).length === 0) {
+        pending.push(issue);
       }
     }
-    
-    return null;
+
+    if (pending.length < 2) {
+      return 0;
+    }
+
+    try {
+      const availableRepos = this.classifier.getAvailableRepos();
+      const existingLabels: Record<string, string[]> = {};
+      for (const repo of availableRepos) {
+        existingLabels[repo] = await this.githubClient.getRepositoryLabels(repo);
+      }
+
+      const results = await this.classifier.classifyBatch({
+        issues: pending,
+        availableRepos,
+        existingLabels,
+        organizationContext: this.generateOrganizationContext(),
+      });
+      for (const issue of pending) {
+        const classification = results.get(issue.number);
+        if (classification) {
+          this.batchClassifications.set(issue.url, classification);
+        }
+      }
+      return results.size;
+    } catch (error) {
+      console.warn('⚠️ Batch classification skipped:', error instanceof Error ? error.message : 'Unknown error');
+      return 0;
+    }
   }
 
   /**
-   * Check if an issue matches a routing rule
+   * Look the issue up in the processing history (null when history is disabled)
    */
-  private matchesRule(issue: IssueData, rule: RoutingRule): boolean {
-    const { when } = rule;
-    
-    // Check keywords in title and body
-    if (when.keywords) {
-      const content = `${issue.title} ${issue.body}`.toLowerCase();
-      const hasKeyword = when.keywords.some(keyword => 
-        content.includes(keyword.toLowerCase())
-      );
-      if (!hasKeyword) return false;
+  private async checkProcessingHistory(issue: IssueData): Promise<HistoryCheckResult | undefined> {
+    if (!this.duplicateDetector) {
+      return undefined;
     }
 
-    // Check title patterns
-    if (when.titlePatterns) {
-      const hasPattern = when.titlePatterns.some(pattern => {
-        const regex = new RegExp(pattern, 'i');
-        return regex.test(issue.title);
-      });
-      if (!hasPattern) return false;
+    // Forget a failed load so the next issue retries instead of reusing the rejection
+    this.historyLoaded ??= this.duplicateDetector.initialize().catch((error: unknown) => {
+      this.historyLoaded = null;
+      throw error;
+    });
+    await this.historyLoaded;
+    return await this.duplicateDetector.checkDuplicate(issue);
+  }
+
+  /**
+   * Reuse the routing decision of a history hit (repo, priority, labels); the title
+   * and body always come from the current issue, which may have been edited since
+   */
+  private restoreClassification(historyCheck: HistoryDuplicate, issue: IssueData): ClassificationResult {
+    const { repo, priority, labels, confidence } = historyCheck.existingIssue.classification;
+    return {
+      repo,
+      title: issue.title,
+      body: issue.body,
+      labels,
+      assignees: [],
+      priority,
+      confidence,
+      reasoning: `Reused the routing decision for ${historyCheck.existingIssue.id} (${historyCheck.reason})`,
+    };
+  }
+
+  /**
+   * Remember the routing outcome; history failures never fail the routing itself
+   */
+  private async recordProcessingHistory(
+    issue: IssueData,
+    classification: ClassificationResult,
+    apiCalls: number,
+    success: boolean,
+    logs: string[]
+  ): Promise<void> {
+    if (!this.duplicateDetector || this.dryRun) {
+      return;
     }
 
-    // Check body patterns
-    if (when.bodyPatterns) {
-      const hasPattern = when.bodyPatterns.some(pattern => {
-        const regex = new RegExp(pattern, 'i');
-        return regex.test(issue.body);
+    try {
+      await this.duplicateDetector.recordProcessing(issue, classification, apiCalls, success ? 'success' : 'failed');
+    } catch (error) {
+      this.log(logs, `⚠️ Failed to record processing history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remember the target issue and its project items for reverse sync; failures never fail the routing
+   */
+  private async trackRoutedItem(
+    issue: IssueData,
+    routerRepo: string,
+    classification: ClassificationResult,
+    githubOperation: GitHubOperationResult,
+    logs: string[]
+  ): Promise<void> {
+    if (!this.reverseSync || this.dryRun || !githubOperation.issueNumber || !githubOperation.issueUrl) {
+      return;
+    }
+
+    try {
+      await this.reverseSync.track({
+        id: issue.url,
+        sourceRepo: routerRepo,
+        sourceNumber: issue.number,
+        ...(issue.slackPermalink && { slackPermalink: issue.slackPermalink }),
+        targetRepo: classification.repo,
+        targetNumber: githubOperation.issueNumber,
+        targetUrl: githubOperation.issueUrl,
+        projectItems: githubOperation.projectItems ?? [],
+        routedAt: new Date().toISOString(),
       });
-      if (!hasPattern) return false;
+      this.log(logs, '🔁 Tracked for reverse sync');
+    } catch (error) {
+      this.log(logs, `⚠️ Failed to track for reverse sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
 
-    // Check existing labels
-    if (when.labels) {
-      const hasLabel = when.labels.some(label =>
-        issue.labels.some(issueLabel => 
-          issueLabel.toLowerCase() === label.toLowerCase()
-        )
-      );
-      if (!hasLabel) return false;
+  /**
+   * Build a history-backed detector when duplicateDetection.historyFile is configured
+   */
+  private createDuplicateDetector(): DuplicateDetector | null {
+    const settings = this.config.duplicateDetection;
+    if (!settings?.enabled || !settings.historyFile) {
+      return null;
     }
 
-    // Check Slack channels (if available in source meta)
-    if (when.channels && issue.sourceMeta?.channel) {
-      const channel = String(issue.sourceMeta.channel);
-      const hasChannel = when.channels.some(ruleChannel =>
-        channel.toLowerCase().includes(ruleChannel.toLowerCase())
-      );
-      if (!hasChannel) return false;
+    return new DuplicateDetector({
+      ...createDefaultDuplicateConfig(process.cwd()),
+      lookbackDays: settings.lookbackDays,
+      editThreshold: settings.editThreshold,
+      skipEditedWithinHours: settings.skipEditedWithinHours,
+      maxHistoryEntries: settings.maxHistoryEntries,
+      historyFilePath: path.resolve(settings.historyFile),
+      ...(this.config.storage && { storage: this.config.storage }),
+      ...((settings.method === 'similarity' || settings.method === 'all') && {
+        similarity: { ...DEFAULT_SIMILARITY_OPTIONS, ...settings.similarity },
+      }),
+    });
+  }
+
+  /**
+   * Build the API usage monitor from the apiUsage block (null when not configured)
+   */
+  private createApiUsageMonitor(): ApiUsageMonitor | null {
+    const settings = this.config.apiUsage;
+    if (!settings?.enabled) {
+      return null;
     }
 
-    return true;
+    return new ApiUsageMonitor(resolveApiUsageConfig(this.config, process.cwd()));
   }
 
+  /**
+   * Run rule-based routing only and return the decision with its trace.
+   * Makes no network calls, so it is safe for offline simulation.
+   */
+  explainRules(issue: IssueData): RuleExplanation {
+    return explainRules(this.config, issue);
+  }
+
+
   /**
    * Enhance rule result with LLM classification
    */
@@ -226,7 +467,8 @@ export class IssueRouter {
         organizationContext: `Rule-matched repository: ${ruleResult.repo}`,
       };
 
-      const llmResult = await this.classifier.classify(context);
+      // A failed call keeps the rule result (below) instead of merging in the default-repo fallback
+      const llmResult = await this.classifier.classifyOrThrow(context);
       
       // Merge rule result with LLM enhancements
       return {
@@ -240,6 +482,9 @@ export class IssueRouter {
         projectFields: { ...llmResult.projectFields, ...ruleResult.projectFields },
       };
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
       // If LLM enhancement fails, return the rule result as-is
       console.warn('LLM enhancement failed, using rule result:', error);
       return ruleResult;
@@ -249,8 +494,18 @@ export class IssueRouter {
   /**
    * Run full LLM classification
    */
-  private async runLLMClassification(issue: IssueData): Promise<ClassificationResult> {
-    const availableRepos = this.classifier.getAvailableRepos();
+  private async runLLMClassification(
+    issue: IssueData,
+    tiedCandidates: RuleEvaluation[] = []
+  ): Promise<ClassificationResult> {
+    const batched = this.batchClassifications.get(issue.url);
+    if (batched) {
+      this.batchClassifications.delete(issue.url);
+      return batched;
+    }
+
+    const tiedRepos = Array.from(new Set(tiedCandidates.map(candidate => candidate.rule.route.repo)));
+    const availableRepos = tiedRepos.length > 0 ? tiedRepos : this.classifier.getAvailableRepos();
     const existingLabels: Record<string, string[]> = {};
     
     // Fetch labels for all available repositories
@@ -262,7 +517,11 @@ export class IssueRouter {
       issue,
       availableRepos,
       existingLabels,
-      organizationContext: this.generateOrganizationContext(),
+      organizationContext: tiedCandidates.length > 0
+        ? `${this.generateOrganizationContext()}\n\nRouting rules matched with near-equal scores: ${tiedCandidates
+            .map(c => `${describeRule(c)} → ${c.rule.route.repo} (score ${c.score.toFixed(1)})`)
+            .join(', ')}`
+        : this.generateOrganizationContext(),
     };
 
     return await this.classifier.classify(context);
@@ -282,25 +541,61 @@ export class IssueRouter {
   }
 
   /**
-   * Handle duplicate issue (update existing)
+   * Handle duplicate issue according to the target repo's onDuplicate policy
    */
   private async handleDuplicateIssue(
-    duplicateCheck: any,
+    duplicate: GitHubDuplicate,
     classification: ClassificationResult,
-    sourceIssue: IssueData
-  ) {
-    if (!duplicateCheck.existingIssue) {
-      throw new Error('Duplicate check result missing existing issue info');
-    }
-
-    return await this.githubClient.updateIssue(
-      duplicateCheck.existingIssue.repo,
-      duplicateCheck.existingIssue.number,
+    sourceIssue: IssueData,
+    routerRepo: string
+  ): Promise<GitHubOperationResult> {
+    const { repo, number } = duplicate.existingIssue;
+    return await this.githubClient.applyDuplicatePolicy(
+      this.resolveDuplicatePolicy(repo),
+      repo,
+      number,
       classification,
-      sourceIssue
+      sourceIssue,
+      routerRepo
     );
   }
 
+  /**
+   * Describe the issue write a real run would make, without calling GitHub
+   */
+  private planGitHubOperation(
+    duplicateCheck: GitHubDuplicateCheckResult,
+    classification: ClassificationResult,
+    sourceIssue: IssueData,
+    routerRepo: string,
+    plannedActions: string[]
+  ): GitHubOperationResult {
+    if (duplicateCheck.isDuplicate) {
+      const { repo, number, url } = duplicateCheck.existingIssue;
+      const policy = this.resolveDuplicatePolicy(repo);
+      const sourceClosed = policy === 'close-as-duplicate';
+      plannedActions.push(`Apply duplicate policy "${policy}" to ${repo}#${number}`);
+      if (sourceClosed) {
+        plannedActions.push(`Close router issue ${routerRepo}#${sourceIssue.number} as a duplicate`);
+      }
+      return { success: true, issueNumber: number, issueUrl: url, details: { policy, dryRun: true, sourceClosed } };
+    }
+
+    const labels = classification.labels.length > 0 ? ` with labels ${classification.labels.join(', ')}` : '';
+    plannedActions.push(`Create issue "${classification.title}" in ${classification.repo}${labels}`);
+    return { success: true, details: { dryRun: true } };
+  }
+
+  /**
+   * onDuplicate for a target repo: the repo override, else the default
+   */
+  private resolveDuplicatePolicy(repo: string): DuplicatePolicy {
+    const onDuplicate = this.config.duplicateDetection?.onDuplicate ?? 'comment';
+    return typeof onDuplicate === 'string'
+      ? onDuplicate
+      : onDuplicate.repos[repo] ?? onDuplicate.default;
+  }
+
   /**
    * Create new issue in target repository
    */
@@ -312,29 +607,32 @@ export class IssueRouter {
   }
 
   /**
-   * Add issue to GitHub Projects v2
+   * Add issue to each target project (GitHub Projects v2), returning the items it has there
    */
   private async addToProject(
     classification: ClassificationResult,
-    githubOperation: any,
-    sourceIssue: IssueData
-  ): Promise<void> {
-    if (!this.config.defaults.project || !githubOperation.issueNumber) {
-      return;
+    githubOperation: GitHubOperationResult,
+    sourceIssue: IssueData,
+    rule?: RoutingRule
+  ): Promise<ProjectItemRef[]> {
+    const targets = resolveProjectTargets(this.config, classification.repo, rule);
+    const items: ProjectItemRef[] = [];
+    if (targets.length === 0 || !githubOperation.issueNumber) {
+      return items;
     }
 
     try {
-      const { org, number } = this.config.defaults.project;
-      
-      // Get project info
-      const project = await this.projectsClient.getProject(org, number);
-      if (!project) {
-        console.warn(`Project ${org}/${number} not found`);
-        return;
+      // Get project info, refusing fields the projects cannot take
+      const { projects, errors } = await this.loadProject();
+      if (errors.length > 0) {
+        throw new ProjectConfigError(errors);
       }
 
       // Get issue node ID
       const [owner, repo] = classification.repo.split('/');
+      if (!owner || !repo) {
+        throw new Error(`Invalid repository format: ${classification.repo}`);
+      }
       const issueNodeId = await this.projectsClient.getIssueNodeId(
         owner,
         repo,
@@ -343,35 +641,68 @@ export class IssueRouter {
       
       if (!issueNodeId) {
         console.warn('Failed to get issue node ID');
-        return;
+        return items;
       }
 
-      // Check if already in project
-      const alreadyInProject = await this.projectsClient.isIssueInProject(
-        project.id,
-        issueNodeId
-      );
-      
-      if (alreadyInProject) {
-        console.log('Issue already in project');
-        return;
+      for (const target of targets) {
+        const key = projectKey(target);
+        const project = projects.get(key);
+        if (!project) {
+          continue;
+        }
+
+        // Check if already in project
+        const existingItemId = await this.projectsClient.findProjectItem(project.id, issueNodeId);
+        if (existingItemId) {
+          console.log(`Issue already in project ${key}`);
+          items.push({ project: key, projectId: project.id, itemId: existingItemId });
+          continue;
+        }
+
+        // Add to project with field values
+        const projectFields = ProjectsApiClient.createDefaultProjectFields(
+          classification,
+          target.fieldMappings ?? DEFAULT_PROJECT_FIELD_MAPPINGS,
+          rule?.name
+        );
+        const result = await this.projectsClient.addIssueToProject(
+          project.id,
+          issueNodeId,
+          { ...classification, projectFields }
+        );
+
+        if (result.success && result.projectItemId) {
+          items.push({ project: key, projectId: project.id, itemId: result.projectItemId });
+        } else {
+          console.warn(`Failed to add to project ${key}:`, result.error);
+        }
       }
-
-      // Add to project with field values
-      const projectFields = ProjectsApiClient.createDefaultProjectFields(classification);
-      const updatedClassification = {
-        ...classification,
-        projectFields,
-      };
-
-      await this.projectsClient.addIssueToProject(
-        project.id,
-        issueNodeId,
-        updatedClassification
-      );
     } catch (error) {
       console.warn('Failed to add to project:', error);
     }
+
+    return items;
+  }
+
+  /**
+   * Check the configured project fields against the live projects. Call it at startup
+   * to fail fast: while it reports errors, routed issues are not added to any project.
+   */
+  async checkProjectConfig(): Promise<{ valid: boolean; errors: string[] }> {
+    const { errors } = await this.loadProject();
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Fetch and validate the configured projects once per router (failed lookups are retried)
+   */
+  private loadProject(): Promise<ProjectConfigCheck> {
+    return this.projectSetup ??= this.projectsClient.checkProjectConfig(this.config).then(setup => {
+      if (setup.missing.length > 0) {
+        this.projectSetup = null;
+      }
+      return setup;
+    });
   }
 
   /**
@@ -391,6 +722,23 @@ export class IssueRouter {
     };
   }
 
+  /**
+   * Default-repo classification used when the API budget rules out the LLM
+   */
+  private createBudgetFallbackClassification(issue: IssueData, reason: string): ClassificationResult {
+    return {
+      repo: this.config.defaults.repo,
+      title: issue.title,
+      body: issue.body,
+      labels: [...this.config.defaults.labels, 'triage-needed'],
+      assignees: [],
+      priority: 'medium',
+      confidence: 0.1,
+      reasoning: `Default routing - LLM skipped: ${reason}`,
+      projectFields: {},
+    };
+  }
+
   /**
    * Log messages with optional verbose output
    */
@@ -436,4 +784,53 @@ export class IssueRouter {
       errors,
     };
   }
+
+  /**
+   * Render an explain-mode trace as indented text
+   */
+  static formatTrace(trace: RoutingTrace): string {
+    const ruleLabel = (index: number): string => {
+      const rule = trace.rules.find(r => r.index === index);
+      return rule?.name ? `"${rule.name}"` : `rules[${index}]`;
+    };
+
+    const header = [`Routing trace: ${trace.outcome}`];
+    if (trace.selectedRule !== undefined) header.push(`selected ${ruleLabel(trace.selectedRule)}`);
+    if (trace.runnerUpRule !== undefined) header.push(`runner-up ${ruleLabel(trace.runnerUpRule)}`);
+
+    const lines = [header.join(' | ')];
+    for (const rule of trace.rules) {
+      lines.push(`${rule.matched ? '✅' : '❌'} ${ruleLabel(rule.index)} → ${rule.repo} (score ${rule.score.toFixed(1)})`);
+      IssueRouter.formatCondition(rule.when, '    ', lines);
+    }
+
+    return lines.join('\n');
+  }
+
+  private static formatCondition(trace: ConditionTrace, indent: string, lines: string[]): void {
+    const children = trace.children ?? [];
+
+    if (trace.condition === 'group') {
+      children.forEach(child => IssueRouter.formatCondition(child, indent, lines));
+      return;
+    }
+
+    const details = [
+      trace.matched?.length ? `matched [${trace.matched.join(', ')}]` : '',
+      trace.missing?.length ? `missing [${trace.missing.join(', ')}]` : '',
+      trace.note ?? '',
+    ].filter(Boolean).join('; ');
+
+    lines.push(`${indent}${trace.passed ? '✅' : '❌'} ${trace.condition}${details ? `: ${details}` : ''}`);
+
+    if (trace.condition === 'not') {
+      children.forEach(child => IssueRouter.formatCondition(child, `${indent}    `, lines));
+      return;
+    }
+
+    children.forEach((child, index) => {
+      lines.push(`${indent}    ${child.passed ? '✅' : '❌'} [${index}]`);
+      IssueRouter.formatCondition(child, `${indent}        `, lines);
+    });
+  }
 }
\ No newline at end of file
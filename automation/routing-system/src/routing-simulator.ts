@@ -0,0 +1,284 @@
+/**
+ * Offline Routing Simulator
+ * Replays a corpus of historical issues through the rule engine so routing.yml
+ * changes can be evaluated (and compared) without touching GitHub or the LLM
+ */
+
+import { readFileSync } from 'fs';
+import { explainRules } from './rule-engine';
+import { validateIssueData, type IssueData, type RoutingConfig } from './types';
+
+export interface SimulationRecord {
+  issue: IssueData;
+  expectedRepo?: string;
+}
+
+/**
+ * Stand-in for LLM classification: receives the issue and the repositories the
+ * LLM would have chosen from (tied rule repos, or every known repo) and returns one
+ */
+export type SimulatedClassifier = (issue: IssueData, candidateRepos: string[]) => string;
+
+export interface SimulationOutcome {
+  issueNumber: number;
+  title: string;
+  expectedRepo?: string;
+  actualRepo: string;
+  source: 'rule' | 'near-tie' | 'no-match';
+  ruleIndex?: number;
+}
+
+export interface RuleHitStats {
+  index: number;
+  name?: string;
+  repo: string;
+  matched: number; // issues the rule matched
+  selected: number; // issues the rule actually routed
+}
+
+export interface SimulationReport {
+  total: number;
+  routedByRule: number;
+  nearTies: number;
+  withExpectation: number;
+  correct: number;
+  accuracy: number | null;
+  confusionMatrix: Record<string, Record<string, number>>; // expected -> actual -> count
+  ruleHits: RuleHitStats[];
+  neverFired: RuleHitStats[];
+  unmatched: SimulationOutcome[];
+  outcomes: SimulationOutcome[];
+}
+
+export interface SimulationChange {
+  issueNumber: number;
+  title: string;
+  expectedRepo?: string;
+  before: string;
+  after: string;
+  effect: 'fixed' | 'broken' | 'changed';
+}
+
+export interface SimulationDiff {
+  current: SimulationReport;
+  proposed: SimulationReport;
+  changes: SimulationChange[];
+}
+
+export class RoutingSimulator {
+  private classifier: SimulatedClassifier;
+
+  constructor(classifier?: SimulatedClassifier) {
+    this.classifier = classifier ?? RoutingSimulator.defaultClassifier;
+  }
+
+  /**
+   * Default stub: pick the best-scoring tied repo, otherwise the first candidate
+   */
+  static defaultClassifier: SimulatedClassifier = (_issue, candidateRepos) => candidateRepos[0] ?? '';
+
+  /**
+   * Run every record through the rule engine of a configuration
+   */
+  simulate(config: RoutingConfig, records: SimulationRecord[]): SimulationReport {
+    const ruleHits: RuleHitStats[] = config.rules.map((rule, index) => ({
+      index,
+      ...(rule.name !== undefined && { name: rule.name }),
+      repo: rule.route.repo,
+      matched: 0,
+      selected: 0,
+    }));
+
+    const outcomes = records.map((record): SimulationOutcome => {
+      const { classification, trace } = explainRules(config, record.issue);
+
+      for (const rule of trace.rules) {
+        const stats = ruleHits[rule.index];
+        if (stats && rule.matched) stats.matched++;
+      }
+
+      const base = {
+        issueNumber: record.issue.number,
+        title: record.issue.title,
+        ...(record.expectedRepo !== undefined && { expectedRepo: record.expectedRepo }),
+      };
+
+      if (classification && trace.selectedRule !== undefined) {
+        const stats = ruleHits[trace.selectedRule];
+        if (stats) stats.selected++;
+        return { ...base, actualRepo: classification.repo, source: 'rule', ruleIndex: trace.selectedRule };
+      }
+
+      // Mirror the router: near-ties go to the LLM restricted to the tied repos,
+      // no-match goes to the LLM with every known repo (default first)
+      const tiedRepos = trace.rules
+        .filter(rule => rule.matched)
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map(rule => rule.repo);
+      const candidateRepos = trace.outcome === 'near-tie'
+        ? Array.from(new Set(tiedRepos))
+        : Array.from(new Set([config.defaults.repo, ...config.rules.map(rule => rule.route.repo)]));
+
+      return {
+        ...base,
+        actualRepo: this.classifier(record.issue, candidateRepos) || config.defaults.repo,
+        source: trace.outcome === 'near-tie' ? 'near-tie' : 'no-match',
+      };
+    });
+
+    const confusionMatrix: Record<string, Record<string, number>> = {};
+    let withExpectation = 0;
+    let correct = 0;
+
+    for (const outcome of outcomes) {
+      if (outcome.expectedRepo === undefined) continue;
+      withExpectation++;
+      if (outcome.expectedRepo === outcome.actualRepo) correct++;
+
+      const row = confusionMatrix[outcome.expectedRepo] ?? {};
+      row[outcome.actualRepo] = (row[outcome.actualRepo] ?? 0) + 1;
+      confusionMatrix[outcome.expectedRepo] = row;
+    }
+
+    return {
+      total: outcomes.length,
+      routedByRule: outcomes.filter(o => o.source === 'rule').length,
+      nearTies: outcomes.filter(o => o.source === 'near-tie').length,
+      withExpectation,
+      correct,
+      accuracy: withExpectation > 0 ? correct / withExpectation : null,
+      confusionMatrix,
+      ruleHits,
+      neverFired: ruleHits.filter(stats => stats.matched === 0),
+      unmatched: outcomes.filter(o => o.source === 'no-match'),
+      outcomes,
+    };
+  }
+
+  /**
+   * Simulate the same corpus against two configurations and list routing changes
+   */
+  compare(current: RoutingConfig, proposed: RoutingConfig, records: SimulationRecord[]): SimulationDiff {
+    const currentReport = this.simulate(current, records);
+    const proposedReport = this.simulate(proposed, records);
+
+    const changes: SimulationChange[] = [];
+    currentReport.outcomes.forEach((before, i) => {
+      const after = proposedReport.outcomes[i];
+      if (!after || before.actualRepo === after.actualRepo) return;
+
+      let effect: SimulationChange['effect'] = 'changed';
+      if (before.expectedRepo !== undefined) {
+        if (after.actualRepo === before.expectedRepo) effect = 'fixed';
+        else if (before.actualRepo === before.expectedRepo) effect = 'broken';
+      }
+
+      changes.push({
+        issueNumber: before.issueNumber,
+        title: before.title,
+        ...(before.expectedRepo !== undefined && { expectedRepo: before.expectedRepo }),
+        before: before.actualRepo,
+        after: after.actualRepo,
+        effect,
+      });
+    });
+
+    return { current: currentReport, proposed: proposedReport, changes };
+  }
+}
+
+/**
+ * Load a JSONL corpus. Each line is an IssueData object, optionally carrying
+ * an `expectedRepo` field with the repository the issue should end up in.
+ */
+export function loadSimulationCorpus(filePath: string): SimulationRecord[] {
+  const lines = readFileSync(filePath, 'utf8').split('\n');
+  const records: SimulationRecord[] = [];
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+
+    try {
+      const raw = JSON.parse(line);
+      const issue = validateIssueData({ ...raw, slackPermalink: raw.slackPermalink ?? undefined });
+      const expectedRepo = typeof raw.expectedRepo === 'string' ? raw.expectedRepo : undefined;
+      records.push({ issue, ...(expectedRepo !== undefined && { expectedRepo }) });
+    } catch (error) {
+      throw new Error(`${filePath}:${i + 1}: ${error instanceof Error ? error.message : 'invalid record'}`);
+    }
+  });
+
+  return records;
+}
+
+/**
+ * Render a simulation report as plain text
+ */
+export function formatSimulationReport(report: SimulationReport): string {
+  const lines: string[] = [];
+  const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+  lines.push(`Issues: ${report.total} | routed by rule: ${report.routedByRule} | near-ties: ${report.nearTies} | unmatched: ${report.unmatched.length}`);
+  if (report.accuracy !== null) {
+    lines.push(`Accuracy: ${report.correct}/${report.withExpectation} (${percent(report.accuracy)})`);
+  }
+
+  const expected = Object.keys(report.confusionMatrix).sort();
+  if (expected.length > 0) {
+    const actual = Array.from(new Set(
+      Object.values(report.confusionMatrix).flatMap(row => Object.keys(row))
+    )).sort();
+    const width = Math.max(...[...expected, 'expected \\ actual'].map(repo => repo.length));
+
+    lines.push('', 'Confusion matrix (rows: expected, columns: actual):');
+    actual.forEach((repo, i) => lines.push(`  [${i}] ${repo}`));
+    lines.push(`${'expected \\ actual'.padEnd(width)} ${actual.map((_, i) => `[${i}]`.padStart(5)).join(' ')}`);
+    for (const repo of expected) {
+      const row = report.confusionMatrix[repo] ?? {};
+      lines.push(`${repo.padEnd(width)} ${actual.map(a => String(row[a] ?? 0).padStart(5)).join(' ')}`);
+    }
+  }
+
+  lines.push('', 'Rule hits (matched / selected):');
+  for (const stats of report.ruleHits) {
+    const label = stats.name ? `"${stats.name}"` : `rules[${stats.index}]`;
+    lines.push(`  ${label} → ${stats.repo}: ${stats.matched} / ${stats.selected}`);
+  }
+
+  if (report.neverFired.length > 0) {
+    lines.push('', 'Rules that never fired:');
+    report.neverFired.forEach(stats => lines.push(`  ${stats.name ? `"${stats.name}"` : `rules[${stats.index}]`} → ${stats.repo}`));
+  }
+
+  if (report.unmatched.length > 0) {
+    lines.push('', 'Unmatched issues:');
+    report.unmatched.forEach(o => lines.push(`  #${o.issueNumber} ${o.title} → ${o.actualRepo}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a current-vs-proposed comparison as plain text
+ */
+export function formatSimulationDiff(diff: SimulationDiff): string {
+  const accuracy = (report: SimulationReport): string =>
+    report.accuracy === null ? 'n/a' : `${Math.round(report.accuracy * 100)}%`;
+
+  const lines = [
+    `Accuracy: ${accuracy(diff.current)} → ${accuracy(diff.proposed)}`,
+    `Unmatched: ${diff.current.unmatched.length} → ${diff.proposed.unmatched.length}`,
+    `Near-ties: ${diff.current.nearTies} → ${diff.proposed.nearTies}`,
+    `Never-firing rules: ${diff.current.neverFired.length} → ${diff.proposed.neverFired.length}`,
+    '',
+    `Routing changes: ${diff.changes.length}`,
+  ];
+
+  const icons: Record<SimulationChange['effect'], string> = { fixed: '✅', broken: '❌', changed: '🔀' };
+  for (const change of diff.changes) {
+    const expected = change.expectedRepo ? ` (expected ${change.expectedRepo})` : '';
+    lines.push(`  ${icons[change.effect]} #${change.issueNumber} ${change.title}: ${change.before} → ${change.after}${expected}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,300 @@
+/**
+ * Rule engine
+ * Pure evaluation of routing.yml rules against an issue: scoring, near-tie
+ * detection and the explain-mode trace. No network, storage or LLM access.
+ */
+
+import type {
+  ClassificationResult,
+  ConditionTrace,
+  IssueData,
+  RoutingConfig,
+  RoutingRule,
+  RoutingTrace,
+  RuleCondition,
+  RuleWeights,
+} from './types';
+
+type ResolvedRuleWeights = Record<keyof RuleWeights, number>;
+
+const DEFAULT_RULE_WEIGHTS: ResolvedRuleWeights = {
+  keyword: 1,
+  titlePattern: 2,
+  bodyPattern: 1,
+  channel: 3,
+  label: 2,
+};
+
+const DEFAULT_TIE_MARGIN = 0.1;
+const MAX_RULE_CONFIDENCE = 0.95;
+
+interface ConditionEvaluation {
+  matched: boolean;
+  score: number;
+  trace: ConditionTrace;
+}
+
+export interface RuleEvaluation extends ConditionEvaluation {
+  index: number;
+  rule: RoutingRule;
+}
+
+export interface RuleExplanation {
+  classification: ClassificationResult | null;
+  trace: RoutingTrace;
+}
+
+/**
+ * Run rule-based routing only and return the decision with its trace.
+ * Makes no network calls, so it is safe for offline simulation.
+ */
+export function explainRules(config: RoutingConfig, issue: IssueData): RuleExplanation {
+  const evaluations = evaluateRules(config, issue);
+  const candidates = rankCandidates(evaluations);
+  const classification = selectRule(config, issue, candidates);
+
+  return {
+    classification,
+    trace: buildTrace(evaluations, candidates, classification !== null),
+  };
+}
+
+/**
+ * Evaluate every rule in configuration order
+ */
+export function evaluateRules(config: RoutingConfig, issue: IssueData): RuleEvaluation[] {
+  return config.rules.map((rule, index) => ({ index, rule, ...evaluateRule(config, issue, rule) }));
+}
+
+/**
+ * Keep matching rules only, highest score first (ties keep configuration order)
+ */
+export function rankCandidates(evaluations: RuleEvaluation[]): RuleEvaluation[] {
+  return evaluations
+    .filter(evaluation => evaluation.matched)
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+/**
+ * Build the explain-mode trace for a routing decision
+ */
+export function buildTrace(
+  evaluations: RuleEvaluation[],
+  candidates: RuleEvaluation[],
+  selected: boolean
+): RoutingTrace {
+  const [best, runnerUp] = candidates;
+  const outcome: RoutingTrace['outcome'] = !best ? 'no-match' : selected ? 'rule-match' : 'near-tie';
+
+  return {
+    outcome,
+    ...(best && selected && { selectedRule: best.index }),
+    ...(runnerUp && { runnerUpRule: runnerUp.index }),
+    rules: evaluations.map(evaluation => ({
+      index: evaluation.index,
+      ...(evaluation.rule.name !== undefined && { name: evaluation.rule.name }),
+      repo: evaluation.rule.route.repo,
+      matched: evaluation.matched,
+      score: evaluation.score,
+      when: evaluation.trace,
+    })),
+  };
+}
+
+/**
+ * Pick the winning rule, or null when nothing matched or the top two are too close to call
+ */
+export function selectRule(config: RoutingConfig, issue: IssueData, candidates: RuleEvaluation[]): ClassificationResult | null {
+  const [best, runnerUp] = candidates;
+  if (!best) {
+    return null;
+  }
+
+  if (runnerUp && isNearTie(config, best, runnerUp)) {
+    return null;
+  }
+
+  const confidence = runnerUp
+    ? Math.min(MAX_RULE_CONFIDENCE, best.score / (best.score + runnerUp.score))
+    : MAX_RULE_CONFIDENCE;
+
+  const reasoning = [
+    `Matched routing rule ${describeRule(best)} (score ${best.score.toFixed(1)})`,
+    runnerUp
+      ? `runner-up: ${describeRule(runnerUp)} → ${runnerUp.rule.route.repo} (score ${runnerUp.score.toFixed(1)})`
+      : 'no other rules matched',
+  ].join('; ');
+
+  const { route } = best.rule;
+  return {
+    repo: route.repo,
+    title: issue.title,
+    body: issue.body,
+    labels: [...(route.labels ?? []), ...issue.labels],
+    assignees: route.assignees ?? [],
+    priority: route.priority ?? 'medium',
+    confidence,
+    reasoning,
+    projectFields: route.projectFields ?? {},
+  };
+}
+
+/**
+ * Whether the runner-up scored within the configured tie margin of the best rule
+ */
+function isNearTie(config: RoutingConfig, best: RuleEvaluation, runnerUp: RuleEvaluation): boolean {
+  if (best.score === 0) {
+    return true;
+  }
+
+  const margin = config.scoring?.tieMargin ?? DEFAULT_TIE_MARGIN;
+  return (best.score - runnerUp.score) / best.score <= margin;
+}
+
+/**
+ * Human-readable rule identifier for logs and reasoning
+ */
+export function describeRule(evaluation: RuleEvaluation): string {
+  return evaluation.rule.name ? `"${evaluation.rule.name}"` : `rules[${evaluation.index}]`;
+}
+
+/**
+ * Evaluate a rule with its effective condition weights
+ */
+function evaluateRule(config: RoutingConfig, issue: IssueData, rule: RoutingRule): ConditionEvaluation {
+  const weightFor = (key: keyof RuleWeights): number =>
+    rule.weights?.[key] ?? config.scoring?.weights?.[key] ?? DEFAULT_RULE_WEIGHTS[key];
+
+  const weights: ResolvedRuleWeights = {
+    keyword: weightFor('keyword'),
+    titlePattern: weightFor('titlePattern'),
+    bodyPattern: weightFor('bodyPattern'),
+    channel: weightFor('channel'),
+    label: weightFor('label'),
+  };
+
+  return evaluateCondition(issue, rule.when, weights, true);
+}
+
+/**
+ * Evaluate a (possibly nested) rule condition against an issue.
+ * Every field is checked so the trace shows all passes and failures; only
+ * conditions that must hold contribute to the score, `not` branches add nothing.
+ * `skipMissingChannel` holds on the rule's own AND path: there a `channels` condition
+ * is skipped for issues without a channel, inside `any` and `not` it does not match.
+ */
+function evaluateCondition(
+  issue: IssueData,
+  condition: RuleCondition,
+  weights: ResolvedRuleWeights,
+  skipMissingChannel: boolean
+): ConditionEvaluation {
+  const checks: ConditionTrace[] = [];
+  let score = 0;
+
+  // Check keywords in title and body
+  if (condition.keywords) {
+    const content = `${issue.title} ${issue.body}`.toLowerCase();
+    const [matched, missing] = partition(condition.keywords, keyword =>
+      content.includes(keyword.toLowerCase())
+    );
+    checks.push({ condition: 'keywords', passed: matched.length > 0, matched, missing });
+    score += matched.length * weights.keyword;
+  }
+
+  // Check title patterns
+  if (condition.titlePatterns) {
+    const [matched, missing] = partition(condition.titlePatterns, pattern =>
+      new RegExp(pattern, 'i').test(issue.title)
+    );
+    checks.push({ condition: 'titlePatterns', passed: matched.length > 0, matched, missing });
+    score += matched.length * weights.titlePattern;
+  }
+
+  // Check body patterns
+  if (condition.bodyPatterns) {
+    const [matched, missing] = partition(condition.bodyPatterns, pattern =>
+      new RegExp(pattern, 'i').test(issue.body)
+    );
+    checks.push({ condition: 'bodyPatterns', passed: matched.length > 0, matched, missing });
+    score += matched.length * weights.bodyPattern;
+  }
+
+  // Check existing labels
+  if (condition.labels) {
+    const [matched, missing] = partition(condition.labels, label =>
+      issue.labels.some(issueLabel => 
+        issueLabel.toLowerCase() === label.toLowerCase()
+      )
+    );
+    checks.push({ condition: 'labels', passed: matched.length > 0, matched, missing });
+    score += matched.length * weights.label;
+  }
+
+  // Check Slack channels (if available in source meta)
+  if (condition.channels) {
+    if (issue.sourceMeta?.channel) {
+      const channel = String(issue.sourceMeta.channel);
+      const [matched, missing] = partition(condition.channels, ruleChannel =>
+        channel.toLowerCase().includes(ruleChannel.toLowerCase())
+      );
+      checks.push({
+        condition: 'channels',
+        passed: matched.length > 0,
+        matched,
+        missing,
+        note: `issue channel ${channel}`,
+      });
+      if (matched.length > 0) score += weights.channel;
+    } else if (skipMissingChannel) {
+      checks.push({ condition: 'channels', passed: true, note: 'issue has no channel, skipped' });
+    } else {
+      checks.push({ condition: 'channels', passed: false, missing: condition.channels, note: 'issue has no channel' });
+    }
+  }
+
+  // Nested groups
+  if (condition.all) {
+    const results = condition.all.map(child => evaluateCondition(issue, child, weights, skipMissingChannel));
+    checks.push({
+      condition: 'all',
+      passed: results.every(result => result.matched),
+      children: results.map(result => result.trace),
+    });
+    score += results.reduce((sum, result) => sum + result.score, 0);
+  }
+
+  if (condition.any) {
+    const results = condition.any.map(child => evaluateCondition(issue, child, weights, false));
+    checks.push({
+      condition: 'any',
+      passed: results.some(result => result.matched),
+      children: results.map(result => result.trace),
+    });
+    score += results.reduce((sum, result) => sum + result.score, 0);
+  }
+
+  if (condition.not) {
+    const result = evaluateCondition(issue, condition.not, weights, false);
+    checks.push({ condition: 'not', passed: !result.matched, children: [result.trace] });
+  }
+
+  const matched = checks.every(check => check.passed);
+  return {
+    matched,
+    score: matched ? score : 0,
+    trace: { condition: 'group', passed: matched, children: checks },
+  };
+}
+
+/**
+ * Split items into those that satisfy the predicate and those that do not
+ */
+function partition<T>(items: T[], predicate: (item: T) => boolean): [T[], T[]] {
+  const pass: T[] = [];
+  const fail: T[] = [];
+  for (const item of items) {
+    (predicate(item) ? pass : fail).push(item);
+  }
+  return [pass, fail];
+}
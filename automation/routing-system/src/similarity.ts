@@ -0,0 +1,219 @@
+/**
+ * Local text similarity for duplicate detection
+ * MinHash (estimated Jaccard over word and character shingles) or TF-IDF cosine,
+ * computed in-process so no embedding service is needed
+ */
+
+export type SimilarityAlgorithm = 'minhash' | 'tfidf';
+
+export interface SimilarityOptions {
+  algorithm: SimilarityAlgorithm;
+  threshold: number; // 0..1, minimum score to treat a candidate as a duplicate
+  maxCandidates: number; // how many top candidates to return
+}
+
+export interface SimilarityDocument {
+  id: string;
+  title: string;
+  body: string;
+}
+
+export interface SimilarityMatch {
+  id: string;
+  score: number;
+}
+
+export const DEFAULT_SIMILARITY_OPTIONS: SimilarityOptions = {
+  algorithm: 'tfidf',
+  threshold: 0.5,
+  maxCandidates: 5,
+};
+
+const MINHASH_PERMUTATIONS = 128;
+const TITLE_WEIGHT = 2; // title terms count double in TF-IDF
+const BODY_MAX_LENGTH = 4000;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'i', 'in', 'is', 'it', 'its', 'my', 'not', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'this', 'to',
+  'was', 'we', 'when', 'while', 'with', 'you',
+]);
+
+/**
+ * Normalize text into comparable terms: "App crashes at login (iOS17)" -> [app, crash, login, ios, 17]
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/(\p{L})(\p{N})/gu, '$1 $2')
+    .replace(/(\p{N})(\p{L})/gu, '$1 $2')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+/**
+ * Rank candidates by similarity to the query, best first, keeping the top maxCandidates
+ */
+export function rankBySimilarity(
+  query: SimilarityDocument,
+  candidates: SimilarityDocument[],
+  options: Pick<SimilarityOptions, 'algorithm' | 'maxCandidates'>
+): SimilarityMatch[] {
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const scores = options.algorithm === 'minhash'
+    ? scoreMinHash(query, candidates)
+    : scoreTfIdf(query, candidates);
+
+  return candidates
+    .map((candidate, i) => ({ id: candidate.id, score: round(scores[i] ?? 0) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.maxCandidates);
+}
+
+/**
+ * MinHash signature over a shingle set
+ */
+export function minHashSignature(shingles: Set<string>): Uint32Array {
+  const signature = new Uint32Array(MINHASH_PERMUTATIONS).fill(0xffffffff);
+
+  for (const shingle of shingles) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < MINHASH_PERMUTATIONS; i++) {
+      const value = mix32(base ^ Math.imul(i + 1, 0x9e3779b1));
+      if (value < (signature[i] ?? 0xffffffff)) {
+        signature[i] = value;
+      }
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity: the fraction of signature slots that agree
+ */
+export function estimateJaccard(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+function scoreMinHash(query: SimilarityDocument, candidates: SimilarityDocument[]): number[] {
+  const querySignature = minHashSignature(shingle(query));
+  return candidates.map(candidate => {
+    const shingles = shingle(candidate);
+    return shingles.size === 0 ? 0 : estimateJaccard(querySignature, minHashSignature(shingles));
+  });
+}
+
+/**
+ * Word unigrams plus character trigrams, so "login"/"log-in" and small typos still overlap
+ */
+function shingle(doc: SimilarityDocument): Set<string> {
+  const shingles = new Set<string>();
+
+  for (const token of documentTokens(doc)) {
+    shingles.add(`w:${token}`);
+    const padded = ` ${token} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      shingles.add(`c:${padded.slice(i, i + 3)}`);
+    }
+  }
+
+  return shingles;
+}
+
+function scoreTfIdf(query: SimilarityDocument, candidates: SimilarityDocument[]): number[] {
+  const documents = [query, ...candidates].map(weightedTerms);
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  // Smoothed IDF, so terms shared by every document still count a little
+  const idf = (term: string) => Math.log((1 + documents.length) / (1 + (documentFrequency.get(term) ?? 0))) + 1;
+
+  const vectors = documents.map(terms => {
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    const vector = new Map<string, number>();
+    for (const [term, count] of counts) {
+      vector.set(term, (1 + Math.log(count)) * idf(term));
+    }
+    return vector;
+  });
+
+  const [queryVector, ...candidateVectors] = vectors;
+  return queryVector ? candidateVectors.map(vector => cosine(queryVector, vector)) : [];
+}
+
+function weightedTerms(doc: SimilarityDocument): string[] {
+  const titleTokens = tokenize(doc.title);
+  const bodyTokens = tokenize(doc.body.substring(0, BODY_MAX_LENGTH));
+  return [...Array.from({ length: TITLE_WEIGHT }, () => titleTokens).flat(), ...bodyTokens];
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) ?? 0);
+  }
+
+  const norm = (vector: Map<string, number>) => Math.sqrt(Array.from(vector.values()).reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+function documentTokens(doc: SimilarityDocument): string[] {
+  return [...tokenize(doc.title), ...tokenize(doc.body.substring(0, BODY_MAX_LENGTH))];
+}
+
+/**
+ * Crude suffix stripping: crashes/crashed/crashing -> crash
+ */
+function stem(token: string): string {
+  if (token.length <= 4 || /\p{N}/u.test(token)) return token;
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= 3) {
+      return token.slice(0, -suffix.length);
+    }
+  }
+  return token;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
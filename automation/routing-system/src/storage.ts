@@ -0,0 +1,375 @@
+/**
+ * Pluggable storage for processing history, API usage, priority queues and routed items
+ * Every write is a read-modify-write on the latest persisted state, serialized
+ * across processes (lock file or SQLite transaction), so overlapping runs never drop entries
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { ProcessingHistory } from './types';
+
+export type StorageRecords<T> = Record<string, T>;
+
+export interface StorageBackend {
+  readonly kind: 'file' | 'sqlite';
+
+  /**
+   * Read every record in a namespace
+   */
+  load<T>(namespace: string): Promise<StorageRecords<T>>;
+
+  /**
+   * Atomically mutate a namespace. `mutate` receives the latest persisted records,
+   * edits them in place (add, replace or delete keys) and must be synchronous.
+   */
+  update<T, R = void>(namespace: string, mutate: (records: StorageRecords<T>) => R): Promise<R>;
+
+  close(): Promise<void>;
+}
+
+export interface StorageConfig {
+  backend: 'file' | 'sqlite';
+  path: string; // directory for the file backend, database file for sqlite
+  lockTimeoutMs?: number | undefined;
+  staleLockMs?: number | undefined;
+}
+
+export const STORAGE_NAMESPACES = {
+  processingHistory: 'processing-history',
+  apiUsage: 'api-usage',
+  priorityQueue: 'priority-queue',
+  routedItems: 'routed-items',
+} as const;
+
+interface StoreFile<T> {
+  version: string;
+  updatedAt: string;
+  records: StorageRecords<T>;
+}
+
+/**
+ * JSON file per namespace, guarded by a `.lock` file and replaced via rename
+ */
+export class FileStorage implements StorageBackend {
+  readonly kind = 'file' as const;
+  private dir: string;
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+
+  constructor(dir: string, options: { lockTimeoutMs?: number; staleLockMs?: number } = {}) {
+    this.dir = dir;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 10_000;
+    this.staleLockMs = options.staleLockMs ?? 30_000;
+  }
+
+  async load<T>(namespace: string): Promise<StorageRecords<T>> {
+    return (await this.readFile<T>(this.filePath(namespace))).records;
+  }
+
+  async update<T, R = void>(namespace: string, mutate: (records: StorageRecords<T>) => R): Promise<R> {
+    const file = this.filePath(namespace);
+    await fs.mkdir(this.dir, { recursive: true });
+
+    return await this.withLock(file, async () => {
+      const store = await this.readFile<T>(file);
+      const result = mutate(store.records);
+
+      const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      const data: StoreFile<T> = { version: '1.0', updatedAt: new Date().toISOString(), records: store.records };
+      try {
+        await fs.writeFile(temp, JSON.stringify(data, null, 2));
+        await fs.rename(temp, file);
+      } catch (error) {
+        await fs.rm(temp, { force: true });
+        throw error;
+      }
+
+      return result;
+    });
+  }
+
+  async close(): Promise<void> {
+    // Nothing held open between calls
+  }
+
+  private filePath(namespace: string): string {
+    return path.join(this.dir, `${namespace}.store.json`);
+  }
+
+  private async readFile<T>(file: string): Promise<StoreFile<T>> {
+    const exists = await fs.access(file).then(() => true).catch(() => false);
+    if (!exists) {
+      return { version: '1.0', updatedAt: new Date().toISOString(), records: {} };
+    }
+
+    const data = JSON.parse(await fs.readFile(file, 'utf8')) as StoreFile<T>;
+    return { ...data, records: data.records ?? {} };
+  }
+
+  /**
+   * Hold `<file>.lock` (created exclusively, holding a unique owner token) while running fn
+   */
+  private async withLock<R>(file: string, fn: () => Promise<R>): Promise<R> {
+    const lockPath = `${file}.lock`;
+    const token = `${process.pid}-${randomUUID()}`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const handle = await fs.open(lockPath, 'wx');
+        await handle.writeFile(token);
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        if (await this.removeStaleLock(lockPath)) {
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for storage lock ${lockPath}`);
+        }
+        await sleep(Math.min(10 * 2 ** attempt, 200) + Math.random() * 10);
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      // Only remove the lock if it is still ours; it may have been taken over as stale
+      const owner = await fs.readFile(lockPath, 'utf8').catch(() => null);
+      if (owner === token) {
+        await fs.rm(lockPath, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Remove a lock left behind by a crashed process. The lock is first renamed to a
+   * unique name, which only one process can win, and the moved file is checked to be
+   * the stale one that was seen; a fresh lock moved by mistake is put back.
+   */
+  private async removeStaleLock(lockPath: string): Promise<boolean> {
+    const stats = await fs.stat(lockPath).catch(() => null);
+    if (!stats || Date.now() - stats.mtimeMs < this.staleLockMs) {
+      return false;
+    }
+
+    const claimed = `${lockPath}.${randomUUID()}.stale`;
+    try {
+      await fs.rename(lockPath, claimed);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return true; // another process removed it first; retry acquiring
+      }
+      throw error;
+    }
+
+    const claimedStats = await fs.stat(claimed);
+    if (claimedStats.ino !== stats.ino || Date.now() - claimedStats.mtimeMs < this.staleLockMs) {
+      // link fails if yet another lock was created meanwhile, which then stays in place
+      await fs.link(claimed, lockPath).catch(() => undefined);
+      await fs.rm(claimed, { force: true });
+      return false;
+    }
+
+    console.warn(`⚠️ Removing stale storage lock ${lockPath}`);
+    await fs.rm(claimed, { force: true });
+    return true;
+  }
+}
+
+/**
+ * The subset of the better-sqlite3 API used by SqliteStorage; the package is an
+ * optional dependency, so it is loaded at runtime instead of imported
+ */
+interface SqliteStatement {
+  all(...params: unknown[]): unknown[];
+  run(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabase {
+  prepare(sql: string): SqliteStatement;
+  transaction<R>(fn: () => R): { immediate(): R };
+  pragma(source: string): unknown;
+  exec(sql: string): unknown;
+  close(): unknown;
+}
+
+type SqliteDatabaseConstructor = new (filename: string) => SqliteDatabase;
+
+interface SqliteRow {
+  key: string;
+  value: string;
+}
+
+/**
+ * Embedded SQLite database (better-sqlite3), one row per record
+ */
+export class SqliteStorage implements StorageBackend {
+  readonly kind = 'sqlite' as const;
+  private dbPath: string;
+  private busyTimeoutMs: number;
+  private db: SqliteDatabase | null = null;
+
+  constructor(dbPath: string, options: { busyTimeoutMs?: number } = {}) {
+    this.dbPath = dbPath;
+    this.busyTimeoutMs = options.busyTimeoutMs ?? 10_000;
+  }
+
+  async load<T>(namespace: string): Promise<StorageRecords<T>> {
+    const db = await this.open();
+    const rows = db
+      .prepare('SELECT key, value FROM records WHERE namespace = ?')
+      .all(namespace) as SqliteRow[];
+
+    return Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.value) as T]));
+  }
+
+  async update<T, R = void>(namespace: string, mutate: (records: StorageRecords<T>) => R): Promise<R> {
+    const db = await this.open();
+    const select = db.prepare('SELECT key, value FROM records WHERE namespace = ?');
+    const upsert = db.prepare(
+      `INSERT INTO records (namespace, key, value, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(namespace, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+    );
+    const remove = db.prepare('DELETE FROM records WHERE namespace = ? AND key = ?');
+
+    // IMMEDIATE takes the write lock up front so concurrent writers queue instead of failing mid-way
+    const transaction = db.transaction(() => {
+      const before = new Map<string, string>(
+        (select.all(namespace) as SqliteRow[]).map(row => [row.key, row.value])
+      );
+      const records: StorageRecords<T> = Object.fromEntries(
+        Array.from(before.entries()).map(([key, value]) => [key, JSON.parse(value) as T])
+      );
+
+      const result = mutate(records);
+      const now = new Date().toISOString();
+
+      for (const [key, value] of Object.entries(records)) {
+        const serialized = JSON.stringify(value);
+        if (before.get(key) !== serialized) {
+          upsert.run(namespace, key, serialized, now);
+        }
+      }
+      for (const key of before.keys()) {
+        if (!(key in records)) {
+          remove.run(namespace, key);
+        }
+      }
+
+      return result;
+    });
+
+    return transaction.immediate();
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private async open(): Promise<SqliteDatabase> {
+    if (this.db) {
+      return this.db;
+    }
+
+    let loaded: unknown;
+    try {
+      loaded = require('better-sqlite3');
+    } catch {
+      throw new Error('SQLite storage requires the "better-sqlite3" package');
+    }
+
+    const Database = loaded as SqliteDatabaseConstructor;
+    await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+    const db = new Database(this.dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma(`busy_timeout = ${this.busyTimeoutMs}`);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (namespace, key)
+      )
+    `);
+
+    this.db = db;
+    return db;
+  }
+}
+
+/**
+ * Create the backend selected in configuration
+ */
+export function createStorage(config: StorageConfig): StorageBackend {
+  const resolved = path.resolve(config.path);
+
+  if (config.backend === 'sqlite') {
+    return new SqliteStorage(resolved, {
+      ...(config.lockTimeoutMs !== undefined && { busyTimeoutMs: config.lockTimeoutMs }),
+    });
+  }
+
+  return new FileStorage(resolved, {
+    ...(config.lockTimeoutMs !== undefined && { lockTimeoutMs: config.lockTimeoutMs }),
+    ...(config.staleLockMs !== undefined && { staleLockMs: config.staleLockMs }),
+  });
+}
+
+export interface MigrationResult {
+  processedIssues: number; // history entries imported
+  apiUsage: boolean; // whether usage data was imported
+}
+
+/**
+ * Import the legacy whole-file JSON (ProcessingHistory / ApiUsageData) into a backend.
+ * Records already present in the backend win, so running it twice is harmless.
+ */
+export async function migrateLegacyJson(
+  storage: StorageBackend,
+  legacy: { historyFilePath?: string; usageFilePath?: string }
+): Promise<MigrationResult> {
+  const result: MigrationResult = { processedIssues: 0, apiUsage: false };
+
+  const history = legacy.historyFilePath ? await readJson<ProcessingHistory>(legacy.historyFilePath) : null;
+  if (history?.processedIssues) {
+    result.processedIssues = await storage.update<unknown, number>(STORAGE_NAMESPACES.processingHistory, records => {
+      let imported = 0;
+      for (const [key, entry] of Object.entries(history.processedIssues)) {
+        if (!(key in records)) {
+          records[key] = entry;
+          imported++;
+        }
+      }
+      return imported;
+    });
+  }
+
+  const usage = legacy.usageFilePath ? await readJson<unknown>(legacy.usageFilePath) : null;
+  if (usage) {
+    result.apiUsage = await storage.update<unknown, boolean>(STORAGE_NAMESPACES.apiUsage, records => {
+      if ('usage' in records) {
+        return false;
+      }
+      records.usage = usage;
+      return true;
+    });
+  }
+
+  return result;
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  const exists = await fs.access(filePath).then(() => true).catch(() => false);
+  return exists ? JSON.parse(await fs.readFile(filePath, 'utf8')) as T : null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -3,6 +3,8 @@
  */
 
 import { z } from 'zod';
+import type { ApiUsageMonitor } from './api-usage-monitor';
+import type { DuplicateDetector } from './duplicate-detector';
 
 // GitHub Issue related types
 export interface IssueData {
@@ -14,8 +16,8 @@ export interface IssueData {
   labels: string[];
   assignees: string[];
   createdAt: string;
-  slackPermalink?: string;
-  sourceMeta?: Record<string, unknown>;
+  slackPermalink?: string | undefined;
+  sourceMeta?: Record<string, unknown> | undefined;
 }
 
 // Routing classification result
@@ -28,49 +30,268 @@ export interface ClassificationResult {
   priority: 'low' | 'medium' | 'high' | 'critical';
   confidence: number;
   reasoning: string;
-  projectFields?: Record<string, string | number>;
+  projectFields?: Record<string, string | number> | undefined;
 }
 
 // Rule-based routing
-export const RoutingRuleSchema = z.object({
-  when: z.object({
+
+/**
+ * A `when` condition. Leaf fields are ANDed together (OR within each list);
+ * `all`, `any` and `not` nest further conditions for explicit boolean logic.
+ */
+export interface RuleCondition {
+  channels?: string[] | undefined;
+  keywords?: string[] | undefined;
+  labels?: string[] | undefined;
+  titlePatterns?: string[] | undefined;
+  bodyPatterns?: string[] | undefined;
+  all?: RuleCondition[] | undefined;
+  any?: RuleCondition[] | undefined;
+  not?: RuleCondition | undefined;
+}
+
+const regexPatternSchema = z.string().superRefine((pattern, ctx) => {
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Invalid regular expression "${pattern}": ${error instanceof Error ? error.message : 'unknown error'}`,
+    });
+  }
+});
+
+export const RuleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.object({
     channels: z.array(z.string()).optional(),
     keywords: z.array(z.string()).optional(),
     labels: z.array(z.string()).optional(),
-    titlePatterns: z.array(z.string()).optional(),
-    bodyPatterns: z.array(z.string()).optional(),
+    titlePatterns: z.array(regexPatternSchema).optional(),
+    bodyPatterns: z.array(regexPatternSchema).optional(),
+    all: z.array(RuleConditionSchema).min(1, "'all' must contain at least one condition").optional(),
+    any: z.array(RuleConditionSchema).min(1, "'any' must contain at least one condition").optional(),
+    not: RuleConditionSchema.optional(),
+  })
+    .strict()
+    .refine(condition => Object.values(condition).some(value => value !== undefined), {
+      message: 'Condition must specify at least one field or an all/any/not group',
+    })
+);
+
+/**
+ * Score contributed by each satisfied condition when ranking matching rules.
+ * Keyword, pattern and label weights apply per hit; channel applies once.
+ */
+export const RuleWeightsSchema = z.object({
+  keyword: z.number().min(0).optional(),
+  titlePattern: z.number().min(0).optional(),
+  bodyPattern: z.number().min(0).optional(),
+  channel: z.number().min(0).optional(),
+  label: z.number().min(0).optional(),
+});
+
+export type RuleWeights = z.infer<typeof RuleWeightsSchema>;
+
+/**
+ * Project field values applied when an issue matches `when`. Every listed condition
+ * must hold; a list matches when any of its entries does. An empty `when` always matches.
+ */
+export const ProjectFieldMappingSchema = z.object({
+  when: z.object({
+    priority: z.array(z.enum(['low', 'medium', 'high', 'critical'])).optional(),
+    labels: z.array(z.string()).optional(),
+    repo: z.array(z.string()).optional(),
+    rule: z.array(z.string()).optional(), // rule names
+  }).strict().default({}),
+  set: z.record(z.union([z.string(), z.number()])).refine(fields => Object.keys(fields).length > 0, {
+    message: "'set' must contain at least one field",
   }),
+});
+
+export type ProjectFieldMapping = z.infer<typeof ProjectFieldMappingSchema>;
+
+/**
+ * A Projects v2 board owned by an organization (`org`) or a user (`user`)
+ */
+export const ProjectRefSchema = z.object({
+  org: z.string().optional(),
+  user: z.string().optional(),
+  number: z.number(),
+  // Applied in order, later mappings win; built-in Priority/Status/Type/Size mappings when omitted
+  fieldMappings: z.array(ProjectFieldMappingSchema).optional(),
+}).refine(ref => (ref.org === undefined) !== (ref.user === undefined), {
+  message: "A project needs exactly one of 'org' or 'user'",
+});
+
+export type ProjectRef = z.infer<typeof ProjectRefSchema>;
+
+// One project, or several to add the item to each
+export const ProjectTargetsSchema = z.union([ProjectRefSchema, z.array(ProjectRefSchema).min(1)]);
+
+export type ProjectTargets = z.infer<typeof ProjectTargetsSchema>;
+
+export const RoutingRuleSchema = z.object({
+  name: z.string().optional(),
+  weights: RuleWeightsSchema.optional(),
+  when: RuleConditionSchema,
   route: z.object({
     repo: z.string(),
     labels: z.array(z.string()).optional(),
     assignees: z.array(z.string()).optional(),
     priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
     projectFields: z.record(z.union([z.string(), z.number()])).optional(),
+    project: ProjectTargetsSchema.optional(), // replaces projectsByRepo and defaults.project for this rule
   }),
 });
 
 export type RoutingRule = z.infer<typeof RoutingRuleSchema>;
 
+/**
+ * What to do when the routed issue duplicates an existing one:
+ * - comment: comment on the existing issue and add labels
+ * - close-as-duplicate: link the existing issue from the source issue and close the source
+ * - reopen: reopen the existing issue if it was closed, then comment
+ * - merge-reporters: add the reporter to a tracked list in the existing issue body
+ */
+export const DuplicatePolicySchema = z.enum(['comment', 'close-as-duplicate', 'reopen', 'merge-reporters']);
+
+export type DuplicatePolicy = z.infer<typeof DuplicatePolicySchema>;
+
+// Versioned Claude model id used when llm.model is not configured
+export const DEFAULT_LLM_MODEL = 'claude-sonnet-4-20250514';
+
 // Configuration schema
+// Any subset of the API budget limits; omitted ones fall back to the defaults
+export const UsageLimitsSchema = z.object({
+  dailyCallLimit: z.number().int().positive(),
+  monthlyCallLimit: z.number().int().positive(),
+  dailyTokenLimit: z.number().int().positive(),
+  monthlyTokenLimit: z.number().int().positive(),
+  dailyCostLimit: z.number().positive(), // USD
+  monthlyCostLimit: z.number().positive(), // USD
+}).partial();
+
+// USD per 1K tokens
+export const ModelPricingSchema = z.object({
+  inputTokenCost: z.number().nonnegative(),
+  outputTokenCost: z.number().nonnegative(),
+  cachedInputTokenCost: z.number().nonnegative().optional(),
+  cacheWriteTokenCost: z.number().nonnegative().optional(),
+});
+
+// Per-factor values of the priority scoring (any subset)
+export const PriorityFactorsSchema = z.object({
+  urgency: z.number(),
+  importance: z.number(),
+  businessImpact: z.number(),
+}).partial();
+
 export const RoutingConfigSchema = z.object({
   defaults: z.object({
     repo: z.string(),
     labels: z.array(z.string()).default([]),
-    project: z.object({
-      org: z.string(),
-      number: z.number(),
-    }).optional(),
+    project: ProjectRefSchema.optional(),
   }),
   rules: z.array(RoutingRuleSchema),
+  // Target repo -> project(s), used when the matched rule has no route.project
+  projectsByRepo: z.record(ProjectTargetsSchema).optional(),
+  // How long project metadata (fields, options, iterations) is reused; 0 disables caching
+  projectCache: z.object({
+    ttlSeconds: z.number().min(0).default(300),
+  }).optional(),
+  scoring: z.object({
+    weights: RuleWeightsSchema.optional(),
+    // Relative score gap below which the top two rules are treated as a tie
+    tieMargin: z.number().min(0).max(1).default(0.1),
+  }).optional(),
   llm: z.object({
-    model: z.string().default('claude-3-sonnet'),
+    model: z.string().default(DEFAULT_LLM_MODEL),
     maxTokens: z.number().default(4000),
     temperature: z.number().default(0.1),
   }).optional(),
   duplicateDetection: z.object({
     enabled: z.boolean().default(true),
-    method: z.enum(['slack-permalink', 'content-hash', 'both']).default('both'),
+    // 'both' = slack-permalink + content-hash; 'all' adds similarity
+    method: z.enum(['slack-permalink', 'content-hash', 'both', 'similarity', 'all']).default('both'),
     lookbackDays: z.number().default(30),
+    // Local near-duplicate search (no embedding service) used by 'similarity' and 'all'
+    similarity: z.object({
+      algorithm: z.enum(['minhash', 'tfidf']).default('tfidf'),
+      threshold: z.number().min(0).max(1).default(0.5),
+      maxCandidates: z.number().int().positive().default(5),
+      recentIssues: z.number().int().min(1).max(100).default(100), // issues fetched from the target repo
+    }).optional(),
+    // Processing history: issues already routed skip the LLM on re-delivery
+    historyFile: z.string().optional(),
+    editThreshold: z.number().min(0).max(1).default(0.1),
+    skipEditedWithinHours: z.number().min(0).default(24),
+    maxHistoryEntries: z.number().int().positive().default(5000),
+    // A single policy, or a default plus per-target-repo overrides
+    onDuplicate: z.union([
+      DuplicatePolicySchema,
+      z.object({
+        default: DuplicatePolicySchema.default('comment'),
+        repos: z.record(DuplicatePolicySchema).default({}),
+      }),
+    ]).default('comment'),
+  }).optional(),
+  // Claude API budget; the classifier checks it before every LLM call
+  apiUsage: z.object({
+    enabled: z.boolean().default(true),
+    usageFile: z.string().default('data/api-usage.json'),
+    limits: UsageLimitsSchema.optional(),
+    modelLimits: z.record(UsageLimitsSchema).optional(), // keyed by model id or id prefix
+    pricing: z.record(ModelPricingSchema).optional(), // merged over the built-in price table
+  }).optional(),
+  // Priority scoring; omitted values keep the built-in defaults, keyword sets replace
+  // the default set of the same name. Fit with `calibrate-priority`.
+  priorityProcessing: z.object({
+    scoring: z.object({
+      weights: PriorityFactorsSchema.optional(),
+      base: PriorityFactorsSchema.optional(),
+      thresholds: z.object({
+        emergencyUrgency: z.number().min(0).max(1),
+        high: z.number().min(0).max(1),
+        medium: z.number().min(0).max(1),
+      }).partial().optional(),
+      keywordSets: z.record(z.object({
+        factor: z.enum(['urgency', 'importance', 'businessImpact']),
+        keywords: z.record(z.number()), // keyword -> weight
+      })).optional(),
+      signals: z.object({
+        criticalLabel: z.number(),
+        recent: z.number(),
+        recentHours: z.number().min(0),
+        productionRepo: z.number(),
+        humanAuthor: z.number(),
+        multipleAssignees: z.number(),
+      }).partial().optional(),
+    }).optional(),
+    emergencyPatterns: z.array(z.string()).optional(),
+    productionRepos: z.array(z.string()).optional(),
+    criticalLabels: z.array(z.string()).optional(),
+  }).optional(),
+  // Batch/deferral queues of the priority processor, drained on a schedule
+  priorityQueue: z.object({
+    dir: z.string().default('data'), // file storage directory when `storage` is not set
+    claimTimeoutMinutes: z.number().positive().default(30),
+    maxAttempts: z.number().int().positive().default(3),
+    stuckAfterHours: z.number().positive().default(72),
+  }).optional(),
+  // Announce project Status changes and closure of routed issues on the source issue
+  reverseSync: z.object({
+    enabled: z.boolean().default(false),
+    statusField: z.string().default('Status'),
+    dir: z.string().default('data'), // file storage directory when `storage` is not set
+    webhookUrlEnv: z.string().default('ROUTING_SYNC_WEBHOOK_URL'), // env var holding the Slack-compatible webhook URL
+    retentionDays: z.number().positive().default(90), // routed items are forgotten after this
+  }).optional(),
+  // Where processing history, API usage, priority queues and routed items are persisted
+  storage: z.object({
+    backend: z.enum(['file', 'sqlite']).default('file'),
+    path: z.string(), // directory (file) or database file (sqlite)
+    lockTimeoutMs: z.number().int().positive().optional(),
+    staleLockMs: z.number().int().positive().optional(), // file backend: lock age treated as abandoned
   }).optional(),
 });
 
@@ -82,6 +303,7 @@ export interface ProjectField {
   name: string;
   dataType: 'TEXT' | 'NUMBER' | 'DATE' | 'SINGLE_SELECT' | 'ITERATION';
   options?: ProjectFieldOption[];
+  iterations?: ProjectIteration[]; // current and upcoming iterations of an ITERATION field
 }
 
 export interface ProjectFieldOption {
@@ -89,6 +311,13 @@ export interface ProjectFieldOption {
   name: string;
 }
 
+export interface ProjectIteration {
+  id: string;
+  title: string;
+  startDate: string; // YYYY-MM-DD
+  duration: number; // days
+}
+
 export interface ProjectInfo {
   id: string;
   number: number;
@@ -97,35 +326,102 @@ export interface ProjectInfo {
   fields: ProjectField[];
 }
 
+// An issue's item on one project
+export interface ProjectItemRef {
+  project: string; // e.g. orgs/delax-org/projects/12 or users/delax/projects/3
+  projectId: string;
+  itemId: string;
+}
+
 // GitHub API operation result
 export interface GitHubOperationResult {
   success: boolean;
   issueNumber?: number;
   issueUrl?: string;
-  projectItemId?: string;
+  projectItemId?: string; // the first of projectItems
+  projectItems?: ProjectItemRef[];
   error?: string;
   details?: Record<string, unknown>;
 }
 
-// Duplicate detection result
-export interface DuplicateCheckResult {
-  isDuplicate: boolean;
+// Issue scored by the similarity method
+export interface SimilarIssueCandidate {
+  id: string; // issue number in the target repo, or processing-history key
+  url: string;
+  title: string;
+  score: number; // 0..1
+}
+
+// Duplicate detection result: discriminated on `method` once `isDuplicate` is true
+export type DuplicateMethod = 'slack-permalink' | 'content-hash' | 'similarity' | 'history';
+
+// An issue found in the target repository
+export interface ExistingGitHubIssue {
+  repo: string;
+  number: number;
+  url: string;
+}
+
+// An issue found in the processing history
+export interface ProcessedIssueRef {
+  id: string;
+  processedAt: string;
+  classification: ClassificationResult; // validated against ClassificationResultSchema
+  url: string;
+}
+
+export interface EditDetails {
+  requiresReprocessing: boolean;
+  editDistance: number;
+  timeSinceLastEdit: number;
   reason: string;
-  existingIssue?: {
-    id: string;
-    processedAt: string;
-    classification: any;
-    url: string;
-  };
-  savedApiCalls?: number;
-  editDetails?: {
-    requiresReprocessing: boolean;
-    editDistance: number;
-    timeSinceLastEdit: number;
-    reason: string;
-  };
 }
 
+interface DuplicateMatchBase {
+  isDuplicate: true;
+  reason: string;
+  confidence: number; // 0..1
+}
+
+export interface PermalinkDuplicate extends DuplicateMatchBase {
+  method: 'slack-permalink';
+  existingIssue: ExistingGitHubIssue;
+}
+
+export interface ContentHashDuplicate extends DuplicateMatchBase {
+  method: 'content-hash';
+  existingIssue: ExistingGitHubIssue;
+}
+
+export interface SimilarityDuplicate extends DuplicateMatchBase {
+  method: 'similarity';
+  existingIssue: ExistingGitHubIssue;
+  candidates: SimilarIssueCandidate[]; // top similarity matches, best first
+}
+
+export interface HistoryDuplicate extends DuplicateMatchBase {
+  method: 'history';
+  existingIssue: ProcessedIssueRef;
+  savedApiCalls: number;
+  editDetails?: EditDetails;
+}
+
+export interface NoDuplicate {
+  isDuplicate: false;
+  method: DuplicateMethod | 'none'; // the check that ran last
+  reason: string;
+  confidence: number; // best score seen, 0 when nothing came close
+  editDetails?: EditDetails; // set when an edit was significant enough to reprocess
+  candidates?: SimilarIssueCandidate[]; // similar issues, best first; a signal only, never reused
+}
+
+// A duplicate in the target repository, as acted on by the onDuplicate policy
+export type GitHubDuplicate = PermalinkDuplicate | ContentHashDuplicate | SimilarityDuplicate;
+
+export type GitHubDuplicateCheckResult = GitHubDuplicate | NoDuplicate;
+export type HistoryCheckResult = HistoryDuplicate | NoDuplicate;
+export type DuplicateCheckResult = GitHubDuplicate | HistoryDuplicate | NoDuplicate;
+
 // Processing history types
 export interface ProcessingHistory {
   version: string;
@@ -147,6 +443,11 @@ export interface ClassificationContext {
   organizationContext?: string;
 }
 
+// Several issues classified in one LLM call; they share the repos and context
+export interface BatchClassificationContext extends Omit<ClassificationContext, 'issue'> {
+  issues: IssueData[]; // issue numbers must be unique within a batch
+}
+
 // Router execution context
 export interface RouterContext {
   config: RoutingConfig;
@@ -155,17 +456,59 @@ export interface RouterContext {
   openAIApiKey?: string;
   dryRun?: boolean;
   verbose?: boolean;
+  explain?: boolean;
+  duplicateDetector?: DuplicateDetector; // overrides the detector built from duplicateDetection.historyFile
+  apiUsageMonitor?: ApiUsageMonitor; // overrides the monitor built from apiUsage
+}
+
+// Rule evaluation trace (explain mode)
+export interface ConditionTrace {
+  condition: 'keywords' | 'titlePatterns' | 'bodyPatterns' | 'labels' | 'channels' | 'all' | 'any' | 'not' | 'group';
+  passed: boolean;
+  matched?: string[]; // values that hit (keywords found, patterns matched, labels present)
+  missing?: string[]; // values that did not hit
+  note?: string;
+  children?: ConditionTrace[];
+}
+
+export interface RuleTrace {
+  index: number;
+  name?: string;
+  repo: string;
+  matched: boolean;
+  score: number;
+  when: ConditionTrace;
+}
+
+export interface RoutingTrace {
+  outcome: 'rule-match' | 'near-tie' | 'no-match';
+  selectedRule?: number;
+  runnerUpRule?: number;
+  rules: RuleTrace[];
 }
 
 // Routing execution result
 export interface RoutingResult {
   success: boolean;
   classification: ClassificationResult;
-  duplicateCheck: DuplicateCheckResult;
+  duplicateCheck: GitHubDuplicateCheckResult;
   githubOperation: GitHubOperationResult;
   executionTime: number;
   logs: string[];
   error?: string;
+  trace?: RoutingTrace;
+  historyCheck?: HistoryCheckResult; // processing-history lookup, when enabled
+  savedApiCalls?: number; // LLM calls skipped thanks to the processing history
+  budgetGuard?: BudgetGuardResult; // set when the API budget kept the LLM from running
+  plannedActions?: string[]; // dry run: the GitHub writes a real run would make
+}
+
+// Outcome of an LLM call refused by the API usage monitor
+export interface BudgetGuardResult {
+  action: 'rules-only' | 'default-routing'; // what the router used instead of the LLM
+  reason: string; // the limit that was hit
+  estimatedInputTokens: number;
+  estimatedOutputTokens: number;
 }
 
 // Export validation schemas
@@ -0,0 +1,280 @@
+/**
+ * API usage reports over ApiUsageMonitor data
+ * Per-day or per-month totals against the limits, a month-end projection from the
+ * current run rate, and the repos/issues that spent the most this month
+ */
+
+import type { ApiUsageData, UsageCounters, UsageLimits } from './api-usage-monitor';
+
+export type UsageReportView = 'daily' | 'monthly';
+export type UsageReportFormat = 'table' | 'csv' | 'json';
+
+export interface UsageReportOptions {
+  view: UsageReportView;
+  periods?: number; // rows ending with the current period (default 30 days / 12 months)
+  top?: number; // repos and issues listed (default 5)
+  now?: Date;
+}
+
+export interface UsageReportRow {
+  period: string; // YYYY-MM-DD or YYYY-MM
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD
+  callsPercentage: number; // of the period limit
+  tokensPercentage: number;
+  costPercentage: number;
+  costChange: number | null; // vs the previous row; null when that row cost nothing
+  inProgress: boolean; // the current day or month
+}
+
+export interface UsageProjection {
+  month: string; // YYYY-MM
+  daysElapsed: number;
+  daysInMonth: number;
+  costToDate: number;
+  dailyRunRate: number; // average cost per day so far this month
+  projectedCost: number;
+  projectedCalls: number;
+  projectedTokens: number;
+  costLimit: number;
+  projectedPercentage: number; // projectedCost / costLimit
+}
+
+export interface UsageSpender extends UsageCounters {
+  name: string; // repo or "owner/repo#number"
+}
+
+export interface UsageReport {
+  view: UsageReportView;
+  generatedAt: string;
+  limits: { calls: number; tokens: number; cost: number }; // per row period
+  rows: UsageReportRow[];
+  totals: UsageCounters;
+  projection: UsageProjection;
+  costByModel: Record<string, number>; // this month, USD
+  topRepos: UsageSpender[]; // this month, by cost
+  topIssues: UsageSpender[];
+}
+
+/**
+ * Build a report from usage data. Periods without recorded usage appear as zero rows.
+ */
+export function buildUsageReport(data: ApiUsageData, limits: UsageLimits, options: UsageReportOptions): UsageReport {
+  const now = options.now ?? new Date();
+  const today = now.toISOString().slice(0, 10);
+  const currentMonth = today.substring(0, 7);
+  const daily = options.view === 'daily';
+
+  // Recorded counters per period key, archived and current
+  const recorded = new Map<string, UsageCounters>();
+  for (const entry of data.history) {
+    if (entry.type === options.view) {
+      recorded.set(entry.date, entry);
+    }
+  }
+  if (daily && data.currentPeriod.daily.date === today) {
+    recorded.set(today, data.currentPeriod.daily);
+  }
+  if (!daily && data.currentPeriod.monthly.month === currentMonth) {
+    recorded.set(currentMonth, data.currentPeriod.monthly);
+  }
+
+  const periodLimits = daily
+    ? { calls: limits.dailyCallLimit, tokens: limits.dailyTokenLimit, cost: limits.dailyCostLimit }
+    : { calls: limits.monthlyCallLimit, tokens: limits.monthlyTokenLimit, cost: limits.monthlyCostLimit };
+
+  const keys = daily
+    ? lastDays(today, options.periods ?? 30)
+    : lastMonths(currentMonth, options.periods ?? 12);
+
+  const rows: UsageReportRow[] = [];
+  for (const period of keys) {
+    const counters = recorded.get(period) ?? emptyCounters();
+    const previous = rows[rows.length - 1];
+    const tokens = counters.inputTokens + counters.outputTokens;
+
+    rows.push({
+      period,
+      calls: counters.calls,
+      inputTokens: counters.inputTokens,
+      outputTokens: counters.outputTokens,
+      cost: counters.estimatedCost,
+      callsPercentage: counters.calls / periodLimits.calls,
+      tokensPercentage: tokens / periodLimits.tokens,
+      costPercentage: counters.estimatedCost / periodLimits.cost,
+      costChange: previous && previous.cost > 0 ? (counters.estimatedCost - previous.cost) / previous.cost : null,
+      inProgress: period === (daily ? today : currentMonth),
+    });
+  }
+
+  const month = data.currentPeriod.monthly.month === currentMonth ? data.currentPeriod.monthly : null;
+  const top = options.top ?? 5;
+
+  return {
+    view: options.view,
+    generatedAt: now.toISOString(),
+    limits: periodLimits,
+    rows,
+    totals: rows.reduce<UsageCounters>((sum, row) => ({
+      calls: sum.calls + row.calls,
+      inputTokens: sum.inputTokens + row.inputTokens,
+      outputTokens: sum.outputTokens + row.outputTokens,
+      estimatedCost: sum.estimatedCost + row.cost,
+    }), emptyCounters()),
+    projection: projectMonth(month ?? emptyCounters(), now, limits.monthlyCostLimit),
+    costByModel: Object.fromEntries(
+      Object.entries(month?.models ?? {}).map(([model, usage]) => [model, usage.estimatedCost])
+    ),
+    topRepos: topSpenders(month?.repos, top),
+    topIssues: topSpenders(month?.issues, top),
+  };
+}
+
+/**
+ * Render a report as an aligned table, CSV (rows only) or JSON
+ */
+export function formatUsageReport(report: UsageReport, format: UsageReportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+  if (format === 'csv') {
+    return formatCsv(report);
+  }
+
+  const lines: string[] = [];
+  const percent = (value: number): string => `${Math.round(value * 100)}%`;
+  const usd = (value: number): string => `$${value.toFixed(2)}`;
+
+  lines.push(`API usage (${report.view}) - limits per ${report.view === 'daily' ? 'day' : 'month'}: ${report.limits.calls} calls, ${report.limits.tokens.toLocaleString()} tokens, ${usd(report.limits.cost)}`);
+  lines.push('');
+
+  const header = ['Period', 'Calls', 'Tokens', 'Cost', 'Calls%', 'Tokens%', 'Cost%', 'Δ cost', ''];
+  const table = report.rows.map(row => [
+    row.inProgress ? `${row.period}*` : row.period,
+    String(row.calls),
+    (row.inputTokens + row.outputTokens).toLocaleString(),
+    usd(row.cost),
+    percent(row.callsPercentage),
+    percent(row.tokensPercentage),
+    percent(row.costPercentage),
+    row.costChange === null ? '-' : `${row.costChange >= 0 ? '+' : ''}${percent(row.costChange)}`,
+    limitMarker(Math.max(row.callsPercentage, row.tokensPercentage, row.costPercentage)),
+  ]);
+  const totals = report.totals;
+  table.push([
+    'Total',
+    String(totals.calls),
+    (totals.inputTokens + totals.outputTokens).toLocaleString(),
+    usd(totals.estimatedCost),
+    '', '', '', '', '',
+  ]);
+
+  const widths = header.map((title, i) => Math.max(title.length, ...table.map(cells => cells[i]?.length ?? 0)));
+  const render = (cells: string[]): string =>
+    cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i] ?? 0) : cell.padStart(widths[i] ?? 0))).join('  ').trimEnd();
+
+  lines.push(render(header));
+  table.forEach(cells => lines.push(render(cells)));
+  lines.push('* in progress');
+
+  const projection = report.projection;
+  lines.push('', `Month-end projection (${projection.month}):`);
+  lines.push(`  ${usd(projection.costToDate)} over ${projection.daysElapsed}/${projection.daysInMonth} days (${usd(projection.dailyRunRate)}/day)`);
+  lines.push(`  → ${usd(projection.projectedCost)}, ${projection.projectedCalls} calls, ${projection.projectedTokens.toLocaleString()} tokens`);
+  lines.push(`  ${percent(projection.projectedPercentage)} of the ${usd(projection.costLimit)} monthly limit ${limitMarker(projection.projectedPercentage)}`.trimEnd());
+
+  const models = Object.entries(report.costByModel).sort(([, a], [, b]) => b - a);
+  if (models.length > 0) {
+    lines.push('', 'Cost by model (this month):');
+    models.forEach(([model, cost]) => lines.push(`  ${model}: ${usd(cost)}`));
+  }
+
+  for (const [title, spenders] of [['Top repos', report.topRepos], ['Top issues', report.topIssues]] as const) {
+    if (spenders.length > 0) {
+      lines.push('', `${title} (this month):`);
+      spenders.forEach(spender => lines.push(`  ${spender.name}: ${usd(spender.estimatedCost)} (${spender.calls} call${spender.calls === 1 ? '' : 's'})`));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatCsv(report: UsageReport): string {
+  const header = 'period,calls,input_tokens,output_tokens,cost_usd,calls_pct,tokens_pct,cost_pct,cost_change_pct,in_progress';
+  const round = (value: number): string => String(Math.round(value * 10000) / 100);
+
+  return [header, ...report.rows.map(row => [
+    row.period,
+    row.calls,
+    row.inputTokens,
+    row.outputTokens,
+    row.cost.toFixed(4),
+    round(row.callsPercentage),
+    round(row.tokensPercentage),
+    round(row.costPercentage),
+    row.costChange === null ? '' : round(row.costChange),
+    row.inProgress,
+  ].join(','))].join('\n');
+}
+
+/**
+ * Extrapolate month-to-date usage at the average daily rate
+ */
+function projectMonth(month: UsageCounters, now: Date, costLimit: number): UsageProjection {
+  const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+  const daysElapsed = now.getUTCDate();
+  const scale = daysInMonth / daysElapsed;
+  const projectedCost = month.estimatedCost * scale;
+
+  return {
+    month: now.toISOString().substring(0, 7),
+    daysElapsed,
+    daysInMonth,
+    costToDate: month.estimatedCost,
+    dailyRunRate: month.estimatedCost / daysElapsed,
+    projectedCost,
+    projectedCalls: Math.round(month.calls * scale),
+    projectedTokens: Math.round((month.inputTokens + month.outputTokens) * scale),
+    costLimit,
+    projectedPercentage: projectedCost / costLimit,
+  };
+}
+
+function topSpenders(spend: Record<string, UsageCounters> | undefined, top: number): UsageSpender[] {
+  return Object.entries(spend ?? {})
+    .map(([name, counters]) => ({ name, ...counters }))
+    .sort((a, b) => b.estimatedCost - a.estimatedCost || b.calls - a.calls)
+    .slice(0, top);
+}
+
+function limitMarker(percentage: number): string {
+  if (percentage >= 1) return '🚨';
+  if (percentage >= 0.8) return '⚠️';
+  return '';
+}
+
+/**
+ * The `count` dates ending with `today`, oldest first
+ */
+function lastDays(today: string, count: number): string[] {
+  const end = Date.parse(`${today}T00:00:00Z`);
+  return Array.from({ length: count }, (_, i) =>
+    new Date(end - (count - 1 - i) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+}
+
+/**
+ * The `count` months ending with `month`, oldest first
+ */
+function lastMonths(month: string, count: number): string[] {
+  const [year, monthIndex] = month.split('-').map(Number) as [number, number];
+  return Array.from({ length: count }, (_, i) =>
+    new Date(Date.UTC(year, monthIndex - 1 - (count - 1 - i), 1)).toISOString().substring(0, 7)
+  );
+}
+
+function emptyCounters(): UsageCounters {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 };
+}
@@ -2,9 +2,75 @@
  * Tests for the routing system
  */
 
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import fsPromises from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { GraphqlResponseError } from '@octokit/graphql';
+import { Octokit } from '@octokit/rest';
+import { createClaudeIntegration, type ClaudeTransport, type MessagesRequest } from '@delax/claude-integration';
+import { ApiUsageMonitor, createDefaultApiUsageConfig } from '../src/api-usage-monitor';
+import { IssueClassifier } from '../src/classifier';
+import { DuplicateDetector, createDefaultDuplicateConfig } from '../src/duplicate-detector';
+import { GitHubApiClient } from '../src/github-api';
+import { calibratePriorityScoring, loadPriorityCorpus } from '../src/priority-calibration';
+import {
+  PriorityProcessor,
+  createDefaultPriorityConfig,
+  resolvePriorityConfig,
+  type PriorityConfig,
+} from '../src/priority-processor';
+import {
+  ProjectConfigError,
+  ProjectsApiClient,
+  projectKey,
+  resolveDateValue,
+  resolveIteration,
+  resolveProjectTargets,
+  validateProjectFieldConfig,
+  type IssueProjectState,
+} from '../src/projects-api';
+import { ReverseSync } from '../src/reverse-sync';
 import { IssueRouter } from '../src/router';
 import { createTestConfig } from '../src/config';
-import type { IssueData, RouterContext } from '../src/types';
+import { RoutingSimulator, type SimulationRecord } from '../src/routing-simulator';
+import { buildTrace, evaluateRules, rankCandidates } from '../src/rule-engine';
+import { rankBySimilarity } from '../src/similarity';
+import { FileStorage, SqliteStorage, STORAGE_NAMESPACES, type StorageBackend } from '../src/storage';
+import { validateRoutingConfig } from '../src/types';
+import { buildUsageReport, formatUsageReport } from '../src/usage-report';
+import type {
+  ClassificationResult,
+  IssueData,
+  ProjectField,
+  ProjectFieldMapping,
+  ProjectInfo,
+  RouterContext,
+  RoutingConfig,
+} from '../src/types';
+
+// better-sqlite3 is an optional native dependency; skip the SQLite cases where it cannot load
+const sqliteAvailable = ((): boolean => {
+  try {
+    require('better-sqlite3');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+const sqliteTest = sqliteAvailable ? test : test.skip;
+
+// A routing decision as stored in the processing history
+const storedClassification: ClassificationResult = {
+  repo: 'test-org/ios-app',
+  title: 'Stored title',
+  body: 'Stored body',
+  labels: ['ios', 'bug'],
+  assignees: [],
+  priority: 'high',
+  confidence: 0.9,
+  reasoning: 'stored',
+};
 
 describe('Issue Routing System', () => {
   let router: IssueRouter;
@@ -21,7 +87,6 @@ describe('Issue Routing System', () => {
       labels: ['bug'],
       assignees: [],
       createdAt: '2024-01-01T00:00:00Z',
-      slackPermalink: null,
       sourceMeta: {
         channel: '#ios-dev',
         repository: 'router',
@@ -107,27 +172,1929 @@ describe('Issue Routing System', () => {
     });
   });
 
-  describe('Duplicate detection', () => {
-    test('should detect duplicate by Slack permalink', async () => {
-      mockIssue.slackPermalink = 'https://test.slack.com/archives/C123/p1234567890';
-      mockContext.issue = mockIssue;
+  describe('Boolean rule composition', () => {
+    const buildRouter = (rules: RoutingConfig['rules']): IssueRouter =>
+      new IssueRouter({
+        ...mockContext,
+        config: createTestConfig({
+          defaults: { repo: 'test-org/inbox', labels: ['triage'] },
+          rules,
+        }),
+      });
+
+    test('should support NOT groups', () => {
+      const router = buildRouter([
+        {
+          when: {
+            keywords: ['iOS'],
+            not: { labels: ['backend'] },
+          },
+          route: { repo: 'test-org/ios-app' },
+        },
+      ]);
+
+      expect(router.explainRules(mockIssue).classification?.repo).toBe('test-org/ios-app');
+
+      const backendIssue = { ...mockIssue, labels: ['bug', 'backend'] };
+      expect(router.explainRules(backendIssue).classification).toBeNull();
+    });
+
+    test('should support ANY groups across different fields', () => {
+      const router = buildRouter([
+        {
+          when: {
+            any: [
+              { channels: ['#ios'] },
+              { titlePatterns: ['crash'] },
+            ],
+          },
+          route: { repo: 'test-org/ios-app' },
+        },
+      ]);
+
+      const crashIssue = {
+        ...mockIssue,
+        title: 'App crash on launch',
+        sourceMeta: { channel: '#general' },
+      };
+      expect(router.explainRules(crashIssue).classification?.repo).toBe('test-org/ios-app');
+
+      const unrelatedIssue = {
+        ...mockIssue,
+        title: 'Question about billing',
+        sourceMeta: { channel: '#general' },
+      };
+      expect(router.explainRules(unrelatedIssue).classification).toBeNull();
+    });
+
+    test('should not let a missing channel satisfy ANY or NOT groups', () => {
+      const anyRouter = buildRouter([
+        {
+          when: { any: [{ channels: ['#ios'] }, { titlePatterns: ['crash'] }] },
+          route: { repo: 'test-org/ios-app' },
+        },
+      ]);
+      const notRouter = buildRouter([
+        {
+          when: { keywords: ['SwiftUI'], not: { channels: ['#backend'] } },
+          route: { repo: 'test-org/ios-app' },
+        },
+      ]);
+      const { sourceMeta: _sourceMeta, ...withoutChannel } = mockIssue;
+
+      expect(anyRouter.explainRules({ ...withoutChannel, title: 'Question about billing' }).classification).toBeNull();
+      expect(anyRouter.explainRules({ ...withoutChannel, title: 'App crash on launch' }).classification?.repo).toBe('test-org/ios-app');
+      expect(notRouter.explainRules(withoutChannel).classification?.repo).toBe('test-org/ios-app');
+      expect(notRouter.explainRules({ ...mockIssue, sourceMeta: { channel: '#backend' } }).classification).toBeNull();
+    });
+
+    test('should skip a top-level channels condition for issues without a channel', () => {
+      const router = buildRouter([
+        { when: { keywords: ['SwiftUI'], channels: ['#ios'] }, route: { repo: 'test-org/ios-app' } },
+      ]);
+      const { sourceMeta: _sourceMeta, ...withoutChannel } = mockIssue;
+
+      expect(router.explainRules(withoutChannel).classification?.repo).toBe('test-org/ios-app');
+    });
+
+    test('should evaluate nested ALL groups recursively', () => {
+      const router = buildRouter([
+        {
+          when: {
+            all: [
+              { keywords: ['SwiftUI'] },
+              { any: [{ labels: ['bug'] }, { keywords: ['crash'] }] },
+              { not: { any: [{ labels: ['wontfix'] }] } },
+            ],
+          },
+          route: { repo: 'test-org/ios-app' },
+        },
+      ]);
+
+      expect(router.explainRules(mockIssue).classification?.repo).toBe('test-org/ios-app');
+      expect(router.explainRules({ ...mockIssue, labels: ['bug', 'wontfix'] }).classification).toBeNull();
+    });
+
+    test('should reject malformed condition trees', () => {
+      const base = {
+        defaults: { repo: 'test-org/inbox', labels: [] },
+      };
+
+      expect(() => validateRoutingConfig({
+        ...base,
+        rules: [{ when: { any: [] }, route: { repo: 'test-org/a' } }],
+      })).toThrow(/'any' must contain at least one condition/);
+
+      expect(() => validateRoutingConfig({
+        ...base,
+        rules: [{ when: { all: [{ not: {} }] }, route: { repo: 'test-org/a' } }],
+      })).toThrow(/at least one field/);
+
+      expect(() => validateRoutingConfig({
+        ...base,
+        rules: [{ when: { keyword: ['typo'] }, route: { repo: 'test-org/a' } }],
+      })).toThrow(/keyword/);
+
+      expect(() => validateRoutingConfig({
+        ...base,
+        rules: [{ when: { titlePatterns: ['(unclosed'] }, route: { repo: 'test-org/a' } }],
+      })).toThrow(/Invalid regular expression/);
+    });
+  });
+
+  describe('Weighted rule scoring', () => {
+    const scoringRules: RoutingConfig['rules'] = [
+      {
+        name: 'generic-bug',
+        when: { labels: ['bug'] },
+        route: { repo: 'test-org/bug-triage' },
+      },
+      {
+        name: 'ios',
+        when: { keywords: ['iOS', 'SwiftUI', 'CloudKit'] },
+        route: { repo: 'test-org/ios-app' },
+      },
+    ];
+
+    const buildRouter = (config: Partial<RoutingConfig>): IssueRouter =>
+      new IssueRouter({
+        ...mockContext,
+        config: createTestConfig({
+          defaults: { repo: 'test-org/inbox', labels: ['triage'] },
+          rules: scoringRules,
+          ...config,
+        }),
+      });
+
+    test('should pick the highest scoring rule regardless of order', () => {
+      const result = buildRouter({}).explainRules(mockIssue).classification;
+
+      // 3 keyword hits (3) beat one label hit (2)
+      expect(result?.repo).toBe('test-org/ios-app');
+      expect(result?.confidence).toBeCloseTo(0.6);
+      expect(result?.reasoning).toContain('"ios"');
+      expect(result?.reasoning).toContain('runner-up: "generic-bug" → test-org/bug-triage');
+    });
+
+    test('should respect per-rule weight overrides', () => {
+      const result = buildRouter({
+        rules: [
+          { ...scoringRules[0]!, weights: { label: 10 } },
+          scoringRules[1]!,
+        ],
+      }).explainRules(mockIssue).classification;
+
+      expect(result?.repo).toBe('test-org/bug-triage');
+    });
+
+    test('should fall through on near-ties within the configured margin', () => {
+      const router = buildRouter({
+        scoring: { weights: { label: 2.8 }, tieMargin: 0.1 },
+      });
+
+      const { classification, trace } = router.explainRules(mockIssue);
+
+      expect(classification).toBeNull();
+      expect(trace.outcome).toBe('near-tie');
+      expect(trace.selectedRule).toBeUndefined();
+      expect(trace.runnerUpRule).toBe(0); // "ios" (index 1) still scores highest
+      expect(trace.rules[1]!.score).toBeGreaterThan(trace.rules[0]!.score);
+    });
+
+    test('should report full confidence when only one rule matches', () => {
+      const result = buildRouter({}).explainRules({ ...mockIssue, labels: [] }).classification;
+
+      expect(result?.repo).toBe('test-org/ios-app');
+      expect(result?.confidence).toBe(0.95);
+    });
+  });
+
+  describe('Explain mode', () => {
+    test('should trace which conditions passed and failed per rule', () => {
+      const config = createTestConfig({
+        defaults: { repo: 'test-org/inbox', labels: ['triage'] },
+        rules: [
+          {
+            name: 'ios',
+            when: {
+              keywords: ['SwiftUI', 'Xcode'],
+              not: { labels: ['backend'] },
+            },
+            route: { repo: 'test-org/ios-app' },
+          },
+          {
+            name: 'security',
+            when: { labels: ['security'], titlePatterns: ['vulnerab'] },
+            route: { repo: 'test-org/security' },
+          },
+        ],
+      });
+
+      const evaluations = evaluateRules(config, mockIssue);
+      const trace = buildTrace(evaluations, rankCandidates(evaluations), true);
+
+      expect(trace.outcome).toBe('rule-match');
+      expect(trace.selectedRule).toBe(0);
+
+      const [ios, security] = trace.rules;
+      expect(ios?.matched).toBe(true);
+      expect(ios?.when.children?.[0]).toMatchObject({
+        condition: 'keywords',
+        passed: true,
+        matched: ['SwiftUI'],
+        missing: ['Xcode'],
+      });
+      expect(ios?.when.children?.[1]).toMatchObject({ condition: 'not', passed: true });
+
+      expect(security?.matched).toBe(false);
+      expect(security?.when.children).toEqual([
+        { condition: 'titlePatterns', passed: false, matched: [], missing: ['vulnerab'] },
+        { condition: 'labels', passed: false, matched: [], missing: ['security'] },
+      ]);
+
+      const text = IssueRouter.formatTrace(trace);
+      expect(text).toContain('selected "ios"');
+      expect(text).toContain('❌ labels: missing [security]');
+    });
+  });
+
+  describe('Routing simulator', () => {
+    const buildRecords = (): SimulationRecord[] => [
+      { issue: mockIssue, expectedRepo: 'test-org/ios-app' },
+      {
+        issue: { ...mockIssue, number: 2, title: 'API timeout', body: 'Backend API is slow', labels: [] },
+        expectedRepo: 'test-org/ios-app',
+      },
+      { issue: { ...mockIssue, number: 3, title: 'Question', body: 'Unrelated', labels: [] } },
+    ];
+
+    test('should report accuracy, rule hits and unmatched issues', () => {
+      const report = new RoutingSimulator().simulate(mockContext.config, buildRecords());
+
+      expect(report.total).toBe(3);
+      expect(report.routedByRule).toBe(2);
+      expect(report.correct).toBe(1);
+      expect(report.accuracy).toBeCloseTo(0.5);
+      expect(report.confusionMatrix['test-org/ios-app']).toEqual({
+        'test-org/ios-app': 1,
+        'test-org/backend': 1,
+      });
+      expect(report.ruleHits.map(r => r.selected)).toEqual([1, 1]);
+      expect(report.unmatched.map(o => o.issueNumber)).toEqual([3]);
+      expect(report.unmatched[0]?.actualRepo).toBe('test-org/inbox');
+    });
+
+    test('should diff current and proposed configurations', () => {
+      const proposed = createTestConfig({
+        ...mockContext.config,
+        rules: [
+          {
+            when: { keywords: ['iOS', 'SwiftUI', 'API'] },
+            route: { repo: 'test-org/ios-app' },
+          },
+        ],
+      });
+
+      const diff = new RoutingSimulator().compare(mockContext.config, proposed, buildRecords());
+
+      expect(diff.changes).toEqual([
+        expect.objectContaining({ issueNumber: 2, before: 'test-org/backend', after: 'test-org/ios-app', effect: 'fixed' }),
+      ]);
+      expect(diff.proposed.accuracy).toBe(1);
+      expect(diff.proposed.neverFired).toHaveLength(0);
+    });
+  });
+
+  describe('LLM classification', () => {
+    const validAnswer = {
+      repo: 'test-org/ios-app',
+      title: 'CloudKit sync fails',
+      body: 'Sync stops after login',
+      labels: ['ios'],
+      assignees: [],
+      priority: 'high',
+      confidence: 0.9,
+      reasoning: 'Mentions SwiftUI and CloudKit',
+    };
+
+    const createClassifier = (answers: unknown[]) => {
+      const requests: MessagesRequest[] = [];
+      const transport: ClaudeTransport = {
+        send: async request => {
+          requests.push(request);
+          return {
+            id: `msg_${requests.length}`,
+            model: request.model,
+            text: JSON.stringify(answers[requests.length - 1]),
+            stopReason: 'end_turn',
+            usage: { inputTokens: 100, outputTokens: 20 },
+          };
+        },
+      };
+
+      const classifier = new IssueClassifier(mockContext.config);
+      classifier['claude'] = createClaudeIntegration({ model: 'test-model', transport });
+      return { classifier, requests };
+    };
+
+    const buildContext = () => ({
+      issue: mockIssue,
+      availableRepos: ['test-org/inbox', 'test-org/ios-app', 'test-org/backend'],
+      existingLabels: {},
+    });
+
+    test('should return a schema-validated classification', async () => {
+      const { classifier, requests } = createClassifier([validAnswer]);
+
+      const result = await classifier.classify(buildContext());
+
+      expect(result.repo).toBe('test-org/ios-app');
+      expect(result.priority).toBe('high');
+      expect(requests).toHaveLength(1);
+      expect(requests[0]?.system).toContain('JSON Schema');
+    });
+
+    test('should retry once with the validation error', async () => {
+      const { classifier, requests } = createClassifier([
+        { ...validAnswer, priority: 'urgent' },
+        validAnswer,
+      ]);
+
+      const result = await classifier.classify(buildContext());
+
+      expect(result.priority).toBe('high');
+      expect(requests).toHaveLength(2);
+      expect(requests[1]?.messages.at(-1)?.content).toContain('priority');
+    });
+
+    test('should fall back after a second invalid answer', async () => {
+      const { classifier, requests } = createClassifier([
+        { ...validAnswer, confidence: 3 },
+        { ...validAnswer, confidence: 3 },
+      ]);
+
+      const result = await classifier.classify(buildContext());
+
+      expect(requests).toHaveLength(2);
+      expect(result.repo).toBe('test-org/inbox');
+      expect(result.labels).toContain('triage-needed');
+    });
+
+    test('should not count API calls when no API key is configured', async () => {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      delete process.env.ANTHROPIC_API_KEY;
+      try {
+        const classifier = new IssueClassifier(mockContext.config);
+
+        const result = await classifier.classify(buildContext());
+
+        expect(result.repo).toBe('test-org/inbox');
+        expect(classifier.getApiCallCount()).toBe(0);
+      } finally {
+        if (apiKey !== undefined) process.env.ANTHROPIC_API_KEY = apiKey;
+      }
+    });
+
+    describe('batches', () => {
+      const buildIssues = () => [1, 2, 3].map(number => ({ ...mockIssue, number, url: `https://github.com/test-org/router/issues/${number}` }));
+      const buildBatchContext = () => ({ ...buildContext(), issues: buildIssues() });
+
+      test('should classify a batch in one call, keyed by issue number', async () => {
+        const { classifier, requests } = createClassifier([{
+          classifications: [
+            { issueNumber: 3, ...validAnswer, repo: 'test-org/backend' },
+            { issueNumber: 1, ...validAnswer },
+            { issueNumber: 2, ...validAnswer, priority: 'low' },
+          ],
+        }]);
+
+        const results = await classifier.classifyBatch(buildBatchContext());
+
+        expect(requests).toHaveLength(1);
+        expect(requests[0]?.messages[0]?.content).toContain('### Issue #3');
+        expect(results.get(1)?.repo).toBe('test-org/ios-app');
+        expect(results.get(2)?.priority).toBe('low');
+        expect(results.get(3)?.repo).toBe('test-org/backend');
+      });
+
+      test('should classify missing and invalid entries one at a time', async () => {
+        const { classifier, requests } = createClassifier([
+          { classifications: [{ issueNumber: 1, ...validAnswer }, { issueNumber: 2, ...validAnswer, confidence: 3 }] },
+          { ...validAnswer, repo: 'test-org/backend' },
+          { ...validAnswer, priority: 'critical' },
+        ]);
+
+        const results = await classifier.classifyBatch(buildBatchContext());
+
+        expect(requests).toHaveLength(3);
+        expect(requests[1]?.messages[0]?.content).toContain('## Issue to Classify');
+        expect(results.get(1)?.repo).toBe('test-org/ios-app');
+        expect(results.get(2)?.repo).toBe('test-org/backend');
+        expect(results.get(3)?.priority).toBe('critical');
+      });
+
+      test('should use the batch results when routing', async () => {
+        const { classifier, requests } = createClassifier([{
+          classifications: [1, 2, 3].map(issueNumber => ({ issueNumber, ...validAnswer, repo: 'test-org/backend' })),
+        }]);
+        const unmatched = buildIssues().map(issue => ({ ...issue, title: 'Something odd', body: 'Unclear report', labels: [] }));
+        router['classifier'] = classifier;
+        router['githubClient'] = {
+          getRepositoryLabels: async () => [],
+          checkForDuplicates: async () => ({ isDuplicate: false, method: 'none', confidence: 0 }),
+          createIssue: async () => ({ success: true, issueUrl: 'https://github.com/test-org/backend/issues/9', issueNumber: 9 }),
+          closeRouterIssue: async () => ({ success: true }),
+        } as any;
+
+        expect(await router.preclassifyBatch(unmatched)).toBe(3);
+        const results = await Promise.all(unmatched.map(issue => router.routeIssue(issue, 'test-org/router')));
+
+        expect(requests).toHaveLength(1);
+        results.forEach(result => expect(result.classification.repo).toBe('test-org/backend'));
+      });
+    });
+  });
+
+  describe('API budget guard', () => {
+    let usageDir: string;
+
+    const createMonitor = (limits: Partial<ReturnType<typeof createDefaultApiUsageConfig>['limits']> = {}) => {
+      const defaults = createDefaultApiUsageConfig(usageDir);
+      return new ApiUsageMonitor({ ...defaults, limits: { ...defaults.limits, ...limits } });
+    };
+
+    const createTransport = (requests: MessagesRequest[]): ClaudeTransport => ({
+      send: async request => {
+        requests.push(request);
+        return {
+          id: `msg_${requests.length}`,
+          model: request.model,
+          text: JSON.stringify({
+            repo: 'test-org/ios-app',
+            title: 'CloudKit sync fails',
+            body: 'Sync stops after login',
+            labels: ['ios'],
+            assignees: [],
+            priority: 'high',
+            confidence: 0.9,
+            reasoning: 'Mentions SwiftUI and CloudKit',
+          }),
+          stopReason: 'end_turn',
+          usage: { inputTokens: 100, outputTokens: 20, cacheReadInputTokens: 30 },
+        };
+      },
+    });
+
+    const createGuardedRouter = (monitor: ApiUsageMonitor, requests: MessagesRequest[]) => {
+      const router = new IssueRouter({ ...mockContext, apiUsageMonitor: monitor });
+      router['classifier']['claude'] = createClaudeIntegration({ model: 'test-model', transport: createTransport(requests) });
+      router['githubClient'] = {
+        getRepositoryLabels: async () => [],
+        checkForDuplicates: async () => ({ isDuplicate: false, method: 'none', reason: 'no-duplicate-found', confidence: 0 }),
+        createIssue: async () => ({ success: true, issueUrl: 'https://github.com/test-org/inbox/issues/3' }),
+        closeRouterIssue: async () => undefined,
+      } as any;
+      return router;
+    };
+
+    beforeEach(() => {
+      usageDir = mkdtempSync(path.join(tmpdir(), 'routing-usage-'));
+    });
+
+    afterEach(() => {
+      rmSync(usageDir, { recursive: true, force: true });
+    });
+
+    test('should record the tokens each classification spent', async () => {
+      const monitor = createMonitor();
+      const requests: MessagesRequest[] = [];
+      const classifier = new IssueClassifier(mockContext.config, undefined, monitor);
+      classifier['claude'] = createClaudeIntegration({ model: 'test-model', transport: createTransport(requests) });
+
+      await classifier.classify({ issue: mockIssue, availableRepos: ['test-org/ios-app'], existingLabels: {} });
+
+      const check = await monitor.checkUsageLimits(0, 0);
+      expect(requests).toHaveLength(1);
+      expect(check.currentUsage.daily.calls.current).toBe(1);
+      expect(check.currentUsage.daily.tokens.current).toBe(150);
+
+      const usage = await monitor.getUsageData();
+      expect(Object.keys(usage.currentPeriod.monthly.repos ?? {})).toEqual(['test-org/ios-app']);
+      expect(Object.keys(usage.currentPeriod.monthly.issues ?? {})).toEqual(['test-org/router#1']);
+    });
+
+    test('should refuse the call when the budget is exhausted', async () => {
+      const monitor = createMonitor({ dailyCallLimit: 1 });
+      const requests: MessagesRequest[] = [];
+      const classifier = new IssueClassifier(mockContext.config, undefined, monitor);
+      classifier['claude'] = createClaudeIntegration({ model: 'test-model', transport: createTransport(requests) });
+
+      await expect(classifier.classify({ issue: mockIssue, availableRepos: ['test-org/ios-app'], existingLabels: {} }))
+        .rejects.toMatchObject({ name: 'BudgetExceededError', estimatedOutputTokens: 4000 });
+      expect(requests).toHaveLength(0);
+    });
+
+    test('should keep the rule decision when over budget', async () => {
+      const requests: MessagesRequest[] = [];
+      const router = createGuardedRouter(createMonitor({ dailyTokenLimit: 1000 }), requests);
 
-      // Mock the GitHub API to return a duplicate
-      const router = new IssueRouter(mockContext);
       const result = await router.routeIssue(mockIssue, 'test-org/router');
 
-      // In dry run mode, it should still process but not create actual issues
-      expect(result.classification).toBeDefined();
-      expect(result.duplicateCheck).toBeDefined();
+      expect(requests).toHaveLength(0);
+      expect(result.classification.repo).toBe('test-org/ios-app');
+      expect(result.budgetGuard).toMatchObject({ action: 'rules-only', reason: expect.stringContaining('Daily token limit') });
     });
 
-    test('should handle content hash duplicate detection', async () => {
-      const router = new IssueRouter(mockContext);
+    test('should route to the default repo when no rule matches and over budget', async () => {
+      const requests: MessagesRequest[] = [];
+      const router = createGuardedRouter(createMonitor({ dailyCostLimit: 0.01 }), requests);
+
+      const result = await router.routeIssue({ ...mockIssue, title: 'Update the docs', body: 'Typo in README', sourceMeta: {} }, 'test-org/router');
+
+      expect(requests).toHaveLength(0);
+      expect(result.classification.repo).toBe('test-org/inbox');
+      expect(result.classification.labels).toContain('triage-needed');
+      expect(result.budgetGuard?.action).toBe('default-routing');
+    });
+
+    test('should leave budgetGuard unset when the LLM ran', async () => {
+      const requests: MessagesRequest[] = [];
+      const router = createGuardedRouter(createMonitor(), requests);
+
       const result = await router.routeIssue(mockIssue, 'test-org/router');
 
-      // Verify that content hash is generated for duplicate detection
-      expect(result.duplicateCheck).toBeDefined();
-      expect(result.duplicateCheck.method).toBeDefined();
+      expect(requests).toHaveLength(1);
+      expect(result.budgetGuard).toBeUndefined();
+    });
+  });
+
+  describe('API usage accounting', () => {
+    let usageDir: string;
+
+    beforeEach(() => {
+      usageDir = mkdtempSync(path.join(tmpdir(), 'routing-usage-'));
+    });
+
+    afterEach(() => {
+      rmSync(usageDir, { recursive: true, force: true });
+    });
+
+    test('should price each model, including cached input', async () => {
+      const monitor = new ApiUsageMonitor(createDefaultApiUsageConfig(usageDir));
+
+      await monitor.recordUsage(1000, 1000, { model: 'claude-3-haiku-20240307', cachedInputTokens: 1000 });
+      await monitor.recordUsage(1000, 1000, { model: 'claude-3-opus-20240229' });
+
+      const check = await monitor.checkUsageLimits(0, 0);
+      expect(check.costByModel.daily['claude-3-haiku-20240307']).toBeCloseTo(0.00025 + 0.00003 + 0.00125);
+      expect(check.costByModel.monthly['claude-3-opus-20240229']).toBeCloseTo(0.09);
+      expect(check.currentUsage.daily.cost.current).toBeCloseTo(0.09153);
+      expect(check.currentUsage.daily.tokens.current).toBe(5000);
+    });
+
+    test('should resolve prices by model id prefix, else the flat costs', () => {
+      const monitor = new ApiUsageMonitor(createDefaultApiUsageConfig(usageDir));
+
+      expect(monitor.getModelPricing('claude-sonnet-4-20250514').cachedInputTokenCost).toBe(0.0003);
+      expect(monitor.getModelPricing('claude-3-5-haiku-latest').inputTokenCost).toBe(0.0008);
+      expect(monitor.getModelPricing('some-other-model').inputTokenCost).toBe(0.003);
+    });
+
+    test('should enforce per-model limits alongside the global ones', async () => {
+      const monitor = new ApiUsageMonitor({
+        ...createDefaultApiUsageConfig(usageDir),
+        modelLimits: { 'claude-3-opus': { dailyCostLimit: 0.1 } },
+      });
+      await monitor.recordUsage(1000, 1000, { model: 'claude-3-opus-20240229' });
+
+      const opus = await monitor.checkUsageLimits(1000, 1000, 'claude-3-opus-20240229');
+      expect(opus.allowed).toBe(false);
+      expect(opus.reason).toContain('Daily cost limit for claude-3-opus-20240229 exceeded');
+      expect(opus.modelUsage.daily.cost?.limit).toBe(0.1);
+      expect(opus.currentUsage.daily.cost.percentage).toBeLessThan(0.01);
+
+      const haiku = await monitor.checkUsageLimits(1000, 1000, 'claude-3-haiku-20240307');
+      expect(haiku.allowed).toBe(true);
+      expect(haiku.modelUsage.daily).toEqual({});
+    });
+  });
+
+  describe('Usage report', () => {
+    const counters = (calls: number, cost: number) => ({ calls, inputTokens: calls * 1000, outputTokens: calls * 100, estimatedCost: cost });
+    const limits = createDefaultApiUsageConfig('/tmp').limits;
+    const data = {
+      version: '1.0',
+      lastUpdated: '2024-03-10T12:00:00Z',
+      currentPeriod: {
+        daily: { date: '2024-03-10', ...counters(4, 2) },
+        monthly: {
+          month: '2024-03',
+          ...counters(20, 10),
+          repos: { 'test-org/ios-app': counters(15, 8), 'test-org/backend': counters(5, 2) },
+          issues: { 'test-org/router#1': counters(1, 0.5), 'test-org/router#2': counters(3, 4) },
+        },
+      },
+      history: [
+        { date: '2024-03-08', ...counters(8, 4), type: 'daily' as const },
+        { date: '2024-02', ...counters(300, 900), type: 'monthly' as const },
+      ],
+    };
+    const now = new Date('2024-03-10T12:00:00Z');
+
+    test('should fill daily rows and compare each with the previous day', () => {
+      const report = buildUsageReport(data, limits, { view: 'daily', periods: 3, now });
+
+      expect(report.rows.map(row => [row.period, row.calls])).toEqual([['2024-03-08', 8], ['2024-03-09', 0], ['2024-03-10', 4]]);
+      expect(report.rows[1]?.costChange).toBe(-1);
+      expect(report.rows[2]?.costChange).toBeNull();
+      expect(report.rows[2]?.inProgress).toBe(true);
+      expect(report.totals.estimatedCost).toBe(6);
+    });
+
+    test('should project month-end spend and rank top spenders', () => {
+      const report = buildUsageReport(data, limits, { view: 'monthly', periods: 2, now, top: 1 });
+
+      expect(report.rows.map(row => row.period)).toEqual(['2024-02', '2024-03']);
+      expect(report.rows[0]?.costPercentage).toBe(0.9);
+      expect(report.projection).toMatchObject({ daysElapsed: 10, daysInMonth: 31, dailyRunRate: 1, projectedCost: 31, projectedCalls: 62 });
+      expect(report.topRepos.map(spender => spender.name)).toEqual(['test-org/ios-app']);
+      expect(report.topIssues.map(spender => spender.name)).toEqual(['test-org/router#2']);
+    });
+
+    test('should render CSV and table output', () => {
+      const report = buildUsageReport(data, limits, { view: 'monthly', periods: 2, now });
+
+      expect(formatUsageReport(report, 'csv').split('\n')).toEqual([
+        'period,calls,input_tokens,output_tokens,cost_usd,calls_pct,tokens_pct,cost_pct,cost_change_pct,in_progress',
+        '2024-02,300,300000,30000,900.0000,15,3.3,90,,false',
+        '2024-03,20,20000,2000,10.0000,1,0.22,1,-98.89,true',
+      ]);
+      const table = formatUsageReport(report, 'table');
+      expect(table).toContain('2024-02');
+      expect(table).toContain('⚠️');
+      expect(table).toContain('test-org/router#2: $4.00 (3 calls)');
+    });
+  });
+
+  describe('Processing history', () => {
+    let historyDir: string;
+
+    const createDetector = () => new DuplicateDetector({
+      ...createDefaultDuplicateConfig(historyDir),
+      skipEditedWithinHours: 0,
+    });
+
+    beforeEach(() => {
+      historyDir = mkdtempSync(path.join(tmpdir(), 'routing-history-'));
+    });
+
+    afterEach(() => {
+      rmSync(historyDir, { recursive: true, force: true });
+    });
+
+    test('should reprocess edits only past the edit threshold', async () => {
+      const detector = createDetector();
+      await detector.initialize();
+      await detector.recordProcessing(mockIssue, storedClassification, 2, 'success');
+
+      const unchanged = await detector.checkDuplicate(mockIssue);
+      expect(unchanged).toMatchObject({ isDuplicate: true, savedApiCalls: 2 });
+
+      const typoFix = await detector.checkDuplicate({ ...mockIssue, body: 'Having trouble with CloudKit sync in SwiftUI!' });
+      expect(typoFix.isDuplicate).toBe(true);
+      expect(typoFix.reason).toBe('minor-edit');
+
+      const rewrite = await detector.checkDuplicate({ ...mockIssue, body: 'Push notifications never arrive on watchOS devices' });
+      expect(rewrite.isDuplicate).toBe(false);
+    });
+
+    test('should skip the LLM for already-processed issues', async () => {
+      const detector = createDetector();
+      const router = new IssueRouter({ ...mockContext, dryRun: false, duplicateDetector: detector });
+      let labelLookups = 0;
+
+      router['githubClient'] = {
+        getRepositoryLabels: async () => { labelLookups++; return []; },
+        checkForDuplicates: async () => ({ isDuplicate: false, method: 'none', confidence: 0 }),
+        createIssue: async () => ({ success: true, issueUrl: 'https://github.com/test-org/ios-app/issues/7' }),
+        closeRouterIssue: async () => undefined,
+      } as any;
+
+      const first = await router.routeIssue(mockIssue, 'test-org/router');
+      expect(first.success).toBe(true);
+      expect(first.savedApiCalls).toBeUndefined();
+      const lookupsAfterFirst = labelLookups;
+
+      const second = await router.routeIssue(mockIssue, 'test-org/router');
+      expect(second.success).toBe(true);
+      expect(second.historyCheck?.isDuplicate).toBe(true);
+      expect(second.savedApiCalls).toBeGreaterThanOrEqual(1);
+      expect(second.classification.repo).toBe(first.classification.repo);
+      expect(labelLookups).toBe(lookupsAfterFirst);
+    });
+
+    test('should reuse only the routing decision and take the text from the edited issue', async () => {
+      const detector = createDetector();
+      await detector.initialize();
+      await detector.recordProcessing(mockIssue, storedClassification, 1, 'success');
+
+      const router = new IssueRouter({ ...mockContext, dryRun: false, duplicateDetector: detector });
+      const created: ClassificationResult[] = [];
+      router['githubClient'] = {
+        checkForDuplicates: async () => ({ isDuplicate: false, method: 'none', confidence: 0 }),
+        createIssue: async (classification: ClassificationResult) => {
+          created.push(classification);
+          return { success: true, issueUrl: 'https://github.com/test-org/ios-app/issues/8' };
+        },
+        closeRouterIssue: async () => undefined,
+      } as any;
+
+      const edited = { ...mockIssue, body: `${mockIssue.body}!` };
+      const result = await router.routeIssue(edited, 'test-org/router');
+
+      expect(result.historyCheck).toMatchObject({ isDuplicate: true, reason: 'minor-edit' });
+      expect(created).toHaveLength(1);
+      expect(created[0]).toMatchObject({
+        repo: storedClassification.repo,
+        priority: storedClassification.priority,
+        labels: storedClassification.labels,
+        title: edited.title,
+        body: edited.body,
+      });
+    });
+
+    test('should reclassify when the stored classification is no longer valid', async () => {
+      const detector = createDetector();
+      await detector.initialize();
+      await detector.recordProcessing(mockIssue, { ...storedClassification, priority: 'urgent' as any }, 1, 'success');
+
+      const result = await detector.checkDuplicate(mockIssue);
+
+      expect(result.isDuplicate).toBe(false);
+    });
+  });
+
+  describe('Storage backends', () => {
+    let storageDir: string;
+
+    beforeEach(() => {
+      storageDir = mkdtempSync(path.join(tmpdir(), 'routing-storage-'));
+    });
+
+    afterEach(() => {
+      rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    const expectNoLostWrites = async (create: () => StorageBackend): Promise<void> => {
+      // Separate instances stand in for separate processes sharing the same store
+      const writers = [create(), create(), create()];
+
+      await Promise.all(Array.from({ length: 30 }, (_, i) =>
+        writers[i % writers.length]!.update<number>('counters', records => {
+          records.total = (records.total ?? 0) + 1;
+          records[`writer-${i}`] = i;
+        })
+      ));
+
+      const records = await writers[0]!.load<number>('counters');
+      expect(records.total).toBe(30);
+      expect(Object.keys(records)).toHaveLength(31);
+      await Promise.all(writers.map(writer => writer.close()));
+    };
+
+    test('should not lose concurrent writes (file)', () =>
+      expectNoLostWrites(() => new FileStorage(storageDir))
+    );
+
+    sqliteTest('should not lose concurrent writes (sqlite)', () =>
+      expectNoLostWrites(() => new SqliteStorage(path.join(storageDir, 'routing.sqlite')))
+    );
+
+    test('should take over a stale lock once while writers race for it', async () => {
+      const lockPath = path.join(storageDir, 'counters.store.json.lock');
+      writeFileSync(lockPath, 'crashed-process');
+      const past = new Date(Date.now() - 60_000);
+      utimesSync(lockPath, past, past);
+
+      await expectNoLostWrites(() => new FileStorage(storageDir, { staleLockMs: 5_000 }));
+      expect(readdirSync(storageDir)).toEqual(['counters.store.json']);
+    });
+
+    test('should leave a fresh lock in place', async () => {
+      const storage = new FileStorage(storageDir, { staleLockMs: 5_000 });
+      const lockPath = path.join(storageDir, 'counters.store.json.lock');
+      writeFileSync(lockPath, 'other-process');
+
+      expect(await storage['removeStaleLock'](lockPath)).toBe(false);
+      expect(readdirSync(storageDir)).toEqual(['counters.store.json.lock']);
+    });
+
+    test('should delete the temp file and release the lock when the write fails', async () => {
+      const storage = new FileStorage(storageDir);
+      const rename = jest.spyOn(fsPromises, 'rename').mockRejectedValueOnce(new Error('disk full'));
+      try {
+        await expect(storage.update<number>('counters', records => { records.total = 1; })).rejects.toThrow('disk full');
+      } finally {
+        rename.mockRestore();
+      }
+
+      expect(readdirSync(storageDir)).toEqual([]);
+      await storage.update<number>('counters', records => { records.total = 2; });
+      expect(await storage.load<number>('counters')).toEqual({ total: 2 });
+    });
+
+    test('should count usage recorded by concurrent monitors', async () => {
+      const config = { ...createDefaultApiUsageConfig(storageDir), storage: { backend: 'file' as const, path: path.join(storageDir, 'store') } };
+      const monitors = [new ApiUsageMonitor(config), new ApiUsageMonitor(config)];
+
+      await Promise.all(Array.from({ length: 10 }, (_, i) => monitors[i % 2]!.recordUsage(100, 50)));
+
+      const check = await monitors[0]!.checkUsageLimits(0, 0);
+      expect(check.currentUsage.daily.calls.current).toBe(10);
+      expect(check.currentUsage.daily.tokens.current).toBe(1500);
+    });
+
+    sqliteTest('should migrate legacy processing history on first load', async () => {
+      const config = createDefaultDuplicateConfig(storageDir);
+      const now = new Date().toISOString();
+      mkdirSync(path.dirname(config.historyFilePath), { recursive: true });
+      writeFileSync(config.historyFilePath, JSON.stringify({
+        version: '1.0',
+        lastCleanup: now,
+        settings: { lookbackDays: 60, editThreshold: 0.1, maxHistoryEntries: 5000 },
+        processedIssues: {
+          'router-1': { issueId: 'router-1', contentHash: 'legacy', processedAt: now, classification: storedClassification, apiCalls: 2, routingResult: 'success', editCount: 0 },
+        },
+      }));
+
+      const detector = new DuplicateDetector({ ...config, storage: { backend: 'sqlite', path: path.join(storageDir, 'routing.sqlite') } });
+      await detector.initialize();
+
+      expect(detector.getStats().totalProcessed).toBe(1);
+      const result = await detector.checkDuplicate(mockIssue);
+      expect(result).toMatchObject({ existingIssue: { classification: { repo: 'test-org/ios-app' } } });
+      await detector.close();
+    });
+
+    test('should fail to initialize when stored history cannot be read', async () => {
+      const storage = { backend: 'file' as const, path: path.join(storageDir, 'store') };
+      mkdirSync(storage.path, { recursive: true });
+      writeFileSync(path.join(storage.path, `${STORAGE_NAMESPACES.processingHistory}.store.json`), '{"records": {');
+
+      const detector = new DuplicateDetector({ ...createDefaultDuplicateConfig(storageDir), storage });
+
+      await expect(detector.initialize()).rejects.toThrow(SyntaxError);
+      await detector.close();
+    });
+
+    test('should accept staleLockMs in the storage config', () => {
+      const config = validateRoutingConfig({
+        defaults: { repo: 'test-org/inbox', labels: [] },
+        rules: [],
+        storage: { backend: 'file', path: 'data/store', lockTimeoutMs: 5000, staleLockMs: 60000 },
+      });
+
+      expect(config.storage).toEqual({ backend: 'file', path: 'data/store', lockTimeoutMs: 5000, staleLockMs: 60000 });
+    });
+  });
+
+  describe('Priority scoring', () => {
+    const typoIssue = (): IssueData => ({
+      ...mockIssue,
+      title: 'Typo in settings screen',
+      body: 'Minor wording enhancement',
+      labels: [],
+    });
+
+    test('should take weights, keyword sets and thresholds from routing.yml', () => {
+      const defaults = new PriorityProcessor(createDefaultPriorityConfig());
+      expect(defaults.analyzePriority(typoIssue()).category).toBe('low');
+
+      const reweighted = resolvePriorityConfig(createTestConfig({
+        priorityProcessing: { scoring: { weights: { urgency: 0, importance: 1, businessImpact: 0 } } },
+      }), process.cwd());
+      expect(reweighted.scoring.thresholds).toEqual(createDefaultPriorityConfig().scoring.thresholds);
+      expect(new PriorityProcessor(reweighted).analyzePriority(typoIssue()).category).toBe('medium');
+
+      const cosmetic = resolvePriorityConfig(createTestConfig({
+        priorityProcessing: { scoring: { keywordSets: { cosmetic: { factor: 'urgency', keywords: { typo: 0.7 } } } } },
+      }), process.cwd());
+      expect(new PriorityProcessor(cosmetic).analyzePriority(typoIssue())).toMatchObject({ category: 'emergency', urgency: 1 });
+    });
+
+    test('should fit scoring to labelled issues and report accuracy before and after', () => {
+      const corpusDir = mkdtempSync(path.join(tmpdir(), 'routing-calibration-'));
+      const corpusPath = path.join(corpusDir, 'priorities.jsonl');
+      const lines = Array.from({ length: 10 }, (_, i) => [
+        { ...typoIssue(), number: i * 2 + 1, slackPermalink: null, expectedPriority: 'low' },
+        { ...mockIssue, number: i * 2 + 2, title: 'Sync is slow', body: 'Performance regression after login', slackPermalink: null, expectedPriority: 'critical' },
+      ]).flat();
+      writeFileSync(corpusPath, lines.map(line => JSON.stringify(line)).join('\n'));
+
+      try {
+        const records = loadPriorityCorpus(corpusPath);
+        expect(records[1]!.expectedPriority).toBe('emergency');
+
+        const result = calibratePriorityScoring(records, createDefaultPriorityConfig());
+        expect(result.before.accuracy).toBe(0.5);
+        expect(result.after.accuracy).toBe(1);
+        expect(result.changes.length).toBeGreaterThan(0);
+        expect(result.after.confusionMatrix.emergency).toEqual({ emergency: 10 });
+      } finally {
+        rmSync(corpusDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Priority queues', () => {
+    let queueDir: string;
+    let config: PriorityConfig;
+
+    const usageAt = (percentage: number) => ({
+      currentUsage: { daily: { calls: { percentage }, tokens: { percentage }, cost: { percentage } } },
+    }) as any;
+
+    const lowIssue = (number: number): IssueData => ({
+      ...mockIssue,
+      number,
+      url: `https://github.com/test-org/router/issues/${number}`,
+      title: `Typo in settings screen ${number}`,
+      body: 'Minor wording enhancement',
+      labels: ['enhancement'],
+    });
+
+    beforeEach(() => {
+      queueDir = mkdtempSync(path.join(tmpdir(), 'routing-queue-'));
+      config = createDefaultPriorityConfig(queueDir);
+      config.batchProcessing.batchWindowMinutes = 0;
+    });
+
+    afterEach(() => {
+      rmSync(queueDir, { recursive: true, force: true });
+    });
+
+    test('should keep queued issues across processor instances', async () => {
+      const first = new PriorityProcessor(config);
+      const priority = { ...first.analyzePriority(lowIssue(1)), processingDecision: 'deferred' as const };
+      await first.queueIssue(lowIssue(1), priority, 'test-org/router');
+
+      const second = new PriorityProcessor(config);
+      const [queued] = await second.inspectQueues();
+      expect(queued).toMatchObject({ id: lowIssue(1).url, queue: 'deferred', attempts: 0, stuck: false });
+      expect(queued!.reason).toContain('Low priority');
+
+      // Re-queueing keeps the original place in line
+      await second.queueIssue(lowIssue(1), priority);
+      const [requeued] = await first.inspectQueues();
+      expect(requeued!.addedAt).toBe(queued!.addedAt);
+    });
+
+    test('should hand out deferred issues once usage allows, one claim at a time', async () => {
+      const processor = new PriorityProcessor(config);
+      await processor.queueIssue(lowIssue(1), { ...processor.analyzePriority(lowIssue(1)), processingDecision: 'blocked' });
+
+      expect(await processor.processDeferredQueue(usageAt(0.9))).toHaveLength(0);
+
+      const [claimed] = await processor.processDeferredQueue(usageAt(0.1));
+      expect(claimed).toMatchObject({ id: lowIssue(1).url });
+      expect(await new PriorityProcessor(config).processDeferredQueue(usageAt(0.1))).toHaveLength(0);
+
+      await processor.completeIssue(claimed!.id);
+      expect(await processor.inspectQueues()).toHaveLength(0);
+    });
+
+    test('should route due batches and report issues that keep failing as stuck', async () => {
+      config.queue.maxAttempts = 1;
+      const processor = new PriorityProcessor(config);
+      await processor.queueIssue(lowIssue(1), { ...processor.analyzePriority(lowIssue(1)), processingDecision: 'batch' });
+      await processor.queueIssue(lowIssue(2), { ...processor.analyzePriority(lowIssue(2)), processingDecision: 'batch' });
+
+      const result = await processor.drain(usageAt(0.1), async candidate => {
+        if (candidate.issue.number === 2) {
+          throw new Error('GitHub API unavailable');
+        }
+      });
+
+      expect(result.routed).toEqual([lowIssue(1).url]);
+      expect(result.failed).toEqual([{ id: lowIssue(2).url, error: 'GitHub API unavailable' }]);
+      expect(result.stuck).toHaveLength(1);
+      expect(result.stuck[0]!.stuckReason).toContain('GitHub API unavailable');
+
+      // Stuck issues are not retried
+      const route = jest.fn(async () => {});
+      expect((await processor.drain(usageAt(0.1), route)).remaining).toBe(1);
+      expect(route).not.toHaveBeenCalled();
+    });
+
+    test('should never claim more than maxIssues across the deferred and batch queues', async () => {
+      const processor = new PriorityProcessor(config);
+      for (const number of [1, 2]) {
+        await processor.queueIssue(lowIssue(number), { ...processor.analyzePriority(lowIssue(number)), processingDecision: 'deferred' });
+      }
+      for (const number of [3, 4, 5]) {
+        await processor.queueIssue(lowIssue(number), { ...processor.analyzePriority(lowIssue(number)), processingDecision: 'batch' });
+      }
+
+      const route = jest.fn(async () => {});
+      const result = await processor.drain(usageAt(0.1), route, { maxIssues: 2 });
+
+      expect(route).toHaveBeenCalledTimes(2);
+      expect(result.routed).toEqual([lowIssue(1).url, lowIssue(2).url]);
+      expect(result.remaining).toBe(3);
+      expect(await processor.getNextBatch(0)).toEqual([]);
+    });
+
+    test('should report issues waiting too long as stuck', async () => {
+      const processor = new PriorityProcessor(config);
+      await processor.queueIssue(lowIssue(1), { ...processor.analyzePriority(lowIssue(1)), processingDecision: 'deferred' });
+
+      const later = new Date(Date.now() + (config.queue.stuckAfterHours + 1) * 60 * 60 * 1000);
+      const [queued] = await processor.inspectQueues(later);
+      expect(queued).toMatchObject({ stuck: true });
+      expect(queued!.stuckReason).toContain('waiting');
+      expect((await processor.getQueueStats()).deferralQueue).toBe(1);
+    });
+  });
+
+  describe('Reverse sync', () => {
+    let syncDir: string;
+    let state: IssueProjectState;
+    let comments: string[];
+    let webhookBodies: string[];
+    let webhookStatus: number;
+
+    const createSync = (webhookUrl?: string): ReverseSync => new ReverseSync(
+      { statusField: 'Status', dir: syncDir, retentionDays: 90, webhookUrl },
+      {
+        github: {
+          commentOnIssue: async (_repo: string, _number: number, body: string) => {
+            comments.push(body);
+            return { success: true };
+          },
+        },
+        projects: { getIssueProjectState: async () => structuredClone(state) },
+        fetch: (async (_url: string, init: { body: string }) => {
+          webhookBodies.push(init.body);
+          return { ok: webhookStatus < 300, status: webhookStatus };
+        }) as any,
+      }
+    );
+
+    const track = (sync: ReverseSync, slackPermalink?: string) => sync.track({
+      id: 'https://github.com/test-org/router/issues/1',
+      sourceRepo: 'test-org/router',
+      sourceNumber: 1,
+      ...(slackPermalink && { slackPermalink }),
+      targetRepo: 'test-org/ios-app',
+      targetNumber: 42,
+      targetUrl: 'https://github.com/test-org/ios-app/issues/42',
+      projectItems: [{ project: 'orgs/test-org/projects/1', projectId: 'project-1', itemId: 'item-1' }],
+      routedAt: new Date().toISOString(),
+    });
+
+    beforeEach(() => {
+      syncDir = mkdtempSync(path.join(tmpdir(), 'routing-sync-'));
+      state = { state: 'open', stateReason: null, items: [{ itemId: 'item-1', projectTitle: 'iOS Board', status: 'Todo' }] };
+      comments = [];
+      webhookBodies = [];
+      webhookStatus = 200;
+    });
+
+    afterEach(() => {
+      rmSync(syncDir, { recursive: true, force: true });
+    });
+
+    test('should announce each status change and the closure exactly once', async () => {
+      const sync = createSync();
+      await track(sync);
+
+      // The first observed status is the baseline
+      expect((await sync.sync()).announced).toHaveLength(0);
+
+      state.items[0]!.status = 'In Progress';
+      const moved = await sync.sync();
+      expect(moved.announced).toEqual([
+        { id: 'https://github.com/test-org/router/issues/1', destination: 'issue', changes: ['Status (iOS Board): Todo → In Progress'] },
+      ]);
+      expect(comments[0]).toContain('Update on test-org/ios-app#42');
+
+      // Re-running with nothing new (or from another instance) announces nothing
+      expect((await createSync().sync()).announced).toHaveLength(0);
+
+      state = { ...state, state: 'closed', stateReason: 'not_planned' };
+      const closed = await sync.sync();
+      expect(closed.announced[0]!.changes).toEqual(['✅ Closed as not planned']);
+      expect(closed.finished).toBe(1);
+
+      expect((await sync.sync()).checked).toBe(0);
+      expect(comments).toHaveLength(2);
+    });
+
+    test('should retry a failed webhook without repeating the issue comment', async () => {
+      const sync = createSync('https://hooks.example.com/T000');
+      await track(sync, 'https://test.slack.com/archives/C123/p1234567890');
+      await sync.sync();
+
+      state.items[0]!.status = 'Done';
+      webhookStatus = 500;
+      const failed = await sync.sync();
+      expect(failed.failed).toEqual([
+        { id: 'https://github.com/test-org/router/issues/1', destination: 'webhook', error: 'Webhook responded 500' },
+      ]);
+
+      webhookStatus = 200;
+      const retried = await sync.sync();
+      expect(retried.announced.map(update => update.destination)).toEqual(['webhook']);
+      expect(comments).toHaveLength(1);
+      expect(webhookBodies).toHaveLength(2);
+      expect(JSON.parse(webhookBodies[1]!).text).toContain('<https://test.slack.com/archives/C123/p1234567890|this thread>');
+      expect(JSON.parse(webhookBodies[1]!).text).toContain('Status (iOS Board): Todo → Done');
+    });
+
+    test('should track routed issues with their project items', async () => {
+      const config = createTestConfig({
+        ...mockContext.config,
+        reverseSync: { enabled: true, statusField: 'Status', dir: syncDir, webhookUrlEnv: 'UNSET_WEBHOOK_URL', retentionDays: 90 },
+      });
+      const trackingRouter = new IssueRouter({ ...mockContext, config, dryRun: false });
+      const logs: string[] = [];
+
+      await trackingRouter['trackRoutedItem'](
+        mockIssue,
+        'test-org/router',
+        { repo: 'test-org/ios-app', title: 't', body: '', labels: [], assignees: [], priority: 'high', confidence: 0.9, reasoning: '' },
+        {
+          success: true,
+          issueNumber: 42,
+          issueUrl: 'https://github.com/test-org/ios-app/issues/42',
+          projectItems: [{ project: 'orgs/test-org/projects/1', projectId: 'project-1', itemId: 'item-1' }],
+        },
+        logs
+      );
+
+      const [item] = await createSync().listItems();
+      expect(item).toMatchObject({
+        id: mockIssue.url,
+        sourceRepo: 'test-org/router',
+        targetNumber: 42,
+        projectItems: [{ itemId: 'item-1' }],
+        announced: {},
+      });
+      expect(logs.some(line => line.includes('Tracked for reverse sync'))).toBe(true);
+    });
+  });
+
+  describe('Similarity detection', () => {
+    const reworded = { id: 'dup', title: 'App crashes at login (iOS17)', body: '' };
+    const unrelated = [
+      { id: 'push', title: 'Android push notifications delayed', body: 'FCM messages arrive late' },
+      { id: 'dark', title: 'Add dark mode', body: '' },
+    ];
+
+    test.each(['minhash', 'tfidf'] as const)('should rank reworded reports first (%s)', algorithm => {
+      const matches = rankBySimilarity(
+        { id: 'query', title: 'Login crashes on iOS 17', body: '' },
+        [...unrelated, reworded],
+        { algorithm, maxCandidates: 2 }
+      );
+
+      expect(matches[0]?.id).toBe('dup');
+      expect(matches[0]?.score).toBeGreaterThan(0.5);
+      expect(matches.length).toBeLessThanOrEqual(2);
+    });
+
+    test('should report similar issues in the target repo with scores', async () => {
+      const config = {
+        ...mockContext.config,
+        duplicateDetection: { enabled: true, method: 'similarity' as const, lookbackDays: 30, editThreshold: 0.1, skipEditedWithinHours: 24, maxHistoryEntries: 5000, onDuplicate: 'comment' as const },
+      };
+      const client = new GitHubApiClient('test-token', config);
+      client['octokit'] = {
+        rest: {
+          issues: {
+            listForRepo: async () => ({
+              data: [
+                { number: 12, title: 'Add dark mode', body: '', html_url: 'https://github.com/test-org/ios-app/issues/12' },
+                { number: 11, title: 'App crashes at login (iOS17)', body: 'Crash on launch after login', html_url: 'https://github.com/test-org/ios-app/issues/11' },
+                { number: 10, title: 'Login crash fix', body: '', html_url: 'https://github.com/test-org/ios-app/pull/10', pull_request: {} },
+              ],
+            }),
+          },
+        },
+      } as any;
+
+      const result = await client.checkForDuplicates(
+        { ...mockIssue, title: 'Login crashes on iOS 17', body: 'The app crashes right after login' },
+        'test-org/ios-app'
+      );
+
+      if (!result.isDuplicate || result.method !== 'similarity') {
+        throw new Error(`expected a similarity match, got ${result.method}`);
+      }
+      expect(result.existingIssue.number).toBe(11);
+      expect(result.candidates.map(candidate => candidate.id)).not.toContain('10');
+      expect(result.candidates[0]?.score).toBe(result.confidence);
+    });
+
+    test('should report reworded issues in processing history as a signal, not a history hit', async () => {
+      const historyDir = mkdtempSync(path.join(tmpdir(), 'routing-similarity-'));
+      try {
+        const detector = new DuplicateDetector({
+          ...createDefaultDuplicateConfig(historyDir),
+          similarity: { algorithm: 'tfidf', threshold: 0.5, maxCandidates: 3 },
+        });
+        await detector.recordProcessing({ ...mockIssue, number: 5, title: 'App crashes at login (iOS17)', body: '' }, storedClassification, 1, 'success');
+        const reworded = { ...mockIssue, number: 6, title: 'Login crashes on iOS 17', body: '' };
+
+        const result = await detector.checkDuplicate(reworded);
+        if (result.isDuplicate) {
+          throw new Error(`expected a similarity signal, got a history hit (${result.reason})`);
+        }
+        expect(result).toMatchObject({ method: 'history', reason: 'similar-content' });
+        expect(result.candidates?.[0]?.id).toBe('router-5');
+
+        const router = new IssueRouter({ ...mockContext, dryRun: false, duplicateDetector: detector });
+        const created: ClassificationResult[] = [];
+        router['githubClient'] = {
+          getRepositoryLabels: async () => [],
+          checkForDuplicates: async () => ({ isDuplicate: false, method: 'none', confidence: 0 }),
+          createIssue: async (classification: ClassificationResult) => {
+            created.push(classification);
+            return { success: true, issueUrl: 'https://github.com/test-org/ios-app/issues/9' };
+          },
+          closeRouterIssue: async () => undefined,
+        } as any;
+
+        const routed = await router.routeIssue(reworded, 'test-org/router');
+        expect(routed.historyCheck?.isDuplicate).toBe(false);
+        expect(routed.savedApiCalls).toBeUndefined();
+        expect(created[0]).toMatchObject({ title: reworded.title, body: reworded.body });
+        expect(created[0]?.title).not.toBe(storedClassification.title);
+      } finally {
+        rmSync(historyDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Duplicate policies', () => {
+    const classification = {
+      repo: 'test-org/ios-app', title: 'Login crash', body: '', labels: ['ios', 'bug'], assignees: [],
+      priority: 'high' as const, confidence: 0.9, reasoning: '',
+    };
+
+    const createClient = (existing: { state: string; body: string; labels: string[] }) => {
+      const calls: Array<{ method: string; params: any }> = [];
+      const record = (method: string, data: unknown = {}) => async (params: any) => {
+        calls.push({ method, params });
+        return { data };
+      };
+
+      const client = new GitHubApiClient('test-token', mockContext.config);
+      client['octokit'] = {
+        rest: {
+          issues: {
+            get: record('get', {
+              html_url: 'https://github.com/test-org/ios-app/issues/11',
+              state: existing.state,
+              body: existing.body,
+              labels: existing.labels.map(name => ({ name })),
+            }),
+            createComment: record('createComment', { id: 99 }),
+            addLabels: record('addLabels'),
+            update: record('update', { html_url: 'https://github.com/test-org/ios-app/issues/11' }),
+          },
+        },
+        request: record('request'),
+      } as any;
+      return { client, calls };
+    };
+
+    test('should reopen a closed existing issue', async () => {
+      const { client, calls } = createClient({ state: 'closed', body: '', labels: ['ios'] });
+
+      const result = await client.applyDuplicatePolicy('reopen', 'test-org/ios-app', 11, classification, mockIssue, 'test-org/router');
+
+      expect(result.success).toBe(true);
+      expect(result.details).toMatchObject({ policy: 'reopen', reopened: true, commentId: 99, labelsAdded: 1 });
+      expect(calls.find(call => call.method === 'update')?.params).toMatchObject({ issue_number: 11, state: 'open' });
+    });
+
+    test('should link and close the source issue', async () => {
+      const { client, calls } = createClient({ state: 'open', body: '', labels: ['ios', 'bug'] });
+
+      const result = await client.applyDuplicatePolicy('close-as-duplicate', 'test-org/ios-app', 11, classification, mockIssue, 'test-org/router');
+
+      expect(result.details).toMatchObject({ policy: 'close-as-duplicate', sourceClosed: true, sourceIssue: 'test-org/router#1' });
+      expect(calls.find(call => call.method === 'createComment')?.params).toMatchObject({ repo: 'router', issue_number: 1 });
+      expect(calls.find(call => call.method === 'createComment')?.params.body).toContain('Duplicate of test-org/ios-app#11');
+      expect(calls.find(call => call.method === 'request')?.params).toMatchObject({
+        method: 'PATCH', repo: 'router', issue_number: 1, state: 'closed', state_reason: 'duplicate',
+      });
+    });
+
+    test('should send state_reason duplicate in the close request', async () => {
+      const requests: Array<{ method: string; url: string; body: unknown }> = [];
+      const fetch = async (url: string, init: { method: string; body?: string }) => {
+        requests.push({ method: init.method, url, body: init.body ? JSON.parse(init.body) : undefined });
+        const data = { html_url: 'https://github.com/test-org/ios-app/issues/11', state: 'open', body: '', labels: [] };
+        return new Response(JSON.stringify(data), { status: 200, headers: { 'content-type': 'application/json' } });
+      };
+
+      const client = new GitHubApiClient('test-token', mockContext.config);
+      client['octokit'] = new Octokit({ auth: 'test-token', request: { fetch } });
+
+      const result = await client.applyDuplicatePolicy('close-as-duplicate', 'test-org/ios-app', 11, classification, mockIssue, 'test-org/router');
+
+      expect(result.success).toBe(true);
+      expect(requests.at(-1)).toEqual({
+        method: 'PATCH',
+        url: 'https://api.github.com/repos/test-org/router/issues/1',
+        body: { state: 'closed', state_reason: 'duplicate' },
+      });
+    });
+
+    test('should keep the source issue\'s existing labels when closing it', async () => {
+      const { client, calls } = createClient({ state: 'open', body: '', labels: ['ios', 'bug'] });
+
+      await client.applyDuplicatePolicy('close-as-duplicate', 'test-org/ios-app', 11, classification, mockIssue, 'test-org/router');
+
+      const sourceCalls = calls.filter(call => call.params.repo === 'router');
+      expect(sourceCalls.find(call => call.method === 'addLabels')?.params).toEqual({
+        owner: 'test-org', repo: 'router', issue_number: 1, labels: ['duplicate', 'automated'],
+      });
+      expect(sourceCalls.filter(call => call.method === 'update').every(call => !('labels' in call.params))).toBe(true);
+    });
+
+    test('should merge reporters into the existing body once', async () => {
+      const body = 'Crash details\n\n<!-- routing:reporters -->\n**Also reported by:**\n- @alice (https://github.com/test-org/router/issues/0) on 2024-01-01\n<!-- /routing:reporters -->';
+      const { client, calls } = createClient({ state: 'open', body, labels: ['ios', 'bug'] });
+
+      const result = await client.applyDuplicatePolicy('merge-reporters', 'test-org/ios-app', 11, classification, mockIssue, 'test-org/router');
+
+      expect(result.details).toMatchObject({ policy: 'merge-reporters', reporters: ['alice', 'test-user'], reporterAdded: true });
+      const updatedBody: string = calls.find(call => call.method === 'update')?.params.body;
+      expect(updatedBody.match(/<!-- routing:reporters -->/g)).toHaveLength(1);
+      expect(updatedBody).toContain(`- @test-user (${mockIssue.url})`);
+      expect(calls.some(call => call.method === 'createComment')).toBe(false);
+    });
+
+    test('should pick the per-repo policy and skip closing an already-closed router issue', async () => {
+      const config = validateRoutingConfig({
+        ...mockContext.config,
+        duplicateDetection: { onDuplicate: { default: 'comment', repos: { 'test-org/ios-app': 'close-as-duplicate' } } },
+      });
+      const router = new IssueRouter({ ...mockContext, config, dryRun: false });
+      let policy: string | undefined;
+      let routerIssueClosed = false;
+
+      router['githubClient'] = {
+        getRepositoryLabels: async () => [],
+        checkForDuplicates: async () => ({ isDuplicate: true, existingIssue: { repo: 'test-org/ios-app', number: 11, url: '#11' } }),
+        applyDuplicatePolicy: async (selected: string) => {
+          policy = selected;
+          return { success: true, issueUrl: '#11', details: { policy: selected, sourceClosed: true } };
+        },
+        closeRouterIssue: async () => { routerIssueClosed = true; },
+      } as any;
+
+      const result = await router.routeIssue(mockIssue, 'test-org/router');
+
+      expect(policy).toBe('close-as-duplicate');
+      expect(result.githubOperation.details?.policy).toBe('close-as-duplicate');
+      expect(routerIssueClosed).toBe(false);
+      expect(router['resolveDuplicatePolicy']('test-org/backend')).toBe('comment');
+    });
+  });
+
+  describe('Duplicate check results', () => {
+    const searchHit = { total_count: 1, items: [{ number: 42, html_url: 'https://github.com/test-org/ios-app/issues/42' }] };
+    const searchMiss = { total_count: 0, items: [] };
+
+    const createClient = (method: string, search: (query: string) => unknown) => {
+      const client = new GitHubApiClient('test-token', validateRoutingConfig({
+        ...mockContext.config,
+        duplicateDetection: { method },
+      }));
+      client['octokit'] = {
+        rest: {
+          search: { issuesAndPullRequests: async ({ q }: { q: string }) => ({ data: search(q) }) },
+          issues: { listForRepo: async () => ({ data: [] }) },
+        },
+      } as any;
+      return client;
+    };
+
+    test('should return a permalink match with the target issue', async () => {
+      const client = createClient('slack-permalink', () => searchHit);
+      const result = await client.checkForDuplicates({ ...mockIssue, slackPermalink: 'https://test.slack.com/archives/C1/p1' }, 'test-org/ios-app');
+
+      expect(result).toEqual({
+        isDuplicate: true,
+        method: 'slack-permalink',
+        reason: 'slack-permalink-match',
+        confidence: 0.95,
+        existingIssue: { repo: 'test-org/ios-app', number: 42, url: searchHit.items[0]!.html_url },
+      });
+    });
+
+    test('should return a content hash match with the target issue', async () => {
+      const client = createClient('content-hash', () => searchHit);
+      const result = await client.checkForDuplicates(mockIssue, 'test-org/ios-app');
+
+      expect(result).toMatchObject({ isDuplicate: true, method: 'content-hash', reason: 'content-hash-match', existingIssue: { number: 42 } });
+    });
+
+    test('should report no duplicate when every check misses', async () => {
+      const client = createClient('all', () => searchMiss);
+      const result = await client.checkForDuplicates({ ...mockIssue, slackPermalink: 'https://test.slack.com/archives/C1/p1' }, 'test-org/ios-app');
+
+      expect(result).toEqual({ isDuplicate: false, method: 'none', reason: 'no-duplicate-found', confidence: 0 });
+    });
+
+    test('should report a failed check as not duplicate', async () => {
+      const client = createClient('content-hash', () => { throw new Error('rate limited'); });
+      const result = await client.checkForDuplicates(mockIssue, 'test-org/ios-app');
+
+      expect(result).toMatchObject({ isDuplicate: false, method: 'content-hash', reason: 'content-hash-search-failed' });
+    });
+
+    test('should report a failed search even when similarity finds near misses', async () => {
+      const client = createClient('all', () => { throw new Error('rate limited'); });
+      client['octokit'].rest.issues.listForRepo = (async () => ({
+        data: [{ number: 7, title: 'SwiftUI preview crashes on launch', body: 'Xcode closes when the canvas opens', html_url: 'https://github.com/test-org/ios-app/issues/7' }],
+      })) as any;
+
+      const result = await client.checkForDuplicates({ ...mockIssue, slackPermalink: 'https://test.slack.com/archives/C1/p1' }, 'test-org/ios-app');
+
+      expect(result).toMatchObject({ isDuplicate: false, method: 'slack-permalink', reason: 'slack-permalink-search-failed' });
+      expect(result.isDuplicate === false && result.candidates?.map(candidate => candidate.id)).toEqual(['7']);
+    });
+
+    test('should hand GitHub matches to the duplicate policy', async () => {
+      const router = new IssueRouter(mockContext);
+      let received: unknown[] = [];
+      router['githubClient'] = {
+        applyDuplicatePolicy: async (...args: unknown[]) => { received = args; return { success: true }; },
+      } as any;
+
+      await router['handleDuplicateIssue'](
+        { isDuplicate: true, method: 'content-hash', reason: 'content-hash-match', confidence: 0.85, existingIssue: { repo: 'test-org/ios-app', number: 42, url: '#42' } },
+        router['createFallbackClassification'](mockIssue),
+        mockIssue,
+        'test-org/router'
+      );
+
+      expect(received.slice(0, 3)).toEqual(['comment', 'test-org/ios-app', 42]);
+    });
+
+    describe('processing history', () => {
+      let historyDir: string;
+      let detector: DuplicateDetector;
+
+      beforeEach(async () => {
+        historyDir = mkdtempSync(path.join(tmpdir(), 'routing-results-'));
+        detector = new DuplicateDetector({ ...createDefaultDuplicateConfig(historyDir), skipEditedWithinHours: 0 });
+        await detector.recordProcessing(
+          { ...mockIssue, slackPermalink: 'https://test.slack.com/archives/C1/p1' },
+          storedClassification,
+          3,
+          'success'
+        );
+      });
+
+      afterEach(() => {
+        rmSync(historyDir, { recursive: true, force: true });
+      });
+
+      test.each([
+        ['exact-content-match', () => ({ ...mockIssue, number: 2 })],
+        ['minor-edit', () => ({ ...mockIssue, body: `${mockIssue.body}.` })],
+        ['slack-permalink-match', () => ({ ...mockIssue, number: 3, title: 'Other', body: 'Different', slackPermalink: 'https://test.slack.com/archives/C1/p1' })],
+      ])('should return a history match (%s)', async (reason, build) => {
+        const result = await detector.checkDuplicate(build());
+
+        expect(result).toMatchObject({
+          isDuplicate: true,
+          method: 'history',
+          reason,
+          savedApiCalls: 3,
+          existingIssue: { id: 'router-1', classification: storedClassification },
+        });
+      });
+
+      test('should carry edit details when an edit needs reprocessing', async () => {
+        const result = await detector.checkDuplicate({ ...mockIssue, body: 'Push notifications never arrive on watchOS devices' });
+
+        expect(result).toMatchObject({ isDuplicate: false, method: 'history', reason: 'significant-edit', editDetails: { requiresReprocessing: true } });
+      });
+    });
+  });
+
+  describe('Project fields', () => {
+    const now = new Date('2026-10-20T12:00:00Z');
+    const sprintField: ProjectField = {
+      id: 'field-sprint',
+      name: 'Sprint',
+      dataType: 'ITERATION',
+      iterations: [
+        { id: 'iter-2', title: 'Sprint 2', startDate: '2026-10-19', duration: 14 },
+        { id: 'iter-1', title: 'Sprint 1', startDate: '2026-10-05', duration: 14 },
+        { id: 'iter-3', title: 'Sprint 3', startDate: '2026-11-02', duration: 14 },
+      ],
+    };
+
+    test('should resolve @current, @next and iteration titles', () => {
+      expect(resolveIteration(sprintField, '@current', now)?.id).toBe('iter-2');
+      expect(resolveIteration(sprintField, '@next', now)?.id).toBe('iter-3');
+      expect(resolveIteration(sprintField, 'sprint 1', now)?.id).toBe('iter-1');
+      expect(resolveIteration(sprintField, 'Sprint 9', now)).toBeNull();
+    });
+
+    test('should resolve relative dates at routing time', () => {
+      expect(resolveDateValue('+3d', [], now)).toBe('2026-10-23');
+      expect(resolveDateValue('+2w', [], now)).toBe('2026-11-03');
+      expect(resolveDateValue('today', [], now)).toBe('2026-10-20');
+      expect(resolveDateValue('2026-12-01', [], now)).toBe('2026-12-01');
+      expect(resolveDateValue('end-of-sprint', [sprintField], now)).toBe('2026-11-01');
+      expect(resolveDateValue('end-of-sprint', [], now)).toBeNull();
+      expect(resolveDateValue('soon', [], now)).toBeNull();
+    });
+
+    test('should set iteration fields by iteration ID', async () => {
+      const client = new ProjectsApiClient('test-token');
+      const calls: Array<Record<string, unknown>> = [];
+      client['graphqlWithAuth'] = (async (query: string, variables: Record<string, unknown>) => {
+        calls.push(variables);
+        if (query.includes('node(id: $projectId)')) {
+          return {
+            node: {
+              id: 'project-1', number: 1, title: 'Board', url: 'https://github.com/orgs/test-org/projects/1',
+              fields: {
+                nodes: [{
+                  id: sprintField.id,
+                  name: sprintField.name,
+                  dataType: 'ITERATION',
+                  configuration: { iterations: [{ id: 'iter-now', title: 'Now', startDate: new Date().toISOString().split('T')[0], duration: 7 }] },
+                }],
+              },
+            },
+          };
+        }
+        return { updateProjectV2ItemFieldValue: { projectV2Item: { id: 'item-1' } } };
+      }) as any;
+
+      await client.setProjectFields('project-1', 'item-1', { Sprint: '@current' });
+
+      expect(calls[1]).toMatchObject({ field0Id: 'field-sprint', field0Value: 'iter-now' });
+    });
+
+    describe('updates', () => {
+      const projectNode = {
+        id: 'project-1', number: 1, title: 'Board', url: 'https://github.com/orgs/test-org/projects/1',
+        fields: {
+          nodes: [
+            { id: 'field-status', name: 'Status', dataType: 'SINGLE_SELECT', options: [{ id: 'opt-todo', name: 'Todo' }] },
+            { id: 'field-team', name: 'Team', dataType: 'TEXT' },
+            { id: 'field-points', name: 'Points', dataType: 'NUMBER' },
+          ],
+        },
+      };
+
+      test('should set every field in one aliased mutation and report failures per field', async () => {
+        const client = new ProjectsApiClient('test-token');
+        const mutations: Array<{ query: string; variables: Record<string, unknown> }> = [];
+        client['graphqlWithAuth'] = (async (query: string, variables: Record<string, unknown>) => {
+          if (query.includes('node(id: $projectId)')) {
+            return { node: projectNode };
+          }
+          mutations.push({ query, variables });
+          throw new GraphqlResponseError({ method: 'POST', url: '/graphql' } as any, {}, {
+            data: { field0: { projectV2Item: { id: 'item-1' } }, field1: null, field2: { projectV2Item: { id: 'item-1' } } },
+            errors: [{ type: 'INVALID', message: 'Text too long', path: ['field1'], extensions: {}, locations: [] }],
+          } as any);
+        }) as any;
+
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        try {
+          const result = await client.setProjectFields('project-1', 'item-1', {
+            Status: 'Todo',
+            Team: 'x'.repeat(2000),
+            Points: 3,
+            Stage: 'Done',
+            Size: 'XL',
+          });
+
+          expect(mutations).toHaveLength(1);
+          expect(mutations[0]!.query.match(/updateProjectV2ItemFieldValue/g)).toHaveLength(3);
+          expect(mutations[0]!.variables).toMatchObject({ field0Value: 'opt-todo', field2Id: 'field-points', field2Value: 3 });
+          expect(result.updated).toEqual(['Status', 'Points']);
+          expect(result.failed).toEqual([
+            { field: 'Stage', error: "Field 'Stage' not found in project" },
+            { field: 'Size', error: "Field 'Size' not found in project" },
+            { field: 'Team', error: 'Text too long' },
+          ]);
+        } finally {
+          warn.mockRestore();
+        }
+      });
+
+      test('should reuse project metadata until the cache expires', async () => {
+        let lookups = 0;
+        const graphqlStub = (async (query: string) => {
+          if (query.includes('organization(login: $owner)')) {
+            lookups++;
+            return { organization: { projectV2: projectNode } };
+          }
+          if (query.includes('node(id: $projectId)')) {
+            lookups++;
+            return { node: projectNode };
+          }
+          return {};
+        }) as any;
+
+        const cached = new ProjectsApiClient('test-token');
+        cached['graphqlWithAuth'] = graphqlStub;
+        await cached.getProject('test-org', 1);
+        await cached.getProject('test-org', 1);
+        await cached.setProjectFields('project-1', 'item-1', { Team: 'Mobile' });
+        expect(lookups).toBe(1);
+
+        cached.clearProjectCache();
+        await cached.getProject('test-org', 1);
+        expect(lookups).toBe(2);
+
+        const uncached = new ProjectsApiClient('test-token', { cacheTtlMs: 0 });
+        uncached['graphqlWithAuth'] = graphqlStub;
+        await uncached.getProject('test-org', 1);
+        await uncached.setProjectFields('project-1', 'item-1', { Team: 'Mobile' });
+        expect(lookups).toBe(4);
+      });
+    });
+
+    describe('mappings', () => {
+      const project: ProjectInfo = {
+        id: 'project-1',
+        number: 1,
+        title: 'Board',
+        url: 'https://github.com/orgs/test-org/projects/1',
+        fields: [
+          sprintField,
+          { id: 'field-due', name: 'Due', dataType: 'DATE' },
+          {
+            id: 'field-urgency',
+            name: 'Urgency',
+            dataType: 'SINGLE_SELECT',
+            options: [{ id: 'opt-p0', name: 'P0' }, { id: 'opt-p1', name: 'P1' }, { id: 'opt-p2', name: 'P2' }],
+          },
+          { id: 'field-team', name: 'Team', dataType: 'TEXT' },
+        ],
+      };
+
+      const classify = (overrides: Partial<ClassificationResult> = {}): ClassificationResult => ({
+        repo: 'test-org/ios-app',
+        title: 'Crash on launch',
+        body: '',
+        labels: ['bug'],
+        assignees: [],
+        priority: 'critical',
+        confidence: 0.9,
+        reasoning: '',
+        ...overrides,
+      });
+
+      test('should keep the built-in mappings by default', () => {
+        expect(ProjectsApiClient.createDefaultProjectFields(classify({ labels: ['feature', 'bug'] }))).toEqual({
+          Priority: 'Critical',
+          Status: 'Todo',
+          Iteration: '@current',
+          Type: 'Bug',
+          Size: 'Medium',
+        });
+      });
+
+      test('should apply matching mappings in order, then explicit projectFields', () => {
+        const mappings: ProjectFieldMapping[] = [
+          { when: { priority: ['critical', 'high'] }, set: { Urgency: 'P0', Sprint: '@current' } },
+          { when: { priority: ['critical'], labels: ['security'] }, set: { Urgency: 'P1' } },
+          { when: { repo: ['test-org/ios-app'] }, set: { Team: 'Mobile' } },
+          { when: { rule: ['iOS'] }, set: { Due: '+3d' } },
+          { when: {}, set: { Team: 'Everyone' } },
+        ];
+
+        const fields = ProjectsApiClient.createDefaultProjectFields(
+          classify({ projectFields: { Urgency: 'P2' } }),
+          mappings,
+          'iOS'
+        );
+        expect(fields).toEqual({ Urgency: 'P2', Sprint: '@current', Team: 'Everyone', Due: '+3d' });
+        expect(ProjectsApiClient.createDefaultProjectFields(classify({ priority: 'low' }), mappings)).toEqual({ Team: 'Everyone' });
+      });
+
+      test('should report unknown fields, options, iterations and rules as config errors', () => {
+        const config = createTestConfig({
+          defaults: {
+            repo: 'test-org/inbox',
+            labels: [],
+            project: {
+              org: 'test-org',
+              number: 1,
+              fieldMappings: [
+                { when: { priority: ['critical'] }, set: { Urgency: 'P0', Sprint: '@next', Due: 'end-of-sprint' } },
+                { when: { rule: ['Android'] }, set: { Urgency: 'Urgent', Status: 'Todo' } },
+              ],
+            },
+          },
+          rules: [{
+            name: 'iOS',
+            when: { keywords: ['ios'] },
+            route: { repo: 'test-org/ios-app', projectFields: { Sprint: 'Sprint 9', Due: 'soon', Team: 'Mobile' } },
+          }],
+        });
+
+        const projects = new Map([['orgs/test-org/projects/1', project]]);
+
+        expect(validateProjectFieldConfig(config, projects, now)).toEqual([
+          "defaults.project.fieldMappings[1].when.rule: no rule is named 'Android'",
+          "defaults.project.fieldMappings[1].set.Urgency: unknown option 'Urgent' (options: P0, P1, P2)",
+          'defaults.project.fieldMappings[1].set.Status: unknown field (project fields: Sprint, Due, Urgency, Team)',
+          "rules[0].route.projectFields.Sprint: unknown iteration 'Sprint 9' (orgs/test-org/projects/1)",
+          "rules[0].route.projectFields.Due: cannot resolve date 'soon' (orgs/test-org/projects/1)",
+        ]);
+      });
+
+      test('should not add items to the project while its configuration is invalid', async () => {
+        const config = createTestConfig({
+          defaults: {
+            repo: 'test-org/inbox',
+            labels: [],
+            project: { org: 'test-org', number: 1, fieldMappings: [{ when: {}, set: { Status: 'Todo' } }] },
+          },
+        });
+        const projectRouter = new IssueRouter({ ...mockContext, config });
+        const addIssueToProject = jest.fn();
+        projectRouter['projectsClient'].getProject = async () => project;
+        projectRouter['projectsClient'].addIssueToProject = addIssueToProject;
+
+        const check = await projectRouter.checkProjectConfig();
+        expect(check.valid).toBe(false);
+        expect(check.errors[0]).toContain('Status: unknown field');
+
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        try {
+          await projectRouter['addToProject'](classify(), { success: true, issueNumber: 5 }, mockIssue);
+          expect(addIssueToProject).not.toHaveBeenCalled();
+          expect(warn).toHaveBeenCalledWith('Failed to add to project:', expect.any(ProjectConfigError));
+        } finally {
+          warn.mockRestore();
+        }
+      });
+    });
+
+    describe('targets', () => {
+      const iosRule = {
+        name: 'iOS',
+        when: { keywords: ['ios'] },
+        route: {
+          repo: 'test-org/ios-app',
+          project: [{ org: 'test-org', number: 2 }, { user: 'mobile-lead', number: 3 }, { org: 'test-org', number: 2 }],
+        },
+      };
+      const config = createTestConfig({
+        defaults: { repo: 'test-org/inbox', labels: [], project: { org: 'test-org', number: 1 } },
+        rules: [iosRule, { when: { keywords: ['api'] }, route: { repo: 'test-org/backend' } }],
+        projectsByRepo: { 'test-org/backend': { org: 'test-org', number: 4 } },
+      });
+      const keys = (refs: Parameters<typeof projectKey>[0][]): string[] => refs.map(projectKey);
+
+      test('should prefer the rule, then the repo map, then the default project', () => {
+        expect(keys(resolveProjectTargets(config, 'test-org/ios-app', iosRule))).toEqual([
+          'orgs/test-org/projects/2',
+          'users/mobile-lead/projects/3',
+        ]);
+        expect(keys(resolveProjectTargets(config, 'test-org/backend'))).toEqual(['orgs/test-org/projects/4']);
+        expect(keys(resolveProjectTargets(config, 'test-org/web'))).toEqual(['orgs/test-org/projects/1']);
+      });
+
+      test('should require exactly one project owner', () => {
+        const invalid = { ...config, defaults: { ...config.defaults, project: { org: 'a', user: 'b', number: 1 } } };
+        expect(() => validateRoutingConfig(invalid)).toThrow("exactly one of 'org' or 'user'");
+      });
+
+      test('should look up user-owned projects through the user', async () => {
+        const client = new ProjectsApiClient('test-token');
+        const queries: string[] = [];
+        client['graphqlWithAuth'] = (async (query: string) => {
+          queries.push(query);
+          return { user: { projectV2: { id: 'user-project', number: 3, title: 'Mine', url: 'u', fields: { nodes: [] } } } };
+        }) as any;
+
+        const project = await client.getProject('mobile-lead', 3, 'user');
+
+        expect(project?.id).toBe('user-project');
+        expect(queries[0]).toContain('user(login: $owner)');
+      });
+
+      test('should add the item to every target project and record each item', async () => {
+        const projectRouter = new IssueRouter({ ...mockContext, config });
+        const added: string[] = [];
+        Object.assign(projectRouter['projectsClient'], {
+          getProject: async (owner: string, number: number) =>
+            ({ id: `${owner}-${number}`, number, title: owner, url: '', fields: [] }),
+          getIssueNodeId: async () => 'issue-node',
+          findProjectItem: async (projectId: string) => (projectId === 'mobile-lead-3' ? 'existing-item' : null),
+          addIssueToProject: async (projectId: string) => {
+            added.push(projectId);
+            return { success: true, projectItemId: `item-${projectId}` };
+          },
+        });
+
+        const items = await projectRouter['addToProject'](
+          { repo: 'test-org/ios-app', title: 't', body: '', labels: [], assignees: [], priority: 'high', confidence: 0.9, reasoning: '' },
+          { success: true, issueNumber: 7 },
+          mockIssue,
+          iosRule
+        );
+
+        expect(added).toEqual(['test-org-2']);
+        expect(items).toEqual([
+          { project: 'orgs/test-org/projects/2', projectId: 'test-org-2', itemId: 'item-test-org-2' },
+          { project: 'users/mobile-lead/projects/3', projectId: 'mobile-lead-3', itemId: 'existing-item' },
+        ]);
+      });
+    });
+  });
+
+  describe('Duplicate detection', () => {
+    test('should detect duplicate by Slack permalink', async () => {
+      mockIssue.slackPermalink = 'https://test.slack.com/archives/C123/p1234567890';
+      mockContext.issue = mockIssue;
+
+      // Mock the GitHub API to return a duplicate
+      const router = new IssueRouter(mockContext);
+      const result = await router.routeIssue(mockIssue, 'test-org/router');
+
+      // In dry run mode, it should still process but not create actual issues
+      expect(result.classification).toBeDefined();
+      expect(result.duplicateCheck).toBeDefined();
+    });
+
+    test('should handle content hash duplicate detection', async () => {
+      const router = new IssueRouter(mockContext);
+      const result = await router.routeIssue(mockIssue, 'test-org/router');
+
+      // Verify that content hash is generated for duplicate detection
+      expect(result.duplicateCheck).toBeDefined();
+      expect(result.duplicateCheck.method).toBeDefined();
+    });
+  });
+
+  describe('Dry run', () => {
+    const createDryRunRouter = (found: Array<{ number: number; html_url: string }>, config: RoutingConfig = mockContext.config) => {
+      const writes: string[] = [];
+      const write = (method: string) => async () => {
+        writes.push(method);
+        return { data: {} };
+      };
+
+      const dryRunRouter = new IssueRouter({ ...mockContext, config, dryRun: true });
+      dryRunRouter['githubClient']['octokit'] = {
+        rest: {
+          search: { issuesAndPullRequests: async () => ({ data: { total_count: found.length, items: found } }) },
+          issues: {
+            listForRepo: async () => ({ data: [] }),
+            create: write('issues.create'),
+            update: write('issues.update'),
+            createComment: write('issues.createComment'),
+            addLabels: write('issues.addLabels'),
+          },
+        },
+        graphql: write('graphql'),
+      } as any;
+      return { dryRunRouter, writes };
+    };
+
+    test('should plan the new issue and the router close without writing to GitHub', async () => {
+      const { dryRunRouter, writes } = createDryRunRouter([]);
+
+      const result = await dryRunRouter.routeIssue(mockIssue, 'test-org/router');
+
+      expect(result.success).toBe(true);
+      expect(writes).toEqual([]);
+      expect(result.githubOperation.details).toMatchObject({ dryRun: true });
+      expect(result.plannedActions).toContain(`Create issue "${result.classification.title}" in test-org/ios-app with labels ${result.classification.labels.join(', ')}`);
+      expect(result.plannedActions).toContain(`Close router issue test-org/router#${mockIssue.number}`);
+    });
+
+    test('should plan the duplicate policy without writing to GitHub', async () => {
+      const config = validateRoutingConfig({ ...mockContext.config, duplicateDetection: { method: 'slack-permalink' } });
+      const { dryRunRouter, writes } = createDryRunRouter([{ number: 11, html_url: 'https://github.com/test-org/ios-app/issues/11' }], config);
+
+      const result = await dryRunRouter.routeIssue({ ...mockIssue, slackPermalink: 'https://test.slack.com/archives/C123/p1' }, 'test-org/router');
+
+      expect(result.duplicateCheck.isDuplicate).toBe(true);
+      expect(writes).toEqual([]);
+      expect(result.githubOperation).toMatchObject({ success: true, issueNumber: 11 });
+      expect(result.plannedActions?.[0]).toBe('Apply duplicate policy "comment" to test-org/ios-app#11');
     });
   });
 
@@ -3,6 +3,15 @@
  * This file is run before all tests
  */
 
+import type { IssueData, RoutingConfig } from '../src/types';
+
+declare global {
+  // eslint-disable-next-line no-var
+  var mockIssueData: IssueData;
+  // eslint-disable-next-line no-var
+  var mockConfig: RoutingConfig;
+}
+
 // Mock environment variables
 process.env.GITHUB_TOKEN = 'mock-github-token';
 process.env.OPENAI_API_KEY = 'mock-openai-key';
@@ -26,7 +35,6 @@ global.mockIssueData = {
   labels: ['test'],
   assignees: [],
   createdAt: new Date().toISOString(),
-  slackPermalink: null,
   sourceMeta: {
     repository: 'test-repo',
     sender: 'test-user',